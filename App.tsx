@@ -1,109 +1,435 @@
-import React, { useState } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { PanelLeftOpen } from 'lucide-react';
 import { InputSection } from './components/InputSection';
 import { Dashboard } from './components/Dashboard';
-import { AppMode, FrequencyRow, SimulationResults, SimulationConfig } from './types';
-import { parseRawData, calculateBasicMetrics, runMonteCarloSimulation } from './utils/calculations';
+import { WorkspaceSwitcher } from './components/WorkspaceSwitcher';
+import { ComparisonView, ComparisonSetupDialog, ComparisonCandidate } from './components/ComparisonView';
+import { RunHistoryPanel } from './components/RunHistoryPanel';
+import { PrintReport } from './components/PrintReport';
+import { AppMode, FrequencyRow, SimulationResults, SimulationConfig, RUnitConfig, CostConfig, SqnConfig, OptimalFConfig, RiskAllocationState, OptimalFAnalysisResult, WorkspaceSnapshot, ComparisonResults, ComparedSystem, SystemInputs, RunInputs, RunHistoryEntry } from './types';
+import { prepareSystem, describeSystemInputs, PreparedSystem } from './utils/systemInputs';
+import { resolveSeed } from './utils/random';
+import { PRESETS } from './utils/presets';
+import { DEFAULT_R_UNIT_CONFIG } from './utils/calculations';
+import { DEFAULT_COST_CONFIG, hasTradeCosts, isCostInR } from './utils/tradeCosts';
+import { runMonteCarloInWorker, SimulationCancelledError, SimulationTask } from './utils/simulationClient';
+import {
+  WorkspaceIndex, loadWorkspaceIndex, loadWorkspace, saveWorkspace, createWorkspace, renameWorkspace, deleteWorkspace,
+  setActiveWorkspace, createDefaultWorkspace, completeWorkspace
+} from './utils/workspace';
+import { serializeProject, parseProjectFile, downloadTextFile, PROJECT_FILE_EXTENSION } from './utils/projectFile';
+import { createShareLink, readShareHash, decodeShareLink, clearShareHash } from './utils/shareLink';
+import { loadRunHistory, saveRunHistory, createRunHistoryEntry, nextRunName } from './utils/runHistory';
+
+// Delay between the last edit and the autosave to local storage
+const AUTOSAVE_DELAY_MS = 500;
 
 const App: React.FC = () => {
-  const [mode, setMode] = useState<AppMode>(AppMode.FREQUENCY);
+  // Workspaces: the active one is restored on load and autosaved on every change
+  const [workspaceIndex, setWorkspaceIndex] = useState<WorkspaceIndex>(loadWorkspaceIndex);
+  const workspaceIndexRef = useRef(workspaceIndex);
+  workspaceIndexRef.current = workspaceIndex;
+  const [initialWorkspace] = useState<WorkspaceSnapshot>(() => loadWorkspace(workspaceIndex.activeId));
+
+  const [mode, setMode] = useState<AppMode>(initialWorkspace.mode);
   
   // State for Frequency Mode
-  const [frequencyData, setFrequencyData] = useState<FrequencyRow[]>([
-    { id: '1', count: 5, rValue: -1 },
-    { id: '2', count: 3, rValue: 2 },
-    { id: '3', count: 2, rValue: 5 },
-  ]);
+  const [frequencyData, setFrequencyData] = useState<FrequencyRow[]>(initialWorkspace.frequencyData);
 
   // State for Raw PnL Mode
-  const [rawPnlText, setRawPnlText] = useState<string>('');
+  const [rawPnlText, setRawPnlText] = useState<string>(initialWorkspace.rawPnlText);
+  const [rUnitConfig, setRUnitConfig] = useState<RUnitConfig>(initialWorkspace.rUnitConfig);
+
+  // State for Trade Log Mode
+  const [tradeLogText, setTradeLogText] = useState<string>(initialWorkspace.tradeLogText);
+
+  // Trading costs, deducted from every trade in all modes
+  const [costConfig, setCostConfig] = useState<CostConfig>(initialWorkspace.costConfig);
   
   // Simulation Configuration
-  const [simulationConfig, setSimulationConfig] = useState<SimulationConfig>({
-    totalSimulations: 10000,
-    tradesPerSimulation: 100
-  });
+  const [simulationConfig, setSimulationConfig] = useState<SimulationConfig>(initialWorkspace.simulationConfig);
+
+  // SQN normalisation (cap = 100 gives Van Tharp's SQN100)
+  const [sqnConfig, setSqnConfig] = useState<SqnConfig>(initialWorkspace.sqnConfig);
+
+  // Position sizing tools (edited in the Dashboard, owned here so they are saved with the workspace)
+  const [optimalFConfig, setOptimalFConfig] = useState<OptimalFConfig>(initialWorkspace.optimalFConfig);
+  const [riskAllocation, setRiskAllocation] = useState<RiskAllocationState>(initialWorkspace.riskAllocation);
+  // Last optimal f analysis; not saved, and discarded whenever the results it was run on change
+  const [optimalFResult, setOptimalFResult] = useState<OptimalFAnalysisResult | null>(null);
 
   // UI State
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   
   // Results State
-  const [results, setResults] = useState<SimulationResults | null>(null);
+  const [results, setResults] = useState<SimulationResults | null>(initialWorkspace.results);
   const [isCalculating, setIsCalculating] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const taskRef = useRef<SimulationTask<SimulationResults> | null>(null);
+
+  // System comparison (not part of the saved workspace)
+  const [comparison, setComparison] = useState<ComparisonResults | null>(null);
+  const [comparisonSources, setComparisonSources] = useState<{ candidate: ComparisonCandidate; inputs: SystemInputs }[] | null>(null);
+
+  // Run history of the active workspace (stored separately from the workspace)
+  const [runHistory, setRunHistory] = useState<RunHistoryEntry[]>(() => loadRunHistory(workspaceIndex.activeId));
+  const runHistoryRef = useRef(runHistory);
+  runHistoryRef.current = runHistory;
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+
+  // Printable report (mounted only while the print dialog is open)
+  const [isReportOpen, setIsReportOpen] = useState(false);
+
+  // Stop any running worker when the app unmounts
+  useEffect(() => () => taskRef.current?.cancel(), []);
+
+  useEffect(() => setOptimalFResult(null), [results]);
+
+  const snapshot: WorkspaceSnapshot = {
+    mode, frequencyData, rawPnlText, rUnitConfig, tradeLogText, costConfig, sqnConfig, simulationConfig, optimalFConfig, riskAllocation, results
+  };
+  const snapshotRef = useRef(snapshot);
+  snapshotRef.current = snapshot;
+
+  // Autosave (debounced) whenever any part of the workspace changes
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const index = workspaceIndexRef.current;
+      setWorkspaceIndex(saveWorkspace(index, index.activeId, snapshot));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [workspaceIndex.activeId, mode, frequencyData, rawPnlText, rUnitConfig, tradeLogText, costConfig, sqnConfig, simulationConfig, optimalFConfig, riskAllocation, results]);
+
+  const applyWorkspace = (workspace: WorkspaceSnapshot, id: string) => {
+    taskRef.current?.cancel();
+    setMode(workspace.mode);
+    setFrequencyData(workspace.frequencyData);
+    setRawPnlText(workspace.rawPnlText);
+    setRUnitConfig(workspace.rUnitConfig);
+    setTradeLogText(workspace.tradeLogText);
+    setCostConfig(workspace.costConfig);
+    setSqnConfig(workspace.sqnConfig);
+    setSimulationConfig(workspace.simulationConfig);
+    setOptimalFConfig(workspace.optimalFConfig);
+    setRiskAllocation(workspace.riskAllocation);
+    setResults(workspace.results);
+    setComparison(null);
+    setRunHistory(loadRunHistory(id));
+  };
+
+  // Switching saves the current workspace immediately so no pending edits are lost
+  const handleSwitchWorkspace = (id: string) => {
+    if (id === workspaceIndex.activeId) return;
+    const saved = saveWorkspace(workspaceIndex, workspaceIndex.activeId, snapshot);
+    setWorkspaceIndex(setActiveWorkspace(saved, id));
+    applyWorkspace(loadWorkspace(id), id);
+  };
+
+  const handleCreateWorkspace = (name: string) => {
+    const saved = saveWorkspace(workspaceIndex, workspaceIndex.activeId, snapshot);
+    const workspace = createDefaultWorkspace();
+    const next = createWorkspace(saved, name, workspace);
+    setWorkspaceIndex(next);
+    applyWorkspace(workspace, next.activeId);
+  };
+
+  const handleRenameWorkspace = (id: string, name: string) => {
+    setWorkspaceIndex(renameWorkspace(workspaceIndex, id, name));
+  };
+
+  const handleDeleteWorkspace = (id: string) => {
+    const next = deleteWorkspace(workspaceIndex, id);
+    setWorkspaceIndex(next);
+    if (next.activeId !== workspaceIndex.activeId) {
+      applyWorkspace(loadWorkspace(next.activeId), next.activeId);
+    }
+  };
+
+  const handleSaveProject = () => {
+    const name = workspaceIndex.workspaces.find(w => w.id === workspaceIndex.activeId)?.name ?? '';
+    const includeResults = results !== null
+      && window.confirm('是否在项目文件中包含模拟结果？\n选择“取消”则只保存输入与参数 (文件更小)。\n\nInclude simulation results in the project file?');
+    const fileName = `${name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'van-tharp-project'}${PROJECT_FILE_EXTENSION}`;
+    downloadTextFile(serializeProject(name, snapshot, includeResults), fileName);
+  };
+
+  // Imported analyses open in a new workspace so the current one is never overwritten
+  const openInNewWorkspace = (name: string, workspace: WorkspaceSnapshot) => {
+    const index = workspaceIndexRef.current;
+    const saved = saveWorkspace(index, index.activeId, snapshotRef.current);
+    const next = createWorkspace(saved, name, workspace);
+    setWorkspaceIndex(next);
+    applyWorkspace(workspace, next.activeId);
+  };
+
+  const handleOpenProject = (text: string, fileName: string) => {
+    const parsed = parseProjectFile(text);
+    if (parsed.error || !parsed.workspace) {
+      alert(parsed.error ?? '项目文件读取失败。');
+      return;
+    }
+    openInNewWorkspace(parsed.name || fileName.replace(/(\.vtproj)?\.json$/i, ''), parsed.workspace);
+  };
+
+  const handleShareLink = async () => {
+    const autoRun = window.confirm('对方打开链接时是否自动运行模拟？\n\nRun the simulation automatically when the link is opened?');
+    const result = await createShareLink({
+      mode, frequencyData, rawPnlText, tradeLogText, rUnitConfig, costConfig, sqnConfig,
+      // Pin the seed of the last run so the receiver reproduces the same results
+      simulationConfig: { ...simulationConfig, seed: simulationConfig.seed ?? results?.simulationConfig.seed },
+      autoRun
+    }, window.location.href);
+
+    if (result.error !== undefined) {
+      alert(result.error);
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(result.url);
+      alert('分享链接已复制到剪贴板。(Share link copied to clipboard.)');
+    } catch {
+      window.prompt('请复制分享链接 (Copy the share link):', result.url);
+    }
+  };
+
+  // Shared links (#share=...) are applied on load and whenever the hash changes
+  // 'record' adds the run to the history; 'replay' re-runs a history entry without recording it again
+  const [pendingRun, setPendingRun] = useState<'record' | 'replay' | null>(null);
+
+  useEffect(() => {
+    const openSharedLink = async () => {
+      const encoded = readShareHash(window.location.hash);
+      if (encoded === null) return;
+      clearShareHash(); // Before awaiting, so a second trigger cannot apply the same link twice
+      const { state, error } = await decodeShareLink(encoded);
+      if (!state) {
+        alert(error);
+        return;
+      }
+      const { autoRun, ...inputs } = state;
+      openInNewWorkspace('共享链接 (Shared Link)', completeWorkspace(inputs));
+      if (autoRun) setPendingRun('record');
+    };
+
+    openSharedLink();
+    window.addEventListener('hashchange', openSharedLink);
+    return () => window.removeEventListener('hashchange', openSharedLink);
+  }, []);
 
-  const handleRunSimulation = async () => {
+  // Runs after shared or reopened inputs have been applied, so the simulation sees them
+  useEffect(() => {
+    if (!pendingRun) return;
+    setPendingRun(null);
+    handleRunSimulation(undefined, pendingRun === 'record');
+  }, [pendingRun]);
+
+  const handleRunSimulation = async (configOverride?: SimulationConfig, recordHistory: boolean = true) => {
+    const config = configOverride ?? simulationConfig;
+
+    // A new run supersedes whatever is still in flight
+    taskRef.current?.cancel();
+
+    // 1. Parse inputs and calculate static metrics (cheap, stays on the main thread)
+    const inputs: SystemInputs = { mode, frequencyData, rawPnlText, rUnitConfig, tradeLogText, costConfig };
+    const { system, error } = prepareSystem(inputs, sqnConfig, config.resampleMode);
+    if (!system) {
+      alert(error);
+      return;
+    }
+
+    // 2. Run Monte Carlo in the simulation worker
     setIsCalculating(true);
-    
-    // Use setTimeout to allow UI to render the loading state before the heavy sync calculation blocks the thread
-    setTimeout(() => {
-      try {
-        let rDistribution: number[] = [];
-        let rUnitSize: number | undefined = undefined;
-        let n = 100; // Default for Frequency mode
-
-        if (mode === AppMode.FREQUENCY) {
-          // Flatten distribution
-          frequencyData.forEach(row => {
-            const count = Math.max(0, Math.floor(row.count));
-            for (let i = 0; i < count; i++) {
-              rDistribution.push(row.rValue);
-            }
-          });
-          
-          if (rDistribution.length === 0) {
-            alert("请至少添加一行数据，且次数大于 0。");
-            setIsCalculating(false);
-            return;
-          }
-
-        } else {
-          // Mode B: Raw PnL
-          const parsed = parseRawData(rawPnlText);
-          if (parsed.error) {
-            alert(parsed.error);
-            setIsCalculating(false);
-            return;
-          }
-          rDistribution = parsed.rMultiples;
-          rUnitSize = parsed.rUnit;
-          n = parsed.validCount;
-        }
-
-        // 1. Calculate Static Metrics
-        const systemMetrics = calculateBasicMetrics(rDistribution, n, rUnitSize);
-
-        // 2. Run Monte Carlo with dynamic config
-        const simulationResults = runMonteCarloSimulation(rDistribution, systemMetrics, simulationConfig);
-
-        setResults(simulationResults);
-
-      } catch (error) {
+    setProgress(0);
+    const task = runMonteCarloInWorker(system.pool, system.systemMetrics, config, setProgress);
+    taskRef.current = task;
+
+    try {
+      const runResults = await task.promise;
+      setResults(runResults);
+      setComparison(null);
+      if (recordHistory) {
+        // The resolved seed is stored so the run can be reproduced exactly
+        const runInputs: RunInputs = { ...inputs, sqnConfig, simulationConfig: { ...config, seed: runResults.simulationConfig.seed } };
+        const entry = createRunHistoryEntry(runInputs, runResults, nextRunName(runHistoryRef.current));
+        updateRunHistory([entry, ...runHistoryRef.current]);
+      }
+    } catch (error) {
+      if (!(error instanceof SimulationCancelledError)) {
         console.error("Simulation error", error);
         alert("模拟过程中发生错误，请检查您的输入数据。");
-      } finally {
+      }
+    } finally {
+      // Only the latest task owns the loading state
+      if (taskRef.current === task) {
+        taskRef.current = null;
         setIsCalculating(false);
+        setProgress(0);
       }
-    }, 100);
+    }
+  };
+
+  // Candidates: the current inputs, the other saved workspaces and the built-in presets
+  const handleOpenComparison = () => {
+    const sources: { candidate: ComparisonCandidate; inputs: SystemInputs }[] = [];
+    const activeName = workspaceIndex.workspaces.find(w => w.id === workspaceIndex.activeId)?.name ?? '';
+    // Each workspace runs net of its own trading costs; the description shows which costs apply
+    const addSource = (id: string, name: string, group: string, inputs: SystemInputs, note?: string) => {
+      sources.push({ candidate: { id, name, group, description: describeSystemInputs(inputs), note }, inputs });
+    };
+
+    addSource('current', `${activeName} (当前 Current)`, '工作区 (Workspaces)', { mode, frequencyData, rawPnlText, rUnitConfig, tradeLogText, costConfig });
+    workspaceIndex.workspaces.filter(w => w.id !== workspaceIndex.activeId).forEach(w => {
+      addSource(`workspace:${w.id}`, w.name, '工作区 (Workspaces)', loadWorkspace(w.id));
+    });
+    // Presets have no costs of their own and take the current ones, unless those are a currency
+    // amount, which cannot be converted to R without an account size
+    const presetCosts = isCostInR(costConfig) ? costConfig : undefined;
+    const presetNote = hasTradeCosts(costConfig) && !presetCosts
+      ? '当前成本以金额计，无法换算为 R，预设按无成本运行 (Currency costs cannot apply to R presets; run without costs)'
+      : undefined;
+    PRESETS.forEach(preset => {
+      addSource(`preset:${preset.id}`, preset.name, '预设模型 (Presets)', {
+        mode: AppMode.FREQUENCY,
+        frequencyData: preset.data.map((row, i) => ({ id: String(i), ...row })),
+        rawPnlText: '',
+        rUnitConfig: DEFAULT_R_UNIT_CONFIG,
+        tradeLogText: '',
+        costConfig: presetCosts
+      }, presetNote);
+    });
+
+    setComparisonSources(sources);
+  };
+
+  // All systems share the current config and one resolved seed, so differences come from the inputs and costs only
+  const handleRunComparison = async (ids: string[]) => {
+    const sources = comparisonSources ?? [];
+    setComparisonSources(null);
+    taskRef.current?.cancel();
+
+    // The comparison view has no use for per-simulation records
+    const config = { ...simulationConfig, seed: resolveSeed(simulationConfig.seed), retainSimulations: false };
+    const prepared: { name: string; system: PreparedSystem }[] = [];
+    for (const id of ids) {
+      const source = sources.find(s => s.candidate.id === id);
+      if (!source) continue;
+      const { system, error } = prepareSystem(source.inputs, sqnConfig, config.resampleMode);
+      if (!system) {
+        alert(`${source.candidate.name}: ${error}`);
+        return;
+      }
+      prepared.push({ name: source.candidate.name, system });
+    }
+
+    setIsCalculating(true);
+    setProgress(0);
+    const systems: ComparedSystem[] = [];
+    let task: SimulationTask<SimulationResults> | null = null;
+
+    try {
+      for (let i = 0; i < prepared.length; i++) {
+        const { name, system } = prepared[i];
+        task = runMonteCarloInWorker(system.pool, system.systemMetrics, config, p => setProgress(Math.round((i * 100 + p) / prepared.length)));
+        taskRef.current = task;
+        systems.push({ name, results: await task.promise });
+      }
+      setComparison({ simulationConfig: config, systems });
+    } catch (error) {
+      if (!(error instanceof SimulationCancelledError)) {
+        console.error("Comparison error", error);
+        alert("对比模拟过程中发生错误，请检查各系统的输入数据。");
+      }
+    } finally {
+      if (taskRef.current === task) {
+        taskRef.current = null;
+        setIsCalculating(false);
+        setProgress(0);
+      }
+    }
+  };
+
+  const updateRunHistory = (entries: RunHistoryEntry[]) => {
+    setRunHistory(saveRunHistory(workspaceIndexRef.current.activeId, entries));
+  };
+
+  // Restores the inputs of a run; runs whose results were not kept are re-run with their seed
+  const handleReopenRun = (id: string) => {
+    const entry = runHistory.find(e => e.id === id);
+    if (!entry) return;
+    const { sqnConfig: runSqnConfig, simulationConfig: runConfig, ...inputs } = entry.inputs;
+    taskRef.current?.cancel();
+    setMode(inputs.mode);
+    setFrequencyData(inputs.frequencyData);
+    setRawPnlText(inputs.rawPnlText);
+    setRUnitConfig(inputs.rUnitConfig);
+    setTradeLogText(inputs.tradeLogText);
+    setCostConfig(inputs.costConfig ?? DEFAULT_COST_CONFIG);
+    setSqnConfig(runSqnConfig);
+    setSimulationConfig(runConfig);
+    setComparison(null);
+    setIsHistoryOpen(false);
+    if (entry.results) {
+      setResults(entry.results);
+    } else {
+      setPendingRun('replay');
+    }
+  };
+
+  const handleCancelSimulation = () => {
+    taskRef.current?.cancel();
+  };
+
+  // Pin the seed of a previous run and run again with the current inputs
+  const handleRerunWithSeed = (seed: number) => {
+    const config = { ...simulationConfig, seed };
+    setSimulationConfig(config);
+    handleRunSimulation(config);
   };
 
   return (
     <div className="flex h-screen overflow-hidden bg-gray-50 font-sans text-gray-900 relative">
       {/* Left Panel */}
       {isSidebarOpen && (
-        <div className="w-[350px] lg:w-1/3 flex-shrink-0 z-10 h-full">
-          <InputSection 
-            mode={mode}
-            setMode={setMode}
-            frequencyData={frequencyData}
-            setFrequencyData={setFrequencyData}
-            rawPnlText={rawPnlText}
-            setRawPnlText={setRawPnlText}
-            onRun={handleRunSimulation}
-            isCalculating={isCalculating}
-            onToggleSidebar={() => setIsSidebarOpen(false)}
-            simulationConfig={simulationConfig}
-            setSimulationConfig={setSimulationConfig}
+        <div className="w-[350px] lg:w-1/3 flex-shrink-0 z-10 h-full flex flex-col">
+          <WorkspaceSwitcher
+            workspaces={workspaceIndex.workspaces}
+            activeId={workspaceIndex.activeId}
+            onSwitch={handleSwitchWorkspace}
+            onCreate={handleCreateWorkspace}
+            onRename={handleRenameWorkspace}
+            onDelete={handleDeleteWorkspace}
+            onSaveProject={handleSaveProject}
+            onOpenProject={handleOpenProject}
+            onShareLink={handleShareLink}
+            onOpenHistory={() => setIsHistoryOpen(true)}
+            historyCount={runHistory.length}
           />
+          <div className="flex-1 min-h-0">
+            <InputSection 
+              mode={mode}
+              setMode={setMode}
+              frequencyData={frequencyData}
+              setFrequencyData={setFrequencyData}
+              rawPnlText={rawPnlText}
+              setRawPnlText={setRawPnlText}
+              rUnitConfig={rUnitConfig}
+              setRUnitConfig={setRUnitConfig}
+              tradeLogText={tradeLogText}
+              setTradeLogText={setTradeLogText}
+              onRun={() => handleRunSimulation()}
+              onCompare={handleOpenComparison}
+              isCalculating={isCalculating}
+              progress={progress}
+              onCancel={handleCancelSimulation}
+              onToggleSidebar={() => setIsSidebarOpen(false)}
+              simulationConfig={simulationConfig}
+              setSimulationConfig={setSimulationConfig}
+              sqnConfig={sqnConfig}
+              setSqnConfig={setSqnConfig}
+              costConfig={costConfig}
+              setCostConfig={setCostConfig}
+            />
+          </div>
         </div>
       )}
 
@@ -120,8 +446,56 @@ const App: React.FC = () => {
 
       {/* Right Panel: Remaining width */}
       <div className="flex-1 min-w-0 bg-white">
-        <Dashboard results={results} isSidebarOpen={isSidebarOpen} />
+        {comparison ? (
+          <ComparisonView comparison={comparison} onClose={() => setComparison(null)} />
+        ) : (
+          <Dashboard
+            key={workspaceIndex.activeId}
+            results={results}
+            isSidebarOpen={isSidebarOpen}
+            onRerunWithSeed={handleRerunWithSeed}
+            optimalFConfig={optimalFConfig}
+            setOptimalFConfig={setOptimalFConfig}
+            optimalFResult={optimalFResult}
+            setOptimalFResult={setOptimalFResult}
+            riskAllocation={riskAllocation}
+            setRiskAllocation={setRiskAllocation}
+            onExportReport={() => setIsReportOpen(true)}
+          />
+        )}
       </div>
+
+      {comparisonSources && (
+        <ComparisonSetupDialog
+          candidates={comparisonSources.map(s => s.candidate)}
+          simulationConfig={simulationConfig}
+          onRun={handleRunComparison}
+          onClose={() => setComparisonSources(null)}
+        />
+      )}
+
+      {isHistoryOpen && (
+        <RunHistoryPanel
+          entries={runHistory}
+          onReopen={handleReopenRun}
+          onTogglePin={id => updateRunHistory(runHistory.map(e => (e.id === id ? { ...e, pinned: !e.pinned } : e)))}
+          onRename={(id, name) => updateRunHistory(runHistory.map(e => (e.id === id ? { ...e, name } : e)))}
+          onDelete={id => updateRunHistory(runHistory.filter(e => e.id !== id))}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {isReportOpen && results && (
+        <PrintReport
+          workspaceName={workspaceIndex.workspaces.find(w => w.id === workspaceIndex.activeId)?.name ?? ''}
+          inputs={{ mode, frequencyData, rawPnlText, rUnitConfig, tradeLogText, costConfig }}
+          results={results}
+          optimalFConfig={optimalFConfig}
+          optimalFResult={optimalFResult}
+          riskAllocation={riskAllocation}
+          onDone={() => setIsReportOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,481 @@
+// --- Command-Line Runner ---
+// Runs the analyzer headless (scripts, nightly jobs) with the same parsing, metrics and simulation
+// code as the web app. Build with `npm run build:cli`, then run `npm run cli -- <input> [options]`.
+//
+// Exit codes: 0 success, 1 invalid input or failed run (same messages the app alerts on),
+// 2 invalid command-line usage.
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import * as XLSX from 'xlsx';
+import {
+  AppMode, CostConfig, CostMethod, EquitySimulationResults, FrequencyRow, OptimalFAnalysisResult, OptimalFConfig, ResampleMode, RiskMode, RiskSweepConfig, SimulationConfig,
+  SimulationResults, SqnConfig, SweepMode, SystemInputs, WorkspaceSnapshot
+} from '../types';
+import {
+  runMonteCarloSimulation, runOptimalFAnalysis, parseStrictNumber, DEFAULT_R_UNIT_CONFIG, DEFAULT_SQN_CONFIG, DEFAULT_MAX_RETAINED_SIMULATIONS
+} from '../utils/calculations';
+import { prepareSystem, describeSystemInputs } from '../utils/systemInputs';
+import { DEFAULT_SIMULATION_CONFIG, DEFAULT_OPTIMAL_F_CONFIG } from '../utils/workspace';
+import { parseProjectFile } from '../utils/projectFile';
+import { simulationRecordsToCsv, simulationRecordsToJson } from '../utils/simulationRecords';
+import { DEFAULT_COST_CONFIG } from '../utils/tradeCosts';
+import { DEFAULT_RISK_SWEEP, resolveRiskSweep, validateRiskSweep } from '../utils/riskSweep';
+import { DEFAULT_EQUITY_SIMULATION_CONFIG, resolveEquitySimulationConfig, validateEquitySimulationConfig } from '../utils/equitySimulation';
+
+const USAGE = `Usage: vt-analyzer <input> [options]
+
+Input (by extension):
+  .csv .tsv .txt      Raw P&L list, trade log or frequency table (see --mode)
+  .xlsx .xls          Same, from the first sheet
+  .json               Project file (.vtproj.json), an array of P&L numbers,
+                      or an array of { "count", "rValue" } rows
+
+Options:
+  --mode <m>          raw | trade-log | frequency       (default: raw; project files use their own)
+  --sims <n>          Number of simulations             (default: ${DEFAULT_SIMULATION_CONFIG.totalSimulations})
+  --trades <n>        Trades per simulation             (default: ${DEFAULT_SIMULATION_CONFIG.tradesPerSimulation})
+  --seed <n>          PRNG seed; omit for a random seed (reported in the output)
+  --resample <m>      iid | shuffle | block | stationary (default: iid)
+  --block-length <n>  Block length for block resampling (default: ${DEFAULT_SIMULATION_CONFIG.blockLength})
+  --sqn-cap <n>       Max n for the graded SQN          (default: ${DEFAULT_SQN_CONFIG.cap})
+  --cost-r <R>        Trading cost per trade in R       (default: none)
+  --cost-pct <pct>    Trading cost per trade in % of 1R
+  --cost <amount>     Trading cost per trade in currency (raw and trade-log modes)
+  --equity <amount>   Account starting equity           (default: ${DEFAULT_EQUITY_SIMULATION_CONFIG.startingEquity})
+  --risk <pct>        Account size % per trade          (default: ${DEFAULT_EQUITY_SIMULATION_CONFIG.riskPercent})
+  --account-model <m> Account sizing model              (default: fixed-fractional)
+                      (same names as --risk-mode)
+  --floor <pct>       Account floor in % of the start   (default: ${DEFAULT_EQUITY_SIMULATION_CONFIG.floorPercent})
+  --optimal-f         Also run the Optimal F risk sweep
+  --risk-mode <m>     Sizing model for Optimal F        (default: fixed-fractional)
+                      fixed-fractional | fixed-initial | units-per-money | percent-margin |
+                      percent-volatility | market-money | fixed-ratio
+                      (model settings come from the project file, else the defaults)
+  --success <pct>     Optimal F success threshold in %  (default: ${DEFAULT_OPTIMAL_F_CONFIG.successThreshold})
+  --failure <pct>     Optimal F ruin threshold in %     (default: ${DEFAULT_OPTIMAL_F_CONFIG.failureThreshold})
+  --f-start <pct>     Optimal F sweep start in %        (default: ${DEFAULT_RISK_SWEEP.start})
+  --f-end <pct>       Optimal F sweep end in %          (default: ${DEFAULT_RISK_SWEEP.end})
+  --f-step <pct>      Optimal F sweep step in %         (default: ${DEFAULT_RISK_SWEEP.step})
+  --adaptive          Coarse Optimal F scan, then refine at --f-step around each optimum
+  --crn               Optimal F: replay the same trade sequences at every risk level
+  -f, --format <f>    json | csv                        (default: from --output extension, else json)
+  -o, --output <file> Write to a file instead of stdout
+  --full              JSON only: include equity curves, percentile bands and histograms
+  --per-sim <file>    Also write the per-simulation metrics (.csv rows, or .json columnar;
+                      at most ${DEFAULT_MAX_RETAINED_SIMULATIONS} sims)
+  -q, --quiet         No progress output on stderr
+  -h, --help          Show this help
+`;
+
+const MODE_FLAGS: Record<string, AppMode> = {
+  'raw': AppMode.RAW_PNL,
+  'trade-log': AppMode.TRADE_LOG,
+  'frequency': AppMode.FREQUENCY,
+};
+
+const RESAMPLE_FLAGS: Record<string, ResampleMode> = {
+  'iid': ResampleMode.IID,
+  'shuffle': ResampleMode.SHUFFLE,
+  'block': ResampleMode.MOVING_BLOCK,
+  'stationary': ResampleMode.STATIONARY,
+};
+
+const RISK_MODE_FLAGS: Record<string, RiskMode> = {
+  'fixed-fractional': RiskMode.FIXED_FRACTIONAL,
+  'fixed-initial': RiskMode.FIXED_INITIAL,
+  'units-per-money': RiskMode.UNITS_PER_MONEY,
+  'percent-margin': RiskMode.PERCENT_MARGIN,
+  'percent-volatility': RiskMode.PERCENT_VOLATILITY,
+  'market-money': RiskMode.MARKET_MONEY,
+  'fixed-ratio': RiskMode.FIXED_RATIO,
+};
+
+type OutputFormat = 'json' | 'csv';
+
+// --- Arguments ---
+
+const pickFlag = <T>(table: Record<string, T>, name: string, value: string | undefined): T | undefined => {
+  if (value === undefined) return undefined;
+  const picked = table[value.toLowerCase()];
+  if (picked === undefined) {
+    throw new Error(`--${name} must be one of: ${Object.keys(table).join(', ')} (got "${value}")`);
+  }
+  return picked;
+};
+
+const numberFlag = (name: string, value: string | undefined, { integer = false, min = -Infinity } = {}): number | undefined => {
+  if (value === undefined) return undefined;
+  const n = parseStrictNumber(value);
+  if (n === null || (integer && !Number.isInteger(n)) || n < min) {
+    throw new Error(`--${name} must be ${integer ? 'an integer' : 'a number'}${min > -Infinity ? ` >= ${min}` : ''} (got "${value}")`);
+  }
+  return n;
+};
+
+const parseCommandLine = (argv: string[]) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      'mode': { type: 'string' },
+      'sims': { type: 'string' },
+      'trades': { type: 'string' },
+      'seed': { type: 'string' },
+      'resample': { type: 'string' },
+      'block-length': { type: 'string' },
+      'sqn-cap': { type: 'string' },
+      'cost-r': { type: 'string' },
+      'cost-pct': { type: 'string' },
+      'cost': { type: 'string' },
+      'equity': { type: 'string' },
+      'risk': { type: 'string' },
+      'account-model': { type: 'string' },
+      'floor': { type: 'string' },
+      'optimal-f': { type: 'boolean' },
+      'risk-mode': { type: 'string' },
+      'success': { type: 'string' },
+      'failure': { type: 'string' },
+      'f-start': { type: 'string' },
+      'f-end': { type: 'string' },
+      'f-step': { type: 'string' },
+      'adaptive': { type: 'boolean' },
+      'crn': { type: 'boolean' },
+      'format': { type: 'string', short: 'f' },
+      'output': { type: 'string', short: 'o' },
+      'full': { type: 'boolean' },
+      'per-sim': { type: 'string' },
+      'quiet': { type: 'boolean', short: 'q' },
+      'help': { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) return null;
+  if (positionals.length !== 1) {
+    throw new Error(positionals.length === 0 ? 'Missing input file.' : `Expected one input file, got ${positionals.length}.`);
+  }
+
+  const output = values.output;
+  const format = pickFlag<OutputFormat>({ json: 'json', csv: 'csv' }, 'format', values.format)
+    ?? (output && extname(output).toLowerCase() === '.csv' ? 'csv' : 'json');
+  if (values.full && format === 'csv') {
+    throw new Error('--full is only supported for JSON output.');
+  }
+
+  const costFlags = (['cost-r', 'cost-pct', 'cost'] as const).filter(name => values[name] !== undefined);
+  if (costFlags.length > 1) {
+    throw new Error(`Use only one of --cost-r, --cost-pct and --cost (got ${costFlags.map(name => `--${name}`).join(', ')}).`);
+  }
+  const costR = numberFlag('cost-r', values['cost-r'], { min: 0 });
+  const costPct = numberFlag('cost-pct', values['cost-pct'], { min: 0 });
+  const costAmount = numberFlag('cost', values.cost, { min: 0 });
+  const costConfig: CostConfig | undefined = costR !== undefined ? { ...DEFAULT_COST_CONFIG, method: CostMethod.FIXED_R, fixedR: costR }
+    : costPct !== undefined ? { ...DEFAULT_COST_CONFIG, method: CostMethod.RISK_PERCENT, riskPercent: costPct }
+    : costAmount !== undefined ? { ...DEFAULT_COST_CONFIG, method: CostMethod.CURRENCY, amount: costAmount }
+    : undefined;
+
+  const failure = numberFlag('failure', values.failure, { min: -100 });
+  if (failure !== undefined && failure > 0) {
+    throw new Error('--failure must be between -100 and 0.');
+  }
+
+  return {
+    input: positionals[0],
+    mode: pickFlag(MODE_FLAGS, 'mode', values.mode),
+    sims: numberFlag('sims', values.sims, { integer: true, min: 1 }),
+    trades: numberFlag('trades', values.trades, { integer: true, min: 1 }),
+    seed: numberFlag('seed', values.seed, { integer: true, min: 0 }),
+    resampleMode: pickFlag(RESAMPLE_FLAGS, 'resample', values.resample),
+    blockLength: numberFlag('block-length', values['block-length'], { integer: true, min: 1 }),
+    sqnCap: numberFlag('sqn-cap', values['sqn-cap'], { integer: true, min: 10 }),
+    costConfig,
+    startingEquity: numberFlag('equity', values.equity),
+    risk: numberFlag('risk', values.risk),
+    accountModel: pickFlag(RISK_MODE_FLAGS, 'account-model', values['account-model']),
+    floor: numberFlag('floor', values.floor),
+    // Any Optimal F option implies the sweep
+    optimalF: Boolean(values['optimal-f'] || values['risk-mode'] || values.success || values.failure
+      || values['f-start'] || values['f-end'] || values['f-step'] || values.adaptive || values.crn),
+    riskMode: pickFlag(RISK_MODE_FLAGS, 'risk-mode', values['risk-mode']),
+    success: numberFlag('success', values.success, { min: 0 }),
+    failure,
+    sweepStart: numberFlag('f-start', values['f-start']),
+    sweepEnd: numberFlag('f-end', values['f-end']),
+    sweepStep: numberFlag('f-step', values['f-step']),
+    adaptive: Boolean(values.adaptive),
+    commonRandomNumbers: Boolean(values.crn),
+    format,
+    output,
+    full: Boolean(values.full),
+    perSim: values['per-sim'],
+    quiet: Boolean(values.quiet),
+  };
+};
+
+type CliOptions = NonNullable<ReturnType<typeof parseCommandLine>>;
+
+// --- Input ---
+
+const emptyInputs = (mode: AppMode): SystemInputs => ({
+  mode, frequencyData: [], rawPnlText: '', rUnitConfig: DEFAULT_R_UNIT_CONFIG, tradeLogText: ''
+});
+
+// Frequency rows from a sheet: "count" and "R" columns by header name, else the first two columns
+// (same matching as the app's Excel import)
+const frequencyRowsFromSheet = (rows: unknown[][]): FrequencyRow[] => {
+  const header = rows[0]?.map(cell => String(cell ?? '').toLowerCase()) ?? [];
+  const hasHeader = header.some(cell => cell !== '' && parseStrictNumber(cell) === null);
+  let countCol = 0;
+  let rCol = 1;
+  if (hasHeader) {
+    const c = header.findIndex(h => h.includes('count') || h.includes('次数'));
+    const r = header.findIndex((h, i) => i !== c && (h.includes('r') || h.includes('value') || h.includes('倍数')));
+    if (c >= 0) countCol = c;
+    if (r >= 0) rCol = r;
+  }
+  return (hasHeader ? rows.slice(1) : rows).flatMap((row, i) => {
+    const count = parseStrictNumber(String(row[countCol] ?? ''));
+    const rValue = parseStrictNumber(String(row[rCol] ?? ''));
+    return count === null || rValue === null ? [] : [{ id: String(i + 1), count, rValue }];
+  });
+};
+
+const loadJsonInput = (text: string): { inputs: SystemInputs | null; workspace?: WorkspaceSnapshot; error?: string } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { inputs: null, error: 'JSON 解析失败，请检查文件内容。(Invalid JSON.)' };
+  }
+
+  if (Array.isArray(data)) {
+    if (data.every(v => typeof v === 'number')) {
+      return { inputs: { ...emptyInputs(AppMode.RAW_PNL), rawPnlText: data.join('\n') } };
+    }
+    if (data.every(v => v && typeof v === 'object' && typeof v.count === 'number' && typeof v.rValue === 'number')) {
+      const frequencyData = data.map((row, i) => ({ id: String(i + 1), count: row.count, rValue: row.rValue }));
+      return { inputs: { ...emptyInputs(AppMode.FREQUENCY), frequencyData } };
+    }
+    return { inputs: null, error: 'JSON 数组必须全部为数字 (盈亏列表) 或全部为 { "count", "rValue" } 行。' };
+  }
+
+  const parsed = parseProjectFile(text);
+  if (parsed.error || !parsed.workspace) {
+    return { inputs: null, error: parsed.error ?? '项目文件读取失败。' };
+  }
+  const { mode, frequencyData, rawPnlText, rUnitConfig, tradeLogText, costConfig } = parsed.workspace;
+  return { inputs: { mode, frequencyData, rawPnlText, rUnitConfig, tradeLogText, costConfig }, workspace: parsed.workspace };
+};
+
+const loadInput = (path: string, mode: AppMode | undefined): { inputs: SystemInputs | null; workspace?: WorkspaceSnapshot; error?: string } => {
+  let buffer: Buffer;
+  try {
+    buffer = readFileSync(path);
+  } catch (err) {
+    return { inputs: null, error: `无法读取文件 (Cannot read file) "${path}": ${err instanceof Error ? err.message : String(err)}` };
+  }
+
+  const ext = extname(path).toLowerCase();
+  if (ext === '.json') {
+    const loaded = loadJsonInput(buffer.toString('utf8'));
+    if (loaded.inputs && mode !== undefined && mode !== loaded.inputs.mode) {
+      return { inputs: null, error: `--mode 与文件内容不符：文件为 ${loaded.inputs.mode} 数据。` };
+    }
+    return loaded;
+  }
+
+  const resolvedMode = mode ?? AppMode.RAW_PNL;
+  const isSpreadsheet = ext === '.xlsx' || ext === '.xls';
+  const text = isSpreadsheet ? null : buffer.toString('utf8');
+  let sheet: XLSX.WorkSheet;
+  try {
+    const wb = isSpreadsheet ? XLSX.read(buffer, { type: 'buffer' }) : XLSX.read(text ?? '', { type: 'string', raw: true });
+    sheet = wb.Sheets[wb.SheetNames[0]];
+  } catch {
+    return { inputs: null, error: '文件读取失败，请确保是有效的 .xlsx 文件。' };
+  }
+
+  if (resolvedMode === AppMode.FREQUENCY) {
+    const frequencyData = frequencyRowsFromSheet(XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, blankrows: false }));
+    if (frequencyData.length === 0) {
+      return { inputs: null, error: '未能识别有效数据，请检查文件格式。\n建议格式：两列，第一列为次数，第二列为 R 值。' };
+    }
+    return { inputs: { ...emptyInputs(resolvedMode), frequencyData } };
+  }
+
+  if (resolvedMode === AppMode.TRADE_LOG) {
+    // Keep text as-is so parseTradeLog reports errors against the line numbers in the file
+    return { inputs: { ...emptyInputs(resolvedMode), tradeLogText: text ?? XLSX.utils.sheet_to_csv(sheet, { blankrows: false }) } };
+  }
+
+  if (text !== null) {
+    return { inputs: { ...emptyInputs(resolvedMode), rawPnlText: text } };
+  }
+  const numbers = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, blankrows: false })
+    .flat()
+    .map(v => parseStrictNumber(String(v)))
+    .filter((n): n is number => n !== null);
+  return { inputs: { ...emptyInputs(resolvedMode), rawPnlText: numbers.join('\n') } };
+};
+
+// --- Output ---
+
+// Account simulation without its bands and histograms
+const accountSummary = ({ charts, equityPercentiles, underwaterPercentiles, ...rest }: EquitySimulationResults) => rest;
+
+const summarize = (
+  inputs: SystemInputs,
+  results: SimulationResults,
+  optimalF: { config: OptimalFConfig; result: OptimalFAnalysisResult } | null,
+  full: boolean
+) => {
+  const { rDistribution, equityCurves, equityPercentiles, underwaterPercentiles, charts, simulations, equity, ...summary } = results;
+  return {
+    input: describeSystemInputs(inputs),
+    ...summary,
+    ...(full ? { equityCurves, equityPercentiles, underwaterPercentiles, charts } : {}),
+    ...(equity ? { equity: full ? equity : accountSummary(equity) } : {}),
+    ...(optimalF ? {
+      optimalF: {
+        config: { ...optimalF.config, seed: optimalF.result.seed },
+        bestRows: optimalF.result.bestRows,
+        ...(optimalF.result.analyticRows ? { analyticRows: optimalF.result.analyticRows, closedForm: optimalF.result.closedForm } : {}),
+        ...(full ? { chartData: optimalF.result.chartData } : {}),
+      }
+    } : {}),
+  };
+};
+
+const csvCell = (value: unknown): string => {
+  const text = String(value ?? '');
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// key,value rows with dotted paths, e.g. systemMetrics.sqn or optimalF.bestRows.0.optimalRisk
+const toCsv = (summary: object): string => {
+  const rows: string[] = ['key,value'];
+  const walk = (value: unknown, path: string) => {
+    if (value !== null && typeof value === 'object') {
+      Object.entries(value).forEach(([key, child]) => walk(child, path ? `${path}.${key}` : key));
+    } else {
+      rows.push(`${csvCell(path)},${csvCell(value)}`);
+    }
+  };
+  walk(summary, '');
+  return rows.join('\n') + '\n';
+};
+
+// --- Main ---
+
+const run = async (options: CliOptions): Promise<void> => {
+  const log = (message: string) => { if (!options.quiet) process.stderr.write(message); };
+  const progress = (label: string) => (percent: number) => log(`\r${label} ${percent}%`);
+
+  const { inputs: loadedInputs, workspace, error: inputError } = loadInput(options.input, options.mode);
+  if (!loadedInputs) throw new Error(inputError);
+  const inputs: SystemInputs = options.costConfig ? { ...loadedInputs, costConfig: options.costConfig } : loadedInputs;
+
+  // Project files supply their own settings; flags override them
+  const baseConfig = workspace?.simulationConfig ?? DEFAULT_SIMULATION_CONFIG;
+  const baseEquity = resolveEquitySimulationConfig(baseConfig);
+  const equityConfig = {
+    ...baseEquity,
+    startingEquity: options.startingEquity ?? baseEquity.startingEquity,
+    riskPercent: options.risk ?? baseEquity.riskPercent,
+    riskMode: options.accountModel ?? baseEquity.riskMode,
+    floorPercent: options.floor ?? baseEquity.floorPercent,
+  };
+  const equityError = validateEquitySimulationConfig(equityConfig);
+  if (equityError) throw new Error(equityError);
+  const simulationConfig: SimulationConfig = {
+    ...baseConfig,
+    totalSimulations: options.sims ?? baseConfig.totalSimulations,
+    tradesPerSimulation: options.trades ?? baseConfig.tradesPerSimulation,
+    seed: options.seed ?? baseConfig.seed,
+    resampleMode: options.resampleMode ?? baseConfig.resampleMode,
+    blockLength: options.blockLength ?? baseConfig.blockLength,
+    retainSimulations: Boolean(options.perSim),
+    equity: equityConfig,
+  };
+  const sqnConfig: SqnConfig = { ...(workspace?.sqnConfig ?? DEFAULT_SQN_CONFIG), ...(options.sqnCap !== undefined ? { cap: options.sqnCap } : {}) };
+
+  const { system, error } = prepareSystem(inputs, sqnConfig, simulationConfig.resampleMode);
+  if (!system) throw new Error(error);
+
+  const results = runMonteCarloSimulation(system.pool, system.systemMetrics, simulationConfig, { onProgress: progress('蒙特卡洛 (Monte Carlo)') });
+  log('\n');
+
+  let optimalF: { config: OptimalFConfig; result: OptimalFAnalysisResult } | null = null;
+  if (options.optimalF) {
+    const baseF = workspace?.optimalFConfig ?? DEFAULT_OPTIMAL_F_CONFIG;
+    const baseSweep = resolveRiskSweep(baseF);
+    const sweep: RiskSweepConfig = {
+      start: options.sweepStart ?? baseSweep.start,
+      end: options.sweepEnd ?? baseSweep.end,
+      step: options.sweepStep ?? baseSweep.step,
+      mode: options.adaptive ? SweepMode.ADAPTIVE : baseSweep.mode,
+    };
+    const sweepError = validateRiskSweep(sweep);
+    if (sweepError) throw new Error(sweepError);
+    const config: OptimalFConfig = {
+      ...baseF,
+      totalSims: options.sims ?? baseF.totalSims,
+      tradesPerSim: options.trades ?? baseF.tradesPerSim,
+      riskMode: options.riskMode ?? baseF.riskMode,
+      successThreshold: options.success ?? baseF.successThreshold,
+      failureThreshold: options.failure ?? baseF.failureThreshold,
+      sweep,
+      commonRandomNumbers: options.commonRandomNumbers || Boolean(baseF.commonRandomNumbers),
+      // Reuse the Monte Carlo seed so one --seed reproduces the whole report
+      seed: results.simulationConfig.seed,
+    };
+    const result = await runOptimalFAnalysis(system.pool, config, { onProgress: progress('最优 F (Optimal F)') });
+    optimalF = { config, result };
+    log('\n');
+  }
+
+  if (options.perSim && results.simulations) {
+    const { simulations } = results;
+    const isJson = extname(options.perSim).toLowerCase() === '.json';
+    writeFileSync(options.perSim, isJson ? simulationRecordsToJson(simulations, results) + '\n' : simulationRecordsToCsv(simulations));
+    if (simulations.retained < simulations.total) {
+      log(`注意 (Note): 仅保留前 ${simulations.retained} 次模拟 (first ${simulations.retained} of ${simulations.total} sims kept)\n`);
+    }
+    log(`已写入 (Written): ${options.perSim}\n`);
+  }
+
+  const summary = summarize(inputs, results, optimalF, options.full);
+  const text = options.format === 'csv' ? toCsv(summary) : JSON.stringify(summary, null, 2) + '\n';
+  if (options.output) {
+    writeFileSync(options.output, text);
+    log(`已写入 (Written): ${options.output}\n`);
+  } else {
+    process.stdout.write(text);
+  }
+};
+
+const main = async () => {
+  let options: CliOptions | null;
+  try {
+    options = parseCommandLine(process.argv.slice(2));
+  } catch (err) {
+    // Unknown options and bad flag values alike
+    process.stderr.write(`${err instanceof Error ? err.message : String(err)}\n\n${USAGE}`);
+    process.exitCode = 2;
+    return;
+  }
+  if (!options) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  try {
+    await run(options);
+  } catch (err) {
+    process.stderr.write(`错误 (Error): ${err instanceof Error ? err.message : String(err)}\n`);
+    process.exitCode = 1;
+  }
+};
+
+main();
@@ -0,0 +1,320 @@
+import React, { useState } from 'react';
+import { ComparisonResults, CostMethod, SimulationConfig, SimulationResults } from '../types';
+import { LineChart, Line, ComposedChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Label, Legend } from 'recharts';
+import { GitCompare, TrendingUp, BarChart2, Trophy, X, Play, Check } from 'lucide-react';
+import { COMPARISON_METRICS, MIN_COMPARED_SYSTEMS, MAX_COMPARED_SYSTEMS, findWinners, getAverageCurve, alignHistograms } from '../utils/comparison';
+import { RESAMPLE_MODE_LABELS } from '../utils/resampling';
+import { COST_METHOD_LABELS, describeCostConfig } from '../utils/tradeCosts';
+
+// One color per compared system, in selection order
+export const SYSTEM_COLORS = ['#4f46e5', '#f59e0b', '#10b981', '#ef4444'];
+
+const HISTOGRAM_OPTIONS: { key: keyof SimulationResults['charts']; label: string; xLabel: string }[] = [
+    { key: 'finalResult', label: '最终权益 (Final Equity)', xLabel: '权益 (Equity R)' },
+    { key: 'maxDrawdown', label: '最大回撤 (Max Drawdown)', xLabel: '回撤深度 (Drawdown R)' },
+    { key: 'maxProfit', label: '最高峰值 (Max Peak)', xLabel: '峰值 (Peak R)' },
+    { key: 'recoveryTime', label: '恢复时间 (Recovery)', xLabel: '谷底至新高的交易笔数 (Trades)' },
+    { key: 'consecLosses', label: '最大连败 (Consec. Losses)', xLabel: '连续亏损次数 (Streak Count)' },
+    { key: 'consecWins', label: '最大连胜 (Consec. Wins)', xLabel: '连续盈利次数 (Streak Count)' },
+];
+
+// --- Setup Dialog ---
+
+export interface ComparisonCandidate {
+    id: string;
+    name: string;
+    group: string;       // e.g. workspaces vs presets
+    description: string; // Short input summary, including the costs it runs with
+    note?: string;       // Caveat shown under the description
+}
+
+export const ComparisonSetupDialog: React.FC<{
+    candidates: ComparisonCandidate[];
+    simulationConfig: SimulationConfig;
+    onRun: (ids: string[]) => void;
+    onClose: () => void;
+}> = ({ candidates, simulationConfig, onRun, onClose }) => {
+    const [selected, setSelected] = useState<string[]>(candidates.length > 0 ? [candidates[0].id] : []);
+    const groups = Array.from(new Set(candidates.map(c => c.group)));
+
+    const toggle = (id: string) => {
+        if (selected.includes(id)) {
+            setSelected(selected.filter(s => s !== id));
+        } else if (selected.length < MAX_COMPARED_SYSTEMS) {
+            setSelected([...selected, id]);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 bg-gray-900/40 flex items-center justify-center p-4" onClick={onClose}>
+            <div className="bg-white rounded-xl shadow-xl w-full max-w-lg max-h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+                    <h2 className="text-base font-bold text-gray-800 flex items-center gap-2">
+                        <GitCompare size={18} className="text-indigo-600" />
+                        多系统对比 (Compare Systems)
+                    </h2>
+                    <button onClick={onClose} className="p-1 rounded text-gray-400 hover:text-gray-600 hover:bg-gray-100">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="px-6 py-4 overflow-y-auto flex-1 space-y-4">
+                    <p className="text-xs text-gray-500 leading-relaxed">
+                        选择 {MIN_COMPARED_SYSTEMS}–{MAX_COMPARED_SYSTEMS} 个系统，使用相同的模拟参数与随机种子运行 ({simulationConfig.totalSimulations.toLocaleString()} 次 × {simulationConfig.tradesPerSimulation} 笔，{RESAMPLE_MODE_LABELS[simulationConfig.resampleMode]})，各系统按自身的交易成本计算。
+                        <br />
+                        Pick {MIN_COMPARED_SYSTEMS}–{MAX_COMPARED_SYSTEMS} systems to run under the same config and seed, each net of its own trading costs.
+                    </p>
+                    {groups.map(group => (
+                        <div key={group}>
+                            <p className="text-xs font-semibold text-gray-500 uppercase mb-2">{group}</p>
+                            <div className="space-y-1">
+                                {candidates.filter(c => c.group === group).map(c => {
+                                    const order = selected.indexOf(c.id);
+                                    const isSelected = order >= 0;
+                                    const disabled = !isSelected && selected.length >= MAX_COMPARED_SYSTEMS;
+                                    return (
+                                        <button
+                                            key={c.id}
+                                            onClick={() => toggle(c.id)}
+                                            disabled={disabled}
+                                            className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg border text-left transition-colors ${isSelected ? 'border-indigo-300 bg-indigo-50' : 'border-gray-200 hover:bg-gray-50'} ${disabled ? 'opacity-40 cursor-not-allowed' : ''}`}
+                                        >
+                                            <span
+                                                className="w-5 h-5 rounded flex items-center justify-center flex-shrink-0 border"
+                                                style={isSelected ? { backgroundColor: SYSTEM_COLORS[order], borderColor: SYSTEM_COLORS[order] } : undefined}
+                                            >
+                                                {isSelected && <Check size={12} className="text-white" />}
+                                            </span>
+                                            <span className="flex-1 min-w-0">
+                                                <span className="block text-sm font-medium text-gray-800 truncate">{c.name}</span>
+                                                <span className="block text-[11px] text-gray-400 truncate">{c.description}</span>
+                                                {c.note && <span className="block text-[11px] text-amber-600">{c.note}</span>}
+                                            </span>
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="px-6 py-4 border-t border-gray-100 flex items-center justify-between">
+                    <span className="text-xs text-gray-500">已选 (Selected): {selected.length} / {MAX_COMPARED_SYSTEMS}</span>
+                    <button
+                        onClick={() => onRun(selected)}
+                        disabled={selected.length < MIN_COMPARED_SYSTEMS}
+                        className="flex items-center px-4 py-2 rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed"
+                    >
+                        <Play size={16} className="mr-1.5" /> 运行对比 (Run Comparison)
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// --- Comparison Dashboard ---
+
+const AverageEquityChart: React.FC<{ comparison: ComparisonResults }> = ({ comparison }) => {
+    const curves = comparison.systems.map(s => getAverageCurve(s.results));
+    const length = Math.max(...curves.map(c => c.length));
+    const data = Array.from({ length }, (_, i) => {
+        const point: Record<string, number> = { step: i };
+        curves.forEach((curve, s) => { point[`s${s}`] = curve[i]; });
+        return point;
+    });
+
+    return (
+        <div className="bg-white p-4 rounded-xl border border-gray-200 shadow-sm flex flex-col h-[360px]">
+            <h3 className="text-sm font-bold text-gray-700 mb-4 flex items-center gap-2">
+                <TrendingUp size={16} className="text-indigo-500" />
+                平均累积R曲线 (Average Cumulative R)
+            </h3>
+            <div className="flex-1 min-h-0">
+                <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={data} margin={{ top: 5, right: 20, left: 10, bottom: 20 }}>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e5e7eb" />
+                        <XAxis dataKey="step" tick={{ fontSize: 10, fill: '#6b7280' }} interval="preserveStartEnd">
+                            <Label value="交易笔数 (Trades)" offset={0} position="bottom" style={{ fontSize: 12, fill: '#9ca3af' }} />
+                        </XAxis>
+                        <YAxis tick={{ fontSize: 12, fill: '#6b7280' }}>
+                            <Label value="累积 R (Cumulative R)" angle={-90} position="insideLeft" style={{ fontSize: 12, fill: '#9ca3af' }} />
+                        </YAxis>
+                        <Tooltip
+                            formatter={(value: number, key: string) => [`${value.toFixed(2)}R`, comparison.systems[Number(key.slice(1))]?.name ?? key]}
+                            labelFormatter={(label) => `第 ${label} 笔 (Trade ${label})`}
+                            contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                        />
+                        <Legend verticalAlign="top" height={28} formatter={(key: string) => comparison.systems[Number(key.slice(1))]?.name ?? key} />
+                        {comparison.systems.map((_, s) => (
+                            <Line key={s} type="monotone" dataKey={`s${s}`} stroke={SYSTEM_COLORS[s]} strokeWidth={2} dot={false} isAnimationActive={false} />
+                        ))}
+                    </LineChart>
+                </ResponsiveContainer>
+            </div>
+        </div>
+    );
+};
+
+const OverlayHistogram: React.FC<{ comparison: ComparisonResults }> = ({ comparison }) => {
+    const [chartKey, setChartKey] = useState<typeof HISTOGRAM_OPTIONS[number]['key']>('finalResult');
+    const option = HISTOGRAM_OPTIONS.find(o => o.key === chartKey) ?? HISTOGRAM_OPTIONS[0];
+    const data = alignHistograms(comparison.systems.map(s => s.results.charts[chartKey] ?? []));
+
+    return (
+        <div className="bg-white p-4 rounded-xl border border-gray-200 shadow-sm flex flex-col h-[360px]">
+            <div className="flex items-center gap-2 mb-4">
+                <BarChart2 size={16} className="text-indigo-500" />
+                <h3 className="text-sm font-bold text-gray-700">分布叠加 (Distribution Overlay)</h3>
+                <select
+                    value={chartKey}
+                    onChange={e => setChartKey(e.target.value as typeof chartKey)}
+                    className="ml-auto rounded-md border-gray-200 text-xs py-1 pl-2 pr-6"
+                >
+                    {HISTOGRAM_OPTIONS.map(o => (
+                        <option key={o.key} value={o.key}>{o.label}</option>
+                    ))}
+                </select>
+            </div>
+            <div className="flex-1 min-h-0">
+                <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={data} margin={{ top: 5, right: 20, left: 10, bottom: 20 }}>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e5e7eb" />
+                        <XAxis dataKey="binLabel" tick={{ fontSize: 10, fill: '#6b7280' }} interval="preserveStartEnd">
+                            <Label value={option.xLabel} offset={0} position="bottom" style={{ fontSize: 12, fill: '#9ca3af' }} />
+                        </XAxis>
+                        <YAxis tick={{ fontSize: 12, fill: '#6b7280' }} tickFormatter={(v: number) => `${v}%`}>
+                            <Label value="占比 (% of Sims)" angle={-90} position="insideLeft" style={{ fontSize: 12, fill: '#9ca3af' }} />
+                        </YAxis>
+                        <Tooltip
+                            formatter={(value: number, key: string) => [`${value.toFixed(1)}%`, comparison.systems[Number(key.slice(1))]?.name ?? key]}
+                            labelFormatter={(label) => `区间: ${label}`}
+                            contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                        />
+                        <Legend verticalAlign="top" height={28} formatter={(key: string) => comparison.systems[Number(key.slice(1))]?.name ?? key} />
+                        {comparison.systems.map((_, s) => (
+                            <Area
+                                key={s}
+                                type="stepAfter"
+                                dataKey={`s${s}`}
+                                stroke={SYSTEM_COLORS[s]}
+                                fill={SYSTEM_COLORS[s]}
+                                fillOpacity={0.15}
+                                strokeWidth={1.5}
+                                isAnimationActive={false}
+                            />
+                        ))}
+                    </ComposedChart>
+                </ResponsiveContainer>
+            </div>
+        </div>
+    );
+};
+
+export const ComparisonView: React.FC<{ comparison: ComparisonResults; onClose: () => void }> = ({ comparison, onClose }) => {
+    const { systems, simulationConfig } = comparison;
+    const groups = Array.from(new Set(COMPARISON_METRICS.map(m => m.group)));
+
+    // Number of metrics each system wins, for the summary badges
+    const winCounts = systems.map(() => 0);
+    COMPARISON_METRICS.forEach(metric => {
+        findWinners(systems.map(s => metric.get(s.results)), metric.direction).forEach(i => { winCounts[i]++; });
+    });
+
+    return (
+        <div className="p-8 h-full overflow-y-auto space-y-8">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h2 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+                        <GitCompare size={20} className="text-indigo-600" />
+                        系统对比 (System Comparison)
+                    </h2>
+                    <p className="text-xs text-gray-500 mt-1">
+                        {simulationConfig.totalSimulations.toLocaleString()} 次模拟 × {simulationConfig.tradesPerSimulation} 笔 · {RESAMPLE_MODE_LABELS[simulationConfig.resampleMode]} · 种子 (Seed) <span className="font-mono">{simulationConfig.seed}</span>
+                    </p>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="flex items-center gap-1.5 px-3 py-2 bg-white border border-gray-200 rounded-lg shadow-sm text-sm font-medium text-gray-600 hover:text-indigo-600 hover:border-indigo-200 transition-colors"
+                >
+                    <X size={16} /> 关闭对比 (Close)
+                </button>
+            </div>
+
+            {/* System legend with win counts */}
+            <div className={`grid gap-4 grid-cols-2 ${systems.length === 3 ? 'lg:grid-cols-3' : systems.length === 4 ? 'lg:grid-cols-4' : ''}`}>
+                {systems.map((s, i) => (
+                    <div key={i} className="bg-white p-4 rounded-xl border border-gray-200 shadow-sm" style={{ borderTopColor: SYSTEM_COLORS[i], borderTopWidth: 4 }}>
+                        <p className="text-sm font-bold text-gray-800 truncate" title={s.name}>{s.name}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                            SQN <span className="font-mono font-semibold text-gray-700">{s.results.systemMetrics.sqn.toFixed(2)}</span>
+                            {' · '}E <span className="font-mono font-semibold text-gray-700">{s.results.systemMetrics.expectancy.toFixed(2)}R</span>
+                        </p>
+                        <p className="text-xs text-gray-500 mt-1 truncate">
+                            成本 (Costs) {s.results.systemMetrics.costs ? describeCostConfig(s.results.systemMetrics.costs.costConfig) : COST_METHOD_LABELS[CostMethod.NONE]}
+                        </p>
+                        <p className="text-xs text-gray-500 mt-1 flex items-center gap-1">
+                            <Trophy size={12} className="text-amber-500" /> 领先 {winCounts[i]} 项 (Wins {winCounts[i]})
+                        </p>
+                    </div>
+                ))}
+            </div>
+
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+                <AverageEquityChart comparison={comparison} />
+                <OverlayHistogram comparison={comparison} />
+            </div>
+
+            {/* Diff table */}
+            <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="bg-gray-50 border-b border-gray-200">
+                            <th className="text-left px-4 py-2 text-xs font-semibold text-gray-500 uppercase">指标 (Metric)</th>
+                            {systems.map((s, i) => (
+                                <th key={i} className="text-right px-4 py-2 text-xs font-semibold uppercase" style={{ color: SYSTEM_COLORS[i] }}>{s.name}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {groups.map(group => (
+                            <React.Fragment key={group}>
+                                <tr className="bg-gray-50/60">
+                                    <td colSpan={systems.length + 1} className="px-4 py-1.5 text-xs font-bold text-gray-600">{group}</td>
+                                </tr>
+                                {COMPARISON_METRICS.filter(m => m.group === group).map(metric => {
+                                    const values = systems.map(s => metric.get(s.results));
+                                    const winners = findWinners(values, metric.direction);
+                                    return (
+                                        <tr key={metric.key} className="border-t border-gray-100">
+                                            <td className="px-4 py-1.5 text-gray-600">
+                                                {metric.label}
+                                                {metric.direction !== 'none' && (
+                                                    <span className="ml-1 text-[10px] text-gray-400">{metric.direction === 'higher' ? '↑' : '↓'}</span>
+                                                )}
+                                            </td>
+                                            {values.map((v, i) => (
+                                                <td
+                                                    key={i}
+                                                    className={`px-4 py-1.5 text-right font-mono ${winners.includes(i) ? 'bg-emerald-50 text-emerald-700 font-semibold' : 'text-gray-700'}`}
+                                                >
+                                                    {Number.isFinite(v) ? metric.format(v) : '—'}
+                                                    {i > 0 && Number.isFinite(v) && Number.isFinite(values[0]) && v !== values[0] && (
+                                                        <span className="ml-1 text-[10px] text-gray-400">({v > values[0] ? '+' : ''}{metric.format(v - values[0])})</span>
+                                                    )}
+                                                </td>
+                                            ))}
+                                        </tr>
+                                    );
+                                })}
+                            </React.Fragment>
+                        ))}
+                    </tbody>
+                </table>
+                <p className="px-4 py-2 text-[11px] text-gray-400 border-t border-gray-100">
+                    绿色 = 该项最优；↑ 越高越好，↓ 越低越好；括号内为相对第一个系统的差值。(Green = best; ↑ higher is better, ↓ lower is better; brackets show the difference to the first system.)
+                </p>
+            </div>
+        </div>
+    );
+};
@@ -1,24 +1,35 @@
-import React, { useState, useEffect } from 'react';
-import { SimulationResults, ChartDataPoint, OptimalFConfig, RiskMode, OptimalFResultRow, OptimalFAnalysisResult, OptimalFChartPoint, EquityCurveData } from '../types';
-import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Label, ReferenceLine, Legend } from 'recharts';
-import { Camera, HelpCircle, AlertTriangle, Sparkles, BarChart2, Calculator, PieChart, ShieldAlert, Info, Scale, Target, TrendingUp, Play, Percent, Rocket, Users, Grid, Check, ArrowRight, RotateCcw, Edit2, Settings, Link2 } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { SimulationResults, ChartDataPoint, OptimalFConfig, RiskMode, SizingModelParams, RiskSweepConfig, SweepMode, OptimalFResultRow, OptimalFAnalysisResult, OptimalFChartPoint, EquityCurveData, PercentileCurves, ConfidenceLevel, ConfidenceInterval, CorrelationType, RiskAllocationState, AllocationResult } from '../types';
+import { BarChart, Bar, LineChart, Line, ComposedChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Label, ReferenceLine, Legend } from 'recharts';
+import { Camera, HelpCircle, AlertTriangle, Sparkles, BarChart2, Calculator, PieChart, ShieldAlert, Info, Scale, Target, TrendingUp, Play, Percent, Rocket, Users, Grid, Check, ArrowRight, RotateCcw, Edit2, Settings, Link2, X, FileText, FileSpreadsheet, Download } from 'lucide-react';
 import html2canvas from 'html2canvas';
-import { calculateOptimalF } from '../utils/calculations';
+import { describeRUnitConfig, CONFIDENCE_LEVELS } from '../utils/calculations';
+import { describeCostConfig } from '../utils/tradeCosts';
+import { SIZING_MODELS, resolveSizingParams, clampSizingSetting, createPositionSizer, sizeEquityPath } from '../utils/sizingModels';
+import { describeEquitySimulationConfig, resolveEquitySimulationConfig } from '../utils/equitySimulation';
+import { resolveRiskSweep, validateRiskSweep, estimateSweepPoints, MAX_SWEEP_POINTS, MAX_SWEEP_RISK, SWEEP_MODE_LABELS } from '../utils/riskSweep';
+import { normalizeSeed } from '../utils/random';
+import { RESAMPLE_MODE_LABELS, isSequenceMode } from '../utils/resampling';
+import { calculateHeatRecommendation, calculateRiskAllocations } from '../utils/positionSizing';
+import { downloadResultsWorkbook } from '../utils/resultsWorkbook';
+import { simulationRecordsToCsv, simulationRecordsToJson } from '../utils/simulationRecords';
+import { downloadTextFile } from '../utils/projectFile';
+import { runOptimalFInWorker, SimulationCancelledError, SimulationTask } from '../utils/simulationClient';
 
 interface DashboardProps {
     results: SimulationResults | null;
     isSidebarOpen?: boolean;
+    onRerunWithSeed?: (seed: number) => void;
+    optimalFConfig: OptimalFConfig;
+    setOptimalFConfig: (config: OptimalFConfig) => void;
+    optimalFResult: OptimalFAnalysisResult | null;
+    setOptimalFResult: (result: OptimalFAnalysisResult | null) => void;
+    riskAllocation: RiskAllocationState;
+    setRiskAllocation: (state: RiskAllocationState) => void;
+    onExportReport?: () => void;
 }
 
-// --- Enums for Risk Control ---
-enum CorrelationType {
-    STRONG = 'STRONG',               // 强相关 (0.9)
-    MEDIUM = 'MEDIUM',               // 中相关 (0.5)
-    WEAK = 'WEAK',                   // 弱相关 (0.1)
-    PARTIAL_HEDGE = 'PARTIAL_HEDGE', // 对冲 (-0.5)
-    STRONG_HEDGE = 'STRONG_HEDGE'    // 强力对冲 (-0.8)
-}
-
+// --- Risk Control Lookups ---
 const CORRELATION_LABELS: Record<CorrelationType, string> = {
     [CorrelationType.STRONG]: '强 (Strong)',
     [CorrelationType.MEDIUM]: '中 (Medium)',
@@ -35,15 +46,6 @@ const CORRELATION_COLORS: Record<CorrelationType, string> = {
     [CorrelationType.STRONG_HEDGE]: 'text-emerald-600 bg-emerald-50',
 };
 
-// Numeric mapping for heuristic algorithm
-const CORRELATION_VALUES: Record<CorrelationType, number> = {
-    [CorrelationType.STRONG]: 0.9,
-    [CorrelationType.MEDIUM]: 0.5,
-    [CorrelationType.WEAK]: 0.1,
-    [CorrelationType.PARTIAL_HEDGE]: -0.5, // Updated from -0.4
-    [CorrelationType.STRONG_HEDGE]: -0.8,
-};
-
 // --- Shared Components ---
 
 const MetricCard: React.FC<{
@@ -55,7 +57,8 @@ const MetricCard: React.FC<{
     valueClassName?: string;
     subValueClassName?: string;
     prefixIcon?: React.ReactNode;
-}> = ({ title, value, subValue, helpText, variant = 'default', valueClassName, subValueClassName, prefixIcon }) => {
+    footer?: React.ReactNode;
+}> = ({ title, value, subValue, helpText, variant = 'default', valueClassName, subValueClassName, prefixIcon, footer }) => {
     const isHighlighted = variant === 'highlighted';
 
     return (
@@ -108,6 +111,12 @@ const MetricCard: React.FC<{
                     </div>
                 )}
             </div>
+
+            {footer && (
+                <div className={`${isHighlighted ? 'mt-4 w-full' : 'mt-2'}`}>
+                    {footer}
+                </div>
+            )}
         </div>
     );
 };
@@ -138,7 +147,32 @@ const DualMetricCard: React.FC<{
     </div>
 );
 
-const StatTable: React.FC<{ stats: { avg: number; median: number; min: number; max: number; p5: number; p95: number }, title: string, color: string }> = ({ stats, title, color }) => (
+// Two-sided z-scores for the normal-approximation interval shown next to the bootstrap one
+const NORMAL_Z: Record<ConfidenceLevel, number> = { 90: 1.645, 95: 1.96, 99: 2.576 };
+
+const ConfidenceLevelToggle: React.FC<{ value: ConfidenceLevel; onChange: (level: ConfidenceLevel) => void }> = ({ value, onChange }) => (
+    <div className="inline-flex bg-white rounded border border-gray-200 p-0.5">
+        {CONFIDENCE_LEVELS.map(level => (
+            <button
+                key={level}
+                onClick={() => onChange(level)}
+                className={`px-1.5 py-0.5 text-[10px] font-semibold rounded transition-colors ${value === level ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:text-indigo-600'}`}
+            >
+                {level}%
+            </button>
+        ))}
+    </div>
+);
+
+const IntervalRow: React.FC<{ label: string; interval: ConfidenceInterval; format: (v: number) => string; title?: string }> = ({ label, interval, format, title }) => (
+    <div className="flex justify-between items-center text-xs" title={title}>
+        <span className="text-gray-500 font-medium">{label}</span>
+        <span className="flex-1 border-b border-gray-200 border-dashed mx-3 opacity-50"></span>
+        <span className="font-mono font-semibold text-gray-700">{format(interval.lower)} ~ {format(interval.upper)}</span>
+    </div>
+);
+
+export const StatTable: React.FC<{ stats: { avg: number; median: number; min: number; max: number; p5: number; p95: number }, title: string, color: string }> = ({ stats, title, color }) => (
     <div className="bg-white rounded-lg border border-gray-200 overflow-hidden text-sm">
         <div className="bg-gray-50 px-4 py-2 border-b border-gray-200 font-semibold text-gray-700 flex justify-between items-center">
             <span>{title}</span>
@@ -174,7 +208,8 @@ const StatTable: React.FC<{ stats: { avg: number; median: number; min: number; m
     </div>
 );
 
-const HistogramChart: React.FC<{ data: ChartDataPoint[]; title: string; color: string; xLabel: string }> = ({ data, title, color, xLabel }) => (
+// animate = false for static renders (printed report), where the bars must be complete immediately
+export const HistogramChart: React.FC<{ data: ChartDataPoint[]; title: string; color: string; xLabel: string; animate?: boolean }> = ({ data, title, color, xLabel, animate = true }) => (
     <div className="bg-white p-4 rounded-xl border border-gray-200 shadow-sm flex flex-col h-[320px]">
         <h3 className="text-sm font-bold text-gray-700 mb-4">{title} <span className="font-normal text-gray-500">(频数分布 / Frequency)</span></h3>
         <div className="flex-1 w-full min-h-0">
@@ -203,6 +238,7 @@ const HistogramChart: React.FC<{ data: ChartDataPoint[]; title: string; color: s
                         dataKey="frequency"
                         fill={color}
                         radius={[2, 2, 0, 0]}
+                        isAnimationActive={animate}
                     />
                 </BarChart>
             </ResponsiveContainer>
@@ -210,13 +246,34 @@ const HistogramChart: React.FC<{ data: ChartDataPoint[]; title: string; color: s
     </div>
 );
 
-const EquityCurvesChart: React.FC<{ curves: EquityCurveData[] }> = ({ curves }) => {
+const FAN_BAND_COLOR = '#6366f1';
+
+// Account amounts: whole currency units with thousands separators
+export const formatMoney = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 0 });
+
+const BAND_LABELS: Record<string, string> = {
+    band90: '5% ~ 95% 分位 (P5-P95)',
+    band50: '25% ~ 75% 分位 (P25-P75)',
+    p50: '中位数 (Median)',
+};
+
+// unit '%': the curves are equity changes in % (representative paths re-run through a sizing model)
+// unit '$': account equity in currency (account simulation); baseline marks the starting equity
+export const EquityCurvesChart: React.FC<{ curves: EquityCurveData[]; percentiles?: PercentileCurves; unit?: 'R' | '%' | '$'; baseline?: number }> = ({ curves, percentiles, unit = 'R', baseline = 0 }) => {
+    const [showOverlays, setShowOverlays] = useState(!percentiles);
+
     // Transform data for Recharts: array of { step: 0, "Curve Name": 0, ... }
-    const length = curves[0]?.data.length || 0;
+    // Bands are stored as [low, high] pairs, which Recharts renders as ranged areas.
+    const length = percentiles?.p50.length || curves[0]?.data.length || 0;
     const data = [];
 
     for (let i = 0; i < length; i++) {
         const point: any = { step: i };
+        if (percentiles) {
+            point.band90 = [percentiles.p5[i], percentiles.p95[i]];
+            point.band50 = [percentiles.p25[i], percentiles.p75[i]];
+            point.p50 = percentiles.p50[i];
+        }
         curves.forEach(curve => {
             point[curve.name] = curve.data[i];
         });
@@ -225,19 +282,33 @@ const EquityCurvesChart: React.FC<{ curves: EquityCurveData[] }> = ({ curves })
 
     // Sort curves to ensure layering (Average on top usually looks best)
     const sortedCurves = [...curves].sort((a, b) => (a.zIndex || 0) - (b.zIndex || 0));
+    const overlaysVisible = showOverlays || !percentiles;
 
     return (
         <div className="bg-white p-4 rounded-xl border border-gray-200 shadow-sm flex flex-col h-[400px] w-full">
             <h3 className="text-sm font-bold text-gray-700 mb-4 flex items-center gap-2">
                 <TrendingUp size={16} className="text-indigo-500" />
-                典型累积R曲线 (Representative Cumulative R Curves)
-                <span className="font-normal text-gray-500 text-xs ml-auto">
-                    包含: 收益最值 / 回撤最值 / 持续期最值 / 平均值 (Includes: Best/Worst, Max/Min Drawdown, Duration, Avg)
-                </span>
+                {unit === '$' ? '账户权益分位扇形图 (Account Equity Fan Chart)' : percentiles ? '累积R分位扇形图 (Cumulative R Fan Chart)' : unit === '%' ? '仓位模型权益曲线 (Sized Equity Curves)' : '典型累积R曲线 (Representative Cumulative R Curves)'}
+                {percentiles && curves.length > 0 && (
+                    <label className="ml-auto flex items-center gap-1.5 font-normal text-xs text-gray-500 cursor-pointer select-none">
+                        <input
+                            type="checkbox"
+                            checked={showOverlays}
+                            onChange={(e) => setShowOverlays(e.target.checked)}
+                            className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        叠加典型路径 (Overlay Best/Worst, DD, Duration, Avg)
+                    </label>
+                )}
+                {!percentiles && (
+                    <span className="font-normal text-gray-500 text-xs ml-auto">
+                        包含: 收益最值 / 回撤最值 / 持续期最值 / 平均值 (Includes: Best/Worst, Max/Min Drawdown, Duration, Avg)
+                    </span>
+                )}
             </h3>
             <div className="flex-1 w-full min-h-0">
                 <ResponsiveContainer width="100%" height="100%">
-                    <LineChart data={data} margin={{ top: 10, right: 30, left: 10, bottom: 20 }}>
+                    <ComposedChart data={data} margin={{ top: 10, right: 30, left: 10, bottom: 20 }}>
                         <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e5e7eb" />
                         <XAxis
                             dataKey="step"
@@ -253,7 +324,7 @@ const EquityCurvesChart: React.FC<{ curves: EquityCurveData[] }> = ({ curves })
                             domain={['auto', 'auto']}
                         >
                             <Label
-                                value="累积R (Cumulative R)"
+                                value={unit === '$' ? '账户权益 (Account Equity)' : unit === '%' ? '权益变化 % (Equity Change %)' : '累积R (Cumulative R)'}
                                 angle={-90}
                                 position="insideLeft"
                                 style={{ textAnchor: 'middle', fontSize: 12, fill: '#9ca3af' }}
@@ -263,13 +334,55 @@ const EquityCurvesChart: React.FC<{ curves: EquityCurveData[] }> = ({ curves })
                         <Tooltip
                             contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', fontSize: '12px' }}
                             labelFormatter={(v) => `交易 #${v}`}
-                            formatter={(val: number, name: string) => [val.toFixed(2) + ' R', name]}
-                            itemSorter={(item) => -(item.value as number)} // Sort tooltip descending by value
+                            formatter={(val: number | number[], name: string) => {
+                                const label = BAND_LABELS[name] || name;
+                                const format = (v: number) => unit === '$' ? formatMoney(v) : v.toFixed(2) + (unit === '%' ? '%' : ' R');
+                                if (Array.isArray(val)) return [`${format(val[0])} ~ ${format(val[1])}`, label];
+                                return [format(val), label];
+                            }}
+                            itemSorter={(item) => {
+                                const v = item.value as number | number[];
+                                return -(Array.isArray(v) ? v[1] : v); // Sort tooltip descending by value
+                            }}
+                        />
+                        <Legend
+                            wrapperStyle={{ fontSize: '10px', paddingTop: '10px' }}
+                            formatter={(name: string) => BAND_LABELS[name] || name}
                         />
-                        <Legend wrapperStyle={{ fontSize: '10px', paddingTop: '10px' }} />
-                        <ReferenceLine y={0} stroke="#000" strokeOpacity={0.2} />
+                        <ReferenceLine y={baseline} stroke="#000" strokeOpacity={0.2} />
+
+                        {percentiles && (
+                            <Area
+                                type="monotone"
+                                dataKey="band90"
+                                stroke="none"
+                                fill={FAN_BAND_COLOR}
+                                fillOpacity={0.12}
+                                isAnimationActive={false}
+                            />
+                        )}
+                        {percentiles && (
+                            <Area
+                                type="monotone"
+                                dataKey="band50"
+                                stroke="none"
+                                fill={FAN_BAND_COLOR}
+                                fillOpacity={0.28}
+                                isAnimationActive={false}
+                            />
+                        )}
+                        {percentiles && (
+                            <Line
+                                type="monotone"
+                                dataKey="p50"
+                                stroke={FAN_BAND_COLOR}
+                                strokeWidth={2}
+                                dot={false}
+                                isAnimationActive={false}
+                            />
+                        )}
 
-                        {sortedCurves.map((curve) => (
+                        {overlaysVisible && sortedCurves.map((curve) => (
                             <Line
                                 key={curve.name}
                                 type="monotone"
@@ -282,7 +395,70 @@ const EquityCurvesChart: React.FC<{ curves: EquityCurveData[] }> = ({ curves })
                                 isAnimationActive={false} // Disable animation for performance with many points
                             />
                         ))}
-                    </LineChart>
+                    </ComposedChart>
+                </ResponsiveContainer>
+            </div>
+        </div>
+    );
+};
+
+const UNDERWATER_COLOR = '#ef4444';
+
+// unit '%': drawdown as % of the running peak (account simulation)
+export const UnderwaterChart: React.FC<{ percentiles: PercentileCurves; unit?: 'R' | '%' }> = ({ percentiles, unit = 'R' }) => {
+    const data = percentiles.p50.map((_, i) => ({
+        step: i,
+        band90: [percentiles.p5[i], percentiles.p95[i]],
+        band50: [percentiles.p25[i], percentiles.p75[i]],
+        p50: percentiles.p50[i],
+    }));
+
+    return (
+        <div className="bg-white p-4 rounded-xl border border-gray-200 shadow-sm flex flex-col h-[320px] w-full">
+            <h3 className="text-sm font-bold text-gray-700 mb-4">
+                水下曲线 (Underwater Curve)
+                <span className="font-normal text-gray-500 text-xs ml-2">距前高的回撤分位 (Distance below running peak, percentiles)</span>
+            </h3>
+            <div className="flex-1 w-full min-h-0">
+                <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={data} margin={{ top: 10, right: 30, left: 10, bottom: 20 }}>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e5e7eb" />
+                        <XAxis
+                            dataKey="step"
+                            tick={{ fontSize: 10, fill: '#6b7280' }}
+                            interval="preserveStartEnd"
+                            type="number"
+                            domain={[0, 'dataMax']}
+                        >
+                            <Label value="交易笔数 (Trade Count)" offset={0} position="bottom" style={{ fontSize: 12, fill: '#9ca3af' }} />
+                        </XAxis>
+                        <YAxis tick={{ fontSize: 10, fill: '#6b7280' }} domain={['auto', 0]}>
+                            <Label
+                                value={unit === '%' ? '回撤 (Drawdown %)' : '回撤 (Drawdown R)'}
+                                angle={-90}
+                                position="insideLeft"
+                                style={{ textAnchor: 'middle', fontSize: 12, fill: '#9ca3af' }}
+                                offset={10}
+                            />
+                        </YAxis>
+                        <Tooltip
+                            contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', fontSize: '12px' }}
+                            labelFormatter={(v) => `交易 #${v}`}
+                            formatter={(val: number | number[], name: string) => {
+                                const label = BAND_LABELS[name] || name;
+                                const suffix = unit === '%' ? '%' : ' R';
+                                if (Array.isArray(val)) return [`${val[0].toFixed(2)} ~ ${val[1].toFixed(2)}${suffix}`, label];
+                                return [val.toFixed(2) + suffix, label];
+                            }}
+                        />
+                        <Legend
+                            wrapperStyle={{ fontSize: '10px', paddingTop: '10px' }}
+                            formatter={(name: string) => BAND_LABELS[name] || name}
+                        />
+                        <Area type="stepAfter" dataKey="band90" stroke="none" fill={UNDERWATER_COLOR} fillOpacity={0.12} isAnimationActive={false} />
+                        <Area type="stepAfter" dataKey="band50" stroke="none" fill={UNDERWATER_COLOR} fillOpacity={0.28} isAnimationActive={false} />
+                        <Line type="stepAfter" dataKey="p50" stroke={UNDERWATER_COLOR} strokeWidth={2} dot={false} isAnimationActive={false} />
+                    </ComposedChart>
                 </ResponsiveContainer>
             </div>
         </div>
@@ -354,22 +530,14 @@ const SmartNumberInput = ({
 
 // --- Risk Allocation (Pruning) Widget ---
 
-interface AllocationResult {
-    name: string;
-    initialRisk: number;
-    finalRisk: number;
-    constraint: string; // 'Single Cap', 'Risk Pruning', 'Global Scale'
-}
-
-const RiskAllocationWidget: React.FC<{ totalHeat: number }> = ({ totalHeat }) => {
-    const [step, setStep] = useState<1 | 2 | 3>(1);
-    const [assetCount, setAssetCount] = useState<number>(3);
-    const [assetNames, setAssetNames] = useState<string[]>([]);
-    const [correlationMatrix, setCorrelationMatrix] = useState<CorrelationType[][]>([]);
-
-    // Config States
-    const [maxSingleRisk, setMaxSingleRisk] = useState<number>(2.0);
-    const [allowOverAllocation, setAllowOverAllocation] = useState<boolean>(false);
+const RiskAllocationWidget: React.FC<{
+    totalHeat: number;
+    state: RiskAllocationState;
+    onChange: (state: RiskAllocationState) => void;
+}> = ({ totalHeat, state, onChange }) => {
+    // Setup, matrix and config are owned by the workspace so they survive reloads
+    const { step, assetCount, assetNames, correlationMatrix, maxSingleRisk, allowOverAllocation } = state;
+    const update = (patch: Partial<RiskAllocationState>) => onChange({ ...state, ...patch });
 
     // Result State
     const [allocationResults, setAllocationResults] = useState<AllocationResult[]>([]);
@@ -387,7 +555,7 @@ const RiskAllocationWidget: React.FC<{ totalHeat: number }> = ({ totalHeat }) =>
                 suggested = totalHeat; // 单品种就是总风险
             }
             const clamped = Math.max(0.1, Math.min(totalHeat, suggested));
-            setMaxSingleRisk(Number(clamped.toFixed(2)));
+            update({ maxSingleRisk: Number(clamped.toFixed(2)) });
         }
     }, [totalHeat, assetCount, step]);
 
@@ -406,178 +574,40 @@ const RiskAllocationWidget: React.FC<{ totalHeat: number }> = ({ totalHeat }) =>
             matrix.push(row);
         }
 
-        setAssetCount(n);
-        setAssetNames(names);
-        setCorrelationMatrix(matrix);
-        setStep(2);
+        update({ assetCount: n, assetNames: names, correlationMatrix: matrix, step: 2 });
     };
 
     // Step 2 actions
     const handleNameChange = (idx: number, newName: string) => {
         const newNames = [...assetNames];
         newNames[idx] = newName;
-        setAssetNames(newNames);
+        update({ assetNames: newNames });
     };
 
     const handleCorrelationChange = (rowIdx: number, colIdx: number, val: CorrelationType) => {
         const newMatrix = correlationMatrix.map(row => [...row]);
         newMatrix[rowIdx][colIdx] = val;
         newMatrix[colIdx][rowIdx] = val;
-        setCorrelationMatrix(newMatrix);
+        update({ correlationMatrix: newMatrix });
     };
 
-    // --- Core Algorithm: Risk Contribution Pruning (Hedge Optimized) ---
+    // Step 3: Risk contribution pruning (see utils/positionSizing)
     const calculateAllocations = () => {
-        const n = assetCount;
-        // const K1 = totalHeat; // 目标风险限额 (也是名义总和限额)
-        // 检查是否存在对冲项
-        const hasHedge = correlationMatrix.some(row =>
-            row.some(val => val === CorrelationType.PARTIAL_HEDGE || val === CorrelationType.STRONG_HEDGE)
-        );
-
-        // 如果允许对冲溢出且存在对冲项，则 K1 为 1.25 倍
-        const K1 = (allowOverAllocation && hasHedge) ? totalHeat * 1.25 : totalHeat;
-        const K2 = maxSingleRisk; // 单笔上限
-
-        // 0. 预处理相关性矩阵
-        const floatMatrix: number[][] = [];
-        for (let i = 0; i < n; i++) {
-            const row: number[] = [];
-            for (let j = 0; j < n; j++) {
-                if (i === j) {
-                    row.push(1.0);
-                } else {
-                    row.push(CORRELATION_VALUES[correlationMatrix[i][j]]);
-                }
-            }
-            floatMatrix.push(row);
-        }
-
-        // 1. 初始化权重 (满仓开局)
-        let weights = new Array(n).fill(K2);
-
-        // 2. 迭代剪枝 (关键优化点)
-        const MAX_ITER = 200;
-        const LR = 0.1; // 学习率
-
-        for (let iter = 0; iter < MAX_ITER; iter++) {
-            // A. 计算当前状态：组合方差 & 名义总和
-            let variance = 0;
-            let currentSum = 0;
-            const MRC = new Array(n).fill(0); // 边际风险贡献
-
-            for (let i = 0; i < n; i++) {
-                currentSum += weights[i]; // 累加名义总和
-
-                let rowCovSum = 0;
-                for (let j = 0; j < n; j++) {
-                    rowCovSum += weights[j] * floatMatrix[i][j];
-                }
-                MRC[i] = rowCovSum; // 暂存中间值 (Sigma * w)
-                variance += weights[i] * rowCovSum;
-            }
-
-            const currentRisk = Math.sqrt(Math.max(0, variance));
-
-            // B. 双重检查 (核心修改)
-            // 只有当 [组合风险] 和 [名义总和] 同时都不超标时，才算结束。
-            // 之前的问题是 Risk 达标了就停了，导致 Sum 只能线性压缩。
-            const riskOverload = currentRisk / K1;
-            const sumOverload = currentSum / K1;
-            const maxOverload = Math.max(riskOverload, sumOverload);
-
-            if (maxOverload <= 1.0001) {
-                break; // 完美达标
-            }
-
-            // C. 确定剪枝力度
-            // 我们需要确定每个资产的“罪恶度”。即使是 Sum 超标，我们也要优先剪 Risk 大的。
-            // 这样才能在 Sum 降下来的同时，把宝贵的额度留给对冲资产。
-
-            let totalPositiveMRC = 0;
-            // 计算由于方差引起的总正向贡献
-            const positiveRiskContribs = weights.map((w, i) => {
-                const contribution = w * MRC[i];
-                if (contribution > 0) totalPositiveMRC += contribution;
-                return Math.max(0, contribution);
-            });
-
-            // D. 执行剪枝
-            let maxChange = 0;
-            for (let i = 0; i < n; i++) {
-                // 如果是完美的对冲资产（MRC < 0），它实际上在降低组合风险。
-                // 我们应该极力保护它，除非它的单笔太大了，或者单纯为了压 Sum。
-                // 这里的逻辑是：主要基于风险贡献比来剪。
-
-                let pruneRatio = 0;
-
-                // 情况1：组合风险太高 -> 按风险贡献比例剪
-                if (riskOverload > 1.0 && totalPositiveMRC > 0) {
-                    const contributionRatio = positiveRiskContribs[i] / totalPositiveMRC;
-                    // 动态力度：超标越多，剪得越狠
-                    pruneRatio = Math.max(pruneRatio, contributionRatio * (riskOverload - 1.0));
-                }
-
-                // 情况2：名义总和太高 (即便风险不高) -> 依然按风险贡献偏好剪，但也加一点均匀压力
-                // 这样 B 会因为风险贡献大被剪更多，A/C 虽也受压但保留更多。
-                if (sumOverload > 1.0) {
-                    // 基础均匀压力 (保证能压下来)
-                    let basePressure = (sumOverload - 1.0) * 0.1;
-
-                    // 风险加权压力 (谁波动大谁多担待)
-                    let riskPressure = 0;
-                    if (totalPositiveMRC > 0) {
-                        riskPressure = (positiveRiskContribs[i] / totalPositiveMRC) * (sumOverload - 1.0);
-                    }
-
-                    // 混合策略：既看总和，也看风险
-                    pruneRatio = Math.max(pruneRatio, basePressure + riskPressure);
-                }
-
-                // 应用惩罚
-                // 限制单次最大跌幅，防止震荡
-                const safePrune = Math.min(0.2, pruneRatio * LR * 5.0);
-
-                const oldW = weights[i];
-                weights[i] = weights[i] * (1.0 - safePrune);
-                maxChange = Math.max(maxChange, Math.abs(oldW - weights[i]));
-            }
-
-            if (maxChange < 0.00001) break;
-        }
-
-        // 3. 最后的保险栓 (Final Safety Net)
-        // 这一步只处理数学误差，如果前面逻辑正确，这里几乎不会触发大的调整
-        let finalSum = weights.reduce((a, b) => a + b, 0);
-        if (finalSum > K1) {
-            const scale = (K1 / finalSum) * 0.999;
-            weights = weights.map(w => w * scale);
-        }
-
-        const finalResults: AllocationResult[] = assetNames.map((name, i) => {
-            let constraint = 'None';
-            if (weights[i] < 0.01) constraint = 'Risk Pruning';
-            else if (Math.abs(weights[i] - K2) < 0.05) constraint = 'Single Cap';
-            else if (weights[i] < K2) constraint = 'Risk Alloc.';
-
-            return {
-                name,
-                initialRisk: K2,
-                finalRisk: Math.max(0, weights[i]),
-                constraint
-            };
-        });
-
-        setAllocationResults(finalResults);
-        setStep(3);
+        setAllocationResults(calculateRiskAllocations(totalHeat, state));
+        update({ step: 3 });
     };
 
+    // A restored workspace may open on the results step; rebuild them from the saved matrix
+    useEffect(() => {
+        if (step === 3 && allocationResults.length === 0) calculateAllocations();
+    }, []);
+
     const handleReset = () => {
-        setStep(1);
+        update({ step: 1 });
     };
 
     const handleEditConfig = () => {
-        setStep(2);
+        update({ step: 2 });
     };
 
     return (
@@ -615,14 +645,14 @@ const RiskAllocationWidget: React.FC<{ totalHeat: number }> = ({ totalHeat }) =>
 
                         <div className="flex items-center gap-2 w-full max-w-[200px]">
                             <button
-                                onClick={() => setAssetCount(Math.max(2, assetCount - 1))}
+                                onClick={() => update({ assetCount: Math.max(2, assetCount - 1) })}
                                 className="w-8 h-8 flex items-center justify-center rounded bg-gray-100 hover:bg-gray-200 text-gray-600 font-bold"
                             >-</button>
                             <div className="flex-1 text-center font-mono text-xl font-bold text-gray-800 border-b-2 border-indigo-100 pb-1">
                                 {assetCount}
                             </div>
                             <button
-                                onClick={() => setAssetCount(Math.min(10, assetCount + 1))}
+                                onClick={() => update({ assetCount: Math.min(10, assetCount + 1) })}
                                 className="w-8 h-8 flex items-center justify-center rounded bg-gray-100 hover:bg-gray-200 text-gray-600 font-bold"
                             >+</button>
                         </div>
@@ -649,7 +679,7 @@ const RiskAllocationWidget: React.FC<{ totalHeat: number }> = ({ totalHeat }) =>
                                     <input
                                         type="number"
                                         value={maxSingleRisk}
-                                        onChange={(e) => setMaxSingleRisk(parseFloat(e.target.value))}
+                                        onChange={(e) => update({ maxSingleRisk: parseFloat(e.target.value) })}
                                         className="w-16 h-6 text-right text-xs border border-gray-300 rounded px-1"
                                         step={0.1}
                                     />
@@ -663,7 +693,7 @@ const RiskAllocationWidget: React.FC<{ totalHeat: number }> = ({ totalHeat }) =>
                                         <input
                                             type="checkbox"
                                             checked={allowOverAllocation}
-                                            onChange={(e) => setAllowOverAllocation(e.target.checked)}
+                                            onChange={(e) => update({ allowOverAllocation: e.target.checked })}
                                             className="sr-only peer"
                                         />
                                         <div className="w-9 h-5 bg-gray-300 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-indigo-600"></div>
@@ -809,18 +839,28 @@ const RiskAllocationWidget: React.FC<{ totalHeat: number }> = ({ totalHeat }) =>
 
 // --- Optimal Position Sizing Widget ---
 
-const OptimalPositionSizingWidget: React.FC<{ rDistribution: number[] }> = ({ rDistribution }) => {
-    const [config, setConfig] = useState<OptimalFConfig>({
-        successThreshold: 100,
-        failureThreshold: -25,
-        tradesPerSim: 100,
-        totalSims: 10000,
-        riskMode: RiskMode.FIXED_FRACTIONAL
-    });
+// A vertical marker on the optimal f charts
+interface RiskReference {
+    label: string;
+    risk: number;
+    color: string;
+    dash?: string;
+}
+
+const OptimalPositionSizingWidget: React.FC<{
+    rDistribution: number[];
+    config: OptimalFConfig;
+    setConfig: (config: OptimalFConfig) => void;
+    result: OptimalFAnalysisResult | null;
+    setResult: (result: OptimalFAnalysisResult | null) => void;
+}> = ({ rDistribution, config, setConfig, result: resultData, setResult: setResultData }) => {
 
     const [isCalculating, setIsCalculating] = useState(false);
     const [progress, setProgress] = useState(0);
-    const [resultData, setResultData] = useState<OptimalFAnalysisResult | null>(null);
+    const taskRef = useRef<SimulationTask<OptimalFAnalysisResult> | null>(null);
+
+    // Discard a running analysis when the widget unmounts (e.g. switching tabs)
+    useEffect(() => () => taskRef.current?.cancel(), []);
 
     // Toast Notification State
     const [toast, setToast] = useState<{ msg: string; type: 'info' | 'error' } | null>(null);
@@ -877,6 +917,17 @@ const OptimalPositionSizingWidget: React.FC<{ rDistribution: number[] }> = ({ rD
             reasons.push("轮数≤10w");
         }
 
+        const sweep = resolveRiskSweep(corrected);
+        if (sweep.end > MAX_SWEEP_RISK) {
+            corrected.sweep = { ...sweep, end: MAX_SWEEP_RISK };
+            hasChanges = true;
+            reasons.push(`终点≤${MAX_SWEEP_RISK}%`);
+        } else if (sweep.end < sweep.start) {
+            corrected.sweep = { ...sweep, start: sweep.end, end: sweep.start };
+            hasChanges = true;
+            reasons.push("起点≤终点");
+        }
+
         return { corrected, hasChanges, reasons };
     };
 
@@ -896,33 +947,57 @@ const OptimalPositionSizingWidget: React.FC<{ rDistribution: number[] }> = ({ rD
             setToast({ msg: `参数已自动修正: ${reasons.join(', ')}`, type: 'info' });
             // Proceed with corrected values
         }
+        // Too many risk levels cannot be corrected automatically
+        const sweepError = validateRiskSweep(resolveRiskSweep(corrected));
+        if (sweepError) {
+            setToast({ msg: sweepError, type: 'error' });
+            return;
+        }
 
+        taskRef.current?.cancel();
         setIsCalculating(true);
         setProgress(0);
         setResultData(null);
 
-        // Use setTimeout to allow UI update
-        setTimeout(async () => {
-            const generator = calculateOptimalF(rDistribution, corrected); // Use corrected directly
-            let done = false;
-            let finalRes: any = null;
-
-            while (!done) {
-                const next = await generator.next();
-                if (next.done) {
-                    done = true;
-                    finalRes = next.value;
-                } else {
-                    setProgress(next.value as number);
-                    // Yield to main thread to render progress bar
-                    await new Promise(resolve => setTimeout(resolve, 0));
-                }
+        // Runs in the simulation worker so the UI stays responsive
+        const task = runOptimalFInWorker(rDistribution, corrected, setProgress); // Use corrected directly
+        taskRef.current = task;
+
+        try {
+            setResultData(await task.promise);
+        } catch (err) {
+            if (!(err instanceof SimulationCancelledError)) {
+                console.error("Optimal F analysis failed:", err);
+                setToast({ msg: '分析失败，请重试', type: 'error' });
+            }
+        } finally {
+            if (taskRef.current === task) {
+                taskRef.current = null;
+                setIsCalculating(false);
             }
-            setResultData(finalRes as OptimalFAnalysisResult);
-            setIsCalculating(false);
-        }, 50);
+        }
+    };
+
+    const cancelAnalysis = () => {
+        taskRef.current?.cancel();
     };
 
+    // Model settings, and what the swept percentage means for the model the results were run with
+    const sizingParams = resolveSizingParams(config);
+    const sweep = resolveRiskSweep(config);
+    const setSweep = (patch: Partial<RiskSweepConfig>) => setConfig({ ...config, sweep: { ...sweep, ...patch } });
+    const setSizingParams = (patch: Partial<SizingModelParams>) => setConfig({ ...config, sizingParams: { ...sizingParams, ...patch } });
+    const sizeLabel = SIZING_MODELS[resultData?.riskMode ?? config.riskMode].sizeLabel;
+
+    // Closed-form optima drawn on the charts; levels outside the swept range are not drawn
+    const closedForm = resultData?.closedForm;
+    const riskReferences: RiskReference[] = closedForm ? [
+        { label: 'K', risk: closedForm.kellyRisk ?? 0, color: '#d97706' },
+        { label: '½K', risk: (closedForm.kellyRisk ?? 0) * 0.5, color: '#d97706', dash: '4 2' },
+        { label: '¼K', risk: (closedForm.kellyRisk ?? 0) * 0.25, color: '#d97706', dash: '1 2' },
+        { label: 'f', risk: closedForm.vinceRisk ?? 0, color: '#0d9488' },
+    ].filter(ref => ref.risk > 0) : [];
+
     const renderGain = (val: number) => {
         // Threshold: 10^10 = 10,000,000,000
         if (val > 10000000000) {
@@ -951,8 +1026,9 @@ const OptimalPositionSizingWidget: React.FC<{ rDistribution: number[] }> = ({ rD
         color: string,
         title: string,
         yUnit?: string,
-        capped?: boolean
-    }> = ({ data, dataKey, color, title, yUnit = '%', capped = false }) => {
+        capped?: boolean,
+        references?: RiskReference[]
+    }> = ({ data, dataKey, color, title, yUnit = '%', capped = false, references = [] }) => {
 
         // Define Cap Limits
         const MAX_CAP = 1000;
@@ -984,6 +1060,8 @@ const OptimalPositionSizingWidget: React.FC<{ rDistribution: number[] }> = ({ rD
                             <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e5e7eb" />
                             <XAxis
                                 dataKey="risk"
+                                type="number"
+                                domain={['dataMin', 'dataMax']}
                                 tick={{ fontSize: 10 }}
                                 interval="preserveStartEnd"
                                 tickFormatter={(v) => `${v}%`}
@@ -994,7 +1072,7 @@ const OptimalPositionSizingWidget: React.FC<{ rDistribution: number[] }> = ({ rD
                             />
                             <Tooltip
                                 contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', fontSize: '12px' }}
-                                labelFormatter={(v) => `风险 (Risk): ${v}%`}
+                                labelFormatter={(v) => `${sizeLabel}: ${v}%`}
                                 formatter={(val: number, name: string, props: any) => {
                                     // Show RAW value in tooltip
                                     const rawVal = capped ? props.payload[dataKey] : val;
@@ -1005,6 +1083,16 @@ const OptimalPositionSizingWidget: React.FC<{ rDistribution: number[] }> = ({ rD
                             {capped && <ReferenceLine y={0} stroke="#000" strokeOpacity={0.1} />}
                             {capped && <ReferenceLine y={MAX_CAP} stroke="#ef4444" strokeDasharray="2 2" strokeOpacity={0.5} />}
                             {capped && <ReferenceLine y={MIN_CAP} stroke="#1f2937" strokeDasharray="2 2" strokeOpacity={0.5} />}
+                            {references.map(ref => (
+                                <ReferenceLine
+                                    key={ref.label}
+                                    x={ref.risk}
+                                    stroke={ref.color}
+                                    strokeDasharray={ref.dash}
+                                    strokeOpacity={0.8}
+                                    label={{ value: ref.label, position: 'top', fontSize: 9, fill: ref.color }}
+                                />
+                            ))}
 
                             <Line
                                 type="monotone"
@@ -1046,7 +1134,7 @@ const OptimalPositionSizingWidget: React.FC<{ rDistribution: number[] }> = ({ rD
             </div>
 
             {/* Controls */}
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 mb-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-6">
                 <div className="space-y-1">
                     <label className="text-xs font-semibold text-gray-500 uppercase flex items-center gap-1">
                         成功阈值 (Success) <span className="text-gray-400" title="定义“成功”的净增长率。例如：&#10;• 填 100% = 翻倍 (权益变为 2x)&#10;• 填 300% = 变为 4x&#10;• 填 900% = 十倍股 (10x)">?</span>
@@ -1079,14 +1167,16 @@ const OptimalPositionSizingWidget: React.FC<{ rDistribution: number[] }> = ({ rD
                     </div>
                 </div>
                 <div className="space-y-1">
-                    <label className="text-xs font-semibold text-gray-500 uppercase">风险模式 (Risk Mode)</label>
+                    <label className="text-xs font-semibold text-gray-500 uppercase">仓位模型 (Sizing Model)</label>
                     <select
                         value={config.riskMode}
                         onChange={e => setConfig({ ...config, riskMode: e.target.value as RiskMode })}
                         className="w-full border border-gray-300 rounded-md p-2 text-sm"
+                        title={SIZING_MODELS[config.riskMode].description}
                     >
-                        <option value={RiskMode.FIXED_FRACTIONAL}>实时权益百分比 (复利)</option>
-                        <option value={RiskMode.FIXED_INITIAL}>初始权益百分比 (单利)</option>
+                        {Object.values(RiskMode).map(mode => (
+                            <option key={mode} value={mode}>{SIZING_MODELS[mode].label}</option>
+                        ))}
                     </select>
                 </div>
                 <div className="space-y-1">
@@ -1111,6 +1201,116 @@ const OptimalPositionSizingWidget: React.FC<{ rDistribution: number[] }> = ({ rD
                         className="w-full border border-gray-300 rounded-md p-2 text-sm"
                     />
                 </div>
+                <div className="space-y-1">
+                    <label className="text-xs font-semibold text-gray-500 uppercase flex items-center gap-1">
+                        随机种子 (Seed) <span className="text-gray-400" title="留空则每次运行使用新的随机种子；填入数字可精确复现结果。">?</span>
+                    </label>
+                    <input
+                        type="text"
+                        inputMode="numeric"
+                        value={config.seed ?? ''}
+                        onChange={e => {
+                            const text = e.target.value.trim();
+                            if (text === '') {
+                                setConfig({ ...config, seed: undefined });
+                            } else if (/^\d+$/.test(text)) {
+                                setConfig({ ...config, seed: normalizeSeed(Number(text)) });
+                            }
+                        }}
+                        placeholder="随机 (Random)"
+                        className="w-full border border-gray-300 rounded-md p-2 text-sm font-mono"
+                    />
+                </div>
+            </div>
+
+            {/* Sizing model settings */}
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-2 -mt-2 mb-6 text-xs text-gray-500">
+                <span className="flex-1 min-w-[240px] leading-relaxed">{SIZING_MODELS[config.riskMode].description}</span>
+                {SIZING_MODELS[config.riskMode].settings.map(setting => {
+                    const value = sizingParams[setting.key];
+                    return typeof value === 'boolean' ? (
+                        <label key={setting.key} className="flex items-center gap-1.5 cursor-pointer select-none" title={setting.hint}>
+                            <input
+                                type="checkbox"
+                                checked={value}
+                                onChange={e => setSizingParams({ [setting.key]: e.target.checked })}
+                                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                            />
+                            {setting.label}
+                        </label>
+                    ) : (
+                        <label key={setting.key} className="flex items-center gap-2" title={setting.hint}>
+                            {setting.label}
+                            <SmartNumberInput
+                                min={setting.min}
+                                max={setting.max}
+                                value={value}
+                                onChange={val => setSizingParams({ [setting.key]: clampSizingSetting(setting, val) })}
+                                className="w-20 border border-gray-300 rounded-md p-1.5 text-sm"
+                            />
+                            {setting.unit}
+                        </label>
+                    );
+                })}
+            </div>
+
+            {/* Risk sweep */}
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-2 -mt-2 mb-6 text-xs text-gray-500">
+                <label className="flex items-center gap-2" title={`要评估的${sizeLabel}范围。每个点都是一整批蒙特卡洛模拟，点数越多越慢 (上限 ${MAX_SWEEP_POINTS} 个)。`}>
+                    扫描范围 (Sweep)
+                    <SmartNumberInput
+                        min={0.01}
+                        max={MAX_SWEEP_RISK}
+                        step={0.1}
+                        value={sweep.start}
+                        onChange={val => setSweep({ start: Math.max(0.01, val) })}
+                        onBlur={handleBlur}
+                        className="w-20 border border-gray-300 rounded-md p-1.5 text-sm"
+                    />
+                    ~
+                    <SmartNumberInput
+                        min={0.01}
+                        max={MAX_SWEEP_RISK}
+                        value={sweep.end}
+                        onChange={val => setSweep({ end: Math.max(0.01, val) })}
+                        onBlur={handleBlur}
+                        className="w-20 border border-gray-300 rounded-md p-1.5 text-sm"
+                    />
+                    %
+                </label>
+                <label className="flex items-center gap-2" title="相邻两个风险点的间距；自适应模式下为细化阶段的精度">
+                    步长 (Step)
+                    <SmartNumberInput
+                        min={0.001}
+                        step={0.05}
+                        value={sweep.step}
+                        onChange={val => setSweep({ step: Math.max(0.001, val) })}
+                        className="w-20 border border-gray-300 rounded-md p-1.5 text-sm"
+                    />
+                    %
+                </label>
+                <label className="flex items-center gap-2" title="自适应：先以约 25 个点粗扫整个范围，再在每种方法的最优点附近按步长逐点细化，点数远少于固定步长。">
+                    模式 (Mode)
+                    <select
+                        value={sweep.mode}
+                        onChange={e => setSweep({ mode: e.target.value as SweepMode })}
+                        className="border border-gray-300 rounded-md p-1.5 text-sm"
+                    >
+                        {Object.values(SweepMode).map(mode => (
+                            <option key={mode} value={mode}>{SWEEP_MODE_LABELS[mode]}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex items-center gap-1.5 cursor-pointer select-none" title="所有风险点使用同一组预先生成的交易序列，只有仓位大小不同：曲线更平滑，最优点不再受各点抽样噪声影响。序列过大时分块生成，不会占满内存。">
+                    <input
+                        type="checkbox"
+                        checked={Boolean(config.commonRandomNumbers)}
+                        onChange={e => setConfig({ ...config, commonRandomNumbers: e.target.checked })}
+                        className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    共同随机数 (Common Random Numbers)
+                </label>
+                <span className="text-gray-400">≈ {estimateSweepPoints(sweep).toLocaleString()} 个风险点 (levels)</span>
             </div>
 
             {/* Action & Progress */}
@@ -1126,9 +1326,17 @@ const OptimalPositionSizingWidget: React.FC<{ rDistribution: number[] }> = ({ rD
 
                 {isCalculating && (
                     <div className="space-y-2">
-                        <div className="flex justify-between text-xs font-medium text-gray-600">
-                            <span>正在分析 0.1% ~ 30.0% 的风险敞口...</span>
-                            <span>{progress}%</span>
+                        <div className="flex justify-between items-center text-xs font-medium text-gray-600">
+                            <span>正在分析 {sweep.start}% ~ {sweep.end}% 的风险敞口{sweep.mode === SweepMode.ADAPTIVE ? ' (自适应)' : ''}...</span>
+                            <div className="flex items-center gap-3">
+                                <span>{progress}%</span>
+                                <button
+                                    onClick={cancelAnalysis}
+                                    className="text-gray-500 hover:text-red-600 flex items-center gap-1"
+                                >
+                                    <X size={12} /> 取消 (Cancel)
+                                </button>
+                            </div>
                         </div>
                         <div className="w-full bg-gray-100 rounded-full h-2.5 overflow-hidden">
                             <div className="bg-indigo-600 h-2.5 rounded-full transition-all duration-200" style={{ width: `${progress}%` }}></div>
@@ -1140,13 +1348,30 @@ const OptimalPositionSizingWidget: React.FC<{ rDistribution: number[] }> = ({ rD
                     <div className="flex items-center justify-between">
                         <p className="text-sm text-green-600 font-medium flex items-center gap-2">
                             <Sparkles size={16} /> 分析完成
+                            <span className="text-xs text-gray-400 font-normal">
+                                种子 (Seed): <span className="font-mono text-gray-600 select-all">{resultData.seed}</span>
+                            </span>
+                            {resultData.commonRandomNumbers && (
+                                <span className="text-xs text-gray-400 font-normal">· 共同随机数 (CRN)</span>
+                            )}
                         </p>
-                        <button
-                            onClick={runAnalysis}
-                            className="text-indigo-600 text-sm hover:underline"
-                        >
-                            重新运行 (Rerun)
-                        </button>
+                        <div className="flex items-center gap-4">
+                            {config.seed !== resultData.seed && (
+                                <button
+                                    onClick={() => setConfig({ ...config, seed: resultData.seed })}
+                                    className="text-gray-500 text-sm hover:text-indigo-600 hover:underline"
+                                    title="将本次种子填入参数，下次运行可复现相同结果"
+                                >
+                                    固定此种子 (Pin Seed)
+                                </button>
+                            )}
+                            <button
+                                onClick={runAnalysis}
+                                className="text-indigo-600 text-sm hover:underline"
+                            >
+                                重新运行 (Rerun)
+                            </button>
+                        </div>
                     </div>
                 )}
             </div>
@@ -1160,18 +1385,21 @@ const OptimalPositionSizingWidget: React.FC<{ rDistribution: number[] }> = ({ rD
                             data={resultData.chartData}
                             dataKey="probSuccess"
                             title="成功概率 (Success Rate)"
+                            references={riskReferences}
                             color="#10b981"
                         />
                         <SmallChart
                             data={resultData.chartData}
                             dataKey="probRuin"
                             title="失败概率 (Ruin Rate)"
+                            references={riskReferences}
                             color="#ef4444"
                         />
                         <SmallChart
                             data={resultData.chartData}
                             dataKey="avgGain"
                             title="平均收益 % (Avg Gain)"
+                            references={riskReferences}
                             color="#3b82f6"
                             capped={true}
                         />
@@ -1179,6 +1407,7 @@ const OptimalPositionSizingWidget: React.FC<{ rDistribution: number[] }> = ({ rD
                             data={resultData.chartData}
                             dataKey="medianGain"
                             title="中位数收益 % (Median Gain)"
+                            references={riskReferences}
                             color="#8b5cf6"
                             capped={true}
                         />
@@ -1190,7 +1419,7 @@ const OptimalPositionSizingWidget: React.FC<{ rDistribution: number[] }> = ({ rD
                             <thead className="bg-gray-50">
                                 <tr>
                                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">目标 (Approach)</th>
-                                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">最优风险 % (Optimal Risk)</th>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">最优 {sizeLabel}</th>
                                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">成功概率 (Prob Success)</th>
                                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">失败概率 (Prob Ruin)</th>
                                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">平均收益 % (Avg Gain)</th>
@@ -1212,9 +1441,38 @@ const OptimalPositionSizingWidget: React.FC<{ rDistribution: number[] }> = ({ rD
                                         <td className="px-4 py-3">{renderGain(row.medianGain)}</td>
                                     </tr>
                                 ))}
+                                {resultData.analyticRows && resultData.analyticRows.length > 0 && (
+                                    <tr className="bg-amber-50/50">
+                                        <td colSpan={6} className="px-4 py-2 text-xs font-medium text-amber-700" title="由 R 分布直接计算的最优风险，右侧为该风险下的模拟结果。Kelly 将全部交易视为离散分布，最大化期望对数增长；Vince 最优 f 对全部交易最大化几何平均，并以最大亏损缩放，两者应基本一致。">
+                                            解析参考 (Closed-form References)
+                                            {closedForm?.geometricMean != null && (
+                                                <span className="ml-2 font-normal text-amber-600/80">
+                                                    最大亏损 (Worst Loss) {closedForm.worstLoss.toFixed(2)}R · 几何平均 (Geometric Mean) {closedForm.geometricMean.toFixed(4)}
+                                                </span>
+                                            )}
+                                        </td>
+                                    </tr>
+                                )}
+                                {resultData.analyticRows?.map((row, idx) => (
+                                    <tr key={`analytic-${idx}`} className="hover:bg-gray-50 transition-colors">
+                                        <td className="px-4 py-3 font-medium text-gray-800">{row.approach}</td>
+                                        <td className="px-4 py-3 font-mono font-bold text-amber-600">{row.optimalRisk.toFixed(2)}%</td>
+                                        <td className="px-4 py-3 text-gray-600">{row.probSuccess.toFixed(2)}%</td>
+                                        <td className="px-4 py-3">
+                                            <span className={`px-2 py-0.5 rounded text-xs font-medium ${row.probRuin > 5 ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'}`}>
+                                                {row.probRuin.toFixed(2)}%
+                                            </span>
+                                        </td>
+                                        <td className="px-4 py-3">{renderGain(row.avgGain)}</td>
+                                        <td className="px-4 py-3">{renderGain(row.medianGain)}</td>
+                                    </tr>
+                                ))}
                             </tbody>
                         </table>
                     </div>
+                    {!resultData.analyticRows && resultData.riskMode !== RiskMode.FIXED_FRACTIONAL && (
+                        <p className="text-xs text-gray-400">Kelly 与 Vince 最优 f 以当前权益百分比计，仅在实时权益百分比模型下给出参考。(Closed-form references apply to the Percent Risk model only.)</p>
+                    )}
                 </div>
             )}
         </div>
@@ -1224,8 +1482,34 @@ const OptimalPositionSizingWidget: React.FC<{ rDistribution: number[] }> = ({ rD
 
 // --- Sub-Views ---
 
-const SystemAnalysisView: React.FC<{ results: SimulationResults }> = ({ results }) => {
-    const { systemMetrics, riskMetrics, charts, stats, simulationConfig, equityCurves } = results;
+const SystemAnalysisView: React.FC<{
+    results: SimulationResults;
+    sizingConfig: OptimalFConfig; // Sizing model and its settings, as set for the optimal f analysis
+    onRerunWithSeed?: (seed: number) => void;
+    onExportWorkbook: () => void;
+    onExportReport?: () => void;
+}> = ({ results, sizingConfig, onRerunWithSeed, onExportWorkbook, onExportReport }) => {
+    const { systemMetrics, riskMetrics, charts, stats, simulationConfig, equityCurves, equityPercentiles, underwaterPercentiles, simulations, equity } = results;
+    const [ciLevel, setCiLevel] = useState<ConfidenceLevel>(95);
+
+    // Representative paths re-run through the sizing model, as equity change in %
+    const [isSizedView, setIsSizedView] = useState(false);
+    const [sizePercent, setSizePercent] = useState(1);
+    const sizedCurves = isSizedView ? (equityCurves || []).map(curve => {
+        const sizer = createPositionSizer(sizingConfig.riskMode, sizePercent, resolveSizingParams(sizingConfig));
+        const tradeRs = curve.data.slice(1).map((value, i) => value - curve.data[i]);
+        return { ...curve, data: sizeEquityPath(tradeRs, sizer).map(equity => (equity - 1) * 100) };
+    }) : [];
+
+    const handleDownloadSimulations = (format: 'csv' | 'json') => {
+        if (!simulations) return;
+        const fileName = `van-tharp-simulations-${simulationConfig.seed ?? 'random'}.${format}`;
+        if (format === 'csv') {
+            downloadTextFile(simulationRecordsToCsv(simulations), fileName, 'text/csv');
+        } else {
+            downloadTextFile(simulationRecordsToJson(simulations, results), fileName);
+        }
+    };
 
     const handleScreenshot = async () => {
         const element = document.getElementById('dashboard-content');
@@ -1298,9 +1582,11 @@ const SystemAnalysisView: React.FC<{ results: SimulationResults }> = ({ results
         }
     };
 
-    const sqnHelpText = "T检验分数 (T-Score):\n• < 1.0：难以用于交易 (Poor)\n• 1.0 - 2.0：平均表现 (Average)\n• 2.0 - 3.0：优秀的系统 (Good)\n• 3.0 - 5.0：卓越的系统 (Excellent)\n• > 5.0：超级系统 (Super)";
+    // The graded SQN uses √min(n, cap); with the default cap this is Van Tharp's SQN100
+    const sqnVariant = `SQN${systemMetrics.sqnCap}`;
+    const sqnHelpText = `评级对象 (Graded): ${sqnVariant} = E/σ × √min(n, ${systemMetrics.sqnCap})\n\nT检验分数 (T-Score):\n• < 1.0：难以用于交易 (Poor)\n• 1.0 - 2.0：平均表现 (Average)\n• 2.0 - 3.0：优秀的系统 (Good)\n• 3.0 - 5.0：卓越的系统 (Excellent)\n• > 5.0：超级系统 (Super)\n\n原始 SQN (Raw) 使用实际样本量 √${systemMetrics.sampleSize}，仅供参考，不参与评级。`;
 
-    // Determine SQN visual style and text
+    // Determine SQN visual style and text (grades the capped variant only)
     const getSqnState = (sqn: number) => {
         if (sqn <= 0) return {
             label: "不合格 (Warn)",
@@ -1342,25 +1628,58 @@ const SystemAnalysisView: React.FC<{ results: SimulationResults }> = ({ results
 
     const sqnState = getSqnState(systemMetrics.sqn);
 
-    // Calculate Sigma Intervals
+    // Confidence intervals: percentile bootstrap, with the normal approximation (mean ± z·σ/√N) for comparison.
+    // Both use the actual sample size N, not the SQN-capped n.
     const mean = systemMetrics.expectancy;
     const sd = systemMetrics.standardDeviation;
-    const n = systemMetrics.n;
-    const standardError = n > 0 ? sd / Math.sqrt(n) : 0;
-
-    const formatRange = (m: number, se: number, multiple: number) => {
-        const lower = m - multiple * se;
-        const upper = m + multiple * se;
-        return `${lower.toFixed(2)} ~ ${upper.toFixed(2)}`;
+    const sampleSize = systemMetrics.sampleSize;
+    const standardError = sampleSize > 0 ? sd / Math.sqrt(sampleSize) : 0;
+    const bootstrap = systemMetrics.bootstrap;
+    const normalInterval: ConfidenceInterval = {
+        lower: mean - NORMAL_Z[ciLevel] * standardError,
+        upper: mean + NORMAL_Z[ciLevel] * standardError
     };
+    const formatR = (v: number) => `${v.toFixed(2)}R`;
+    const formatPercent = (v: number) => `${(v * 100).toFixed(1)}%`;
+    const formatFactor = (v: number) => v >= 999 ? '∞' : v.toFixed(2);
+
+    // Gross (before costs) vs. net figures, when trading costs were deducted
+    const { costs } = systemMetrics;
+    const costRows = costs ? [
+        { label: '期望值 (Expectancy)', gross: costs.gross.expectancy, net: systemMetrics.expectancy, format: formatR },
+        { label: sqnVariant, gross: costs.gross.sqn, net: systemMetrics.sqn, format: (v: number) => v.toFixed(2) },
+        { label: `原始 SQN (Raw, n=${systemMetrics.sampleSize})`, gross: costs.gross.sqnRaw, net: systemMetrics.sqnRaw, format: (v: number) => v.toFixed(2) },
+        { label: '胜率 (Win Rate)', gross: costs.gross.winRate, net: systemMetrics.winRate, format: formatPercent },
+        { label: '盈亏比 (P/L Ratio)', gross: costs.gross.profitFactor, net: systemMetrics.profitFactor, format: formatFactor },
+    ] : [];
+
+    const bootstrapHint = bootstrap ? `基于 ${bootstrap.resamples} 次有放回重采样的百分位区间 (Percentile bootstrap)` : undefined;
 
     return (
         <div id="dashboard-content" className="p-8 h-full overflow-y-auto space-y-8 relative">
-            {/* Screenshot Button */}
-            <div className="absolute top-8 right-8 z-20">
+            {/* Screenshot / Report Buttons */}
+            <div className="screenshot-btn absolute top-8 right-8 z-20 flex items-center gap-2">
+                <button
+                    onClick={onExportWorkbook}
+                    className="flex items-center gap-2 px-3 py-2 bg-white border border-gray-200 rounded-lg shadow-sm text-sm font-medium text-gray-600 hover:text-indigo-600 hover:border-indigo-200 transition-colors"
+                    title="导出全部结果数据为 Excel 工作簿 (Export all result data to an Excel workbook)"
+                >
+                    <FileSpreadsheet size={16} />
+                    <span className="hidden sm:inline">Excel</span>
+                </button>
+                {onExportReport && (
+                    <button
+                        onClick={onExportReport}
+                        className="flex items-center gap-2 px-3 py-2 bg-white border border-gray-200 rounded-lg shadow-sm text-sm font-medium text-gray-600 hover:text-indigo-600 hover:border-indigo-200 transition-colors"
+                        title="导出多页 PDF 报告 (在打印对话框中选择“另存为 PDF”)"
+                    >
+                        <FileText size={16} />
+                        <span className="hidden sm:inline">PDF 报告 (Report)</span>
+                    </button>
+                )}
                 <button
                     onClick={handleScreenshot}
-                    className="screenshot-btn flex items-center gap-2 px-3 py-2 bg-white border border-gray-200 rounded-lg shadow-sm text-sm font-medium text-gray-600 hover:text-indigo-600 hover:border-indigo-200 transition-colors"
+                    className="flex items-center gap-2 px-3 py-2 bg-white border border-gray-200 rounded-lg shadow-sm text-sm font-medium text-gray-600 hover:text-indigo-600 hover:border-indigo-200 transition-colors"
                     title="保存结果为图片"
                 >
                     <Camera size={16} />
@@ -1370,17 +1689,36 @@ const SystemAnalysisView: React.FC<{ results: SimulationResults }> = ({ results
 
             {/* Top Cards: System Metrics */}
             <div>
-                <h2 className="text-lg font-semibold text-gray-800 mb-4 pr-32">系统指标 (System Metrics)</h2>
+                <h2 className="text-lg font-semibold text-gray-800 mb-4 pr-96">系统指标 (System Metrics)</h2>
                 <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                     <MetricCard
-                        title="SQN 评分 (Score)"
+                        title={`${sqnVariant} 评分 (Score)`}
                         value={systemMetrics.sqn.toFixed(2)}
-                        subValue={sqnState.label}
+                        subValue={`${sqnState.label} · ${sqnVariant}`}
                         helpText={sqnHelpText}
                         variant="highlighted"
                         valueClassName={sqnState.valueClass}
                         subValueClassName={sqnState.badgeClass}
                         prefixIcon={sqnState.icon}
+                        footer={
+                            <div className="space-y-1">
+                                {bootstrap && (
+                                    <div className="text-center text-xs text-gray-500" title={bootstrapHint}>
+                                        {ciLevel}% 置信区间 (CI): <span className="font-mono font-semibold text-gray-700">{bootstrap.sqn[ciLevel].lower.toFixed(2)} ~ {bootstrap.sqn[ciLevel].upper.toFixed(2)}</span>
+                                    </div>
+                                )}
+                                <div className="flex justify-center gap-4 text-xs text-gray-500">
+                                    <span title={`E/σ × √${systemMetrics.sampleSize}`}>
+                                        原始 (Raw, n={systemMetrics.sampleSize}): <span className="font-mono font-semibold text-gray-700">{systemMetrics.sqnRaw.toFixed(2)}</span>
+                                    </span>
+                                    {systemMetrics.sqnAnnual !== undefined && (
+                                        <span title="E/σ × √(年交易数)">
+                                            年化 (Annual): <span className="font-mono font-semibold text-gray-700">{systemMetrics.sqnAnnual.toFixed(2)}</span>
+                                        </span>
+                                    )}
+                                </div>
+                            </div>
+                        }
                     />
 
                     <DualMetricCard
@@ -1391,20 +1729,20 @@ const SystemAnalysisView: React.FC<{ results: SimulationResults }> = ({ results
                     >
                         <div className="max-w-[85%] mx-auto space-y-1.5">
                             <div className="flex justify-between items-center text-xs">
-                                <span className="text-gray-500 font-medium">1σ (68.3%)</span>
-                                <span className="flex-1 border-b border-gray-200 border-dashed mx-3 opacity-50"></span>
-                                <span className="font-mono font-semibold text-gray-700">{formatRange(mean, standardError, 1)} R</span>
-                            </div>
-                            <div className="flex justify-between items-center text-xs">
-                                <span className="text-gray-500 font-medium">2σ (95.5%)</span>
-                                <span className="flex-1 border-b border-gray-200 border-dashed mx-3 opacity-50"></span>
-                                <span className="font-mono font-semibold text-gray-700">{formatRange(mean, standardError, 2)} R</span>
-                            </div>
-                            <div className="flex justify-between items-center text-xs">
-                                <span className="text-gray-500 font-medium">3σ (99.7%)</span>
-                                <span className="flex-1 border-b border-gray-200 border-dashed mx-3 opacity-50"></span>
-                                <span className="font-mono font-semibold text-gray-700">{formatRange(mean, standardError, 3)} R</span>
+                                <span className="text-gray-500 font-semibold">置信区间 (Confidence)</span>
+                                <ConfidenceLevelToggle value={ciLevel} onChange={setCiLevel} />
                             </div>
+                            {bootstrap && (
+                                <IntervalRow label="自助法 (Bootstrap)" interval={bootstrap.expectancy[ciLevel]} format={formatR} title={bootstrapHint} />
+                            )}
+                            <IntervalRow label="正态近似 (Normal)" interval={normalInterval} format={formatR} title="E ± z·σ/√N，假设均值服从正态分布" />
+                            {bootstrap && (
+                                <div className="flex justify-between items-center text-xs" title="重采样中期望值为正的比例">
+                                    <span className="text-gray-500 font-medium">P(E &gt; 0)</span>
+                                    <span className="flex-1 border-b border-gray-200 border-dashed mx-3 opacity-50"></span>
+                                    <span className={`font-mono font-semibold ${bootstrap.probPositiveExpectancy >= 0.95 ? 'text-emerald-600' : 'text-amber-600'}`}>{formatPercent(bootstrap.probPositiveExpectancy)}</span>
+                                </div>
+                            )}
                         </div>
                     </DualMetricCard>
 
@@ -1414,14 +1752,61 @@ const SystemAnalysisView: React.FC<{ results: SimulationResults }> = ({ results
                         title2="盈亏比 (P/L Ratio)"
                         value2={systemMetrics.profitFactor.toFixed(2)}
                     >
-                        <div className="flex items-center justify-center h-full text-xs text-gray-400 italic">
-                            基于 {systemMetrics.n} 笔基础交易数据 (Based on {systemMetrics.n} trades)
-                        </div>
+                        {bootstrap ? (
+                            <div className="max-w-[85%] mx-auto space-y-1.5">
+                                <IntervalRow label={`胜率 (Win Rate) ${ciLevel}%`} interval={bootstrap.winRate[ciLevel]} format={formatPercent} title={bootstrapHint} />
+                                <IntervalRow label={`盈亏比 (P/L) ${ciLevel}%`} interval={bootstrap.profitFactor[ciLevel]} format={formatFactor} title={bootstrapHint} />
+                                <div className="text-center text-[10px] text-gray-400 italic">
+                                    基于 {systemMetrics.sampleSize} 笔基础交易数据 (Based on {systemMetrics.sampleSize} trades)
+                                </div>
+                            </div>
+                        ) : (
+                            <div className="flex items-center justify-center h-full text-xs text-gray-400 italic">
+                                基于 {systemMetrics.sampleSize} 笔基础交易数据 (Based on {systemMetrics.sampleSize} trades)
+                            </div>
+                        )}
                     </DualMetricCard>
                 </div>
+                {costs && (
+                    <div className="mt-4 bg-white border border-gray-200 rounded-lg shadow-sm p-4">
+                        <div className="flex flex-wrap justify-between items-baseline gap-2 mb-3">
+                            <h3 className="text-sm font-semibold text-gray-700">扣除交易成本前后 (Gross vs. Net of Costs)</h3>
+                            <span className="text-xs text-gray-500">
+                                {describeCostConfig(costs.costConfig)} · 平均每笔 (Avg per trade): <span className="font-mono font-semibold text-gray-700">{costs.avgCostR.toFixed(3)}R</span>
+                            </span>
+                        </div>
+                        <table className="w-full text-xs">
+                            <thead>
+                                <tr className="text-gray-500 border-b border-gray-100">
+                                    <th className="text-left font-semibold py-1.5">指标 (Metric)</th>
+                                    <th className="text-right font-semibold py-1.5">毛值 (Gross)</th>
+                                    <th className="text-right font-semibold py-1.5">净值 (Net)</th>
+                                    <th className="text-right font-semibold py-1.5">变化 (Change)</th>
+                                </tr>
+                            </thead>
+                            <tbody className="font-mono">
+                                {costRows.map(row => (
+                                    <tr key={row.label} className="border-b border-gray-50 last:border-0">
+                                        <td className="py-1.5 font-sans text-gray-600">{row.label}</td>
+                                        <td className="py-1.5 text-right text-gray-500">{row.format(row.gross)}</td>
+                                        <td className="py-1.5 text-right font-semibold text-gray-800">{row.format(row.net)}</td>
+                                        <td className={`py-1.5 text-right ${row.net < row.gross ? 'text-red-600' : 'text-gray-500'}`}>
+                                            {row.gross !== 0 ? `${(((row.net - row.gross) / Math.abs(row.gross)) * 100).toFixed(1)}%` : '—'}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
                 {systemMetrics.rUnitSize && (
                     <div className="mt-2 text-xs text-gray-500 text-right">
-                        * 自动计算的 1R 单位 (Auto 1R): <span className="font-mono font-medium text-gray-700">${systemMetrics.rUnitSize.toFixed(2)}</span>
+                        * 1R 单位 ({systemMetrics.rUnitConfig ? describeRUnitConfig(systemMetrics.rUnitConfig) : '自动 (Auto)'}): <span className="font-mono font-medium text-gray-700">${systemMetrics.rUnitSize.toFixed(2)}</span>
+                    </div>
+                )}
+                {systemMetrics.avgInitialRisk && (
+                    <div className="mt-2 text-xs text-gray-500 text-right">
+                        * 1R = 每笔交易的初始风险 (Per-trade initial risk)，平均 (Avg): <span className="font-mono font-medium text-gray-700">${systemMetrics.avgInitialRisk.toFixed(2)}</span>
                     </div>
                 )}
             </div>
@@ -1461,25 +1846,190 @@ const SystemAnalysisView: React.FC<{ results: SimulationResults }> = ({ results
                         </div>
                         <div className="flex justify-between items-center text-sm">
                             <span className="text-gray-500">基础样本 N (Base Sample N)</span>
-                            <span className="font-mono font-bold text-gray-700 bg-gray-100 px-2 py-1 rounded">{systemMetrics.n}</span>
+                            <span className="font-mono font-bold text-gray-700 bg-gray-100 px-2 py-1 rounded" title={`SQN 评级使用 n = ${systemMetrics.n}`}>{systemMetrics.sampleSize}</span>
+                        </div>
+                        <div className="flex justify-between items-center text-sm">
+                            <span className="text-gray-500">重采样 (Resampling)</span>
+                            <span className="font-mono font-bold text-gray-700 bg-gray-100 px-2 py-1 rounded text-xs">
+                                {RESAMPLE_MODE_LABELS[simulationConfig.resampleMode]}
+                                {isSequenceMode(simulationConfig.resampleMode) && ` · L=${simulationConfig.blockLength}`}
+                            </span>
                         </div>
+                        {simulationConfig.seed !== undefined && (
+                            <div className="flex justify-between items-center text-sm">
+                                <span className="text-gray-500">随机种子 (Seed)</span>
+                                <div className="flex items-center gap-2">
+                                    <span className="font-mono font-bold text-gray-700 bg-gray-100 px-2 py-1 rounded select-all">{simulationConfig.seed}</span>
+                                    {onRerunWithSeed && (
+                                        <button
+                                            onClick={() => onRerunWithSeed(simulationConfig.seed!)}
+                                            className="p-1 text-gray-400 hover:text-indigo-600 transition-colors"
+                                            title="使用此种子重新运行 (Re-run with this seed)"
+                                        >
+                                            <RotateCcw size={14} />
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+                        {simulationConfig.retainSimulations && (
+                            <div className="flex justify-between items-center text-sm">
+                                <span className="text-gray-500">逐次模拟记录 (Per-sim Records)</span>
+                                {simulations ? (
+                                    <div className="flex items-center gap-2">
+                                        <span
+                                            className={`text-xs font-mono ${simulations.retained < simulations.total ? 'text-amber-600' : 'text-gray-400'}`}
+                                            title={simulations.retained < simulations.total ? `超出内存上限，仅保留前 ${simulations.retained.toLocaleString()} 次 (Memory limit: first ${simulations.retained.toLocaleString()} sims kept)` : undefined}
+                                        >
+                                            {simulations.retained.toLocaleString()}/{simulations.total.toLocaleString()}
+                                        </span>
+                                        <button
+                                            onClick={() => handleDownloadSimulations('csv')}
+                                            className="flex items-center gap-1 px-2 py-1 text-xs border border-gray-200 rounded text-gray-600 hover:text-indigo-600 hover:border-indigo-200 transition-colors"
+                                            title="每行一次模拟 (One row per simulation)"
+                                        >
+                                            <Download size={12} /> CSV
+                                        </button>
+                                        <button
+                                            onClick={() => handleDownloadSimulations('json')}
+                                            className="flex items-center gap-1 px-2 py-1 text-xs border border-gray-200 rounded text-gray-600 hover:text-indigo-600 hover:border-indigo-200 transition-colors"
+                                            title="列式 JSON，每个指标一个数组 (Columnar JSON, one array per metric)"
+                                        >
+                                            <Download size={12} /> JSON
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <span className="text-xs text-gray-400" title="逐次记录不随工作区保存 (Per-sim records are not saved with the workspace)">
+                                        重新运行以生成 (Re-run to generate)
+                                    </span>
+                                )}
+                            </div>
+                        )}
                     </div>
                 </div>
             </div>
 
             {/* NEW: Equity Curves Chart */}
             <div>
-                <EquityCurvesChart curves={equityCurves || []} />
+                <div className="flex flex-wrap justify-end items-center gap-3 mb-2 text-xs text-gray-500">
+                    <span>纵轴 (Y-Axis)</span>
+                    <select
+                        value={isSizedView ? 'sized' : 'r'}
+                        onChange={e => setIsSizedView(e.target.value === 'sized')}
+                        className="rounded-md border border-gray-300 text-xs py-1 pl-2 pr-8"
+                        title="仓位模型及其参数在“仓位管理”页的最优风险分析中设置 (Model settings are in the Position Sizing tab)"
+                    >
+                        <option value="r">累积 R (Cumulative R)</option>
+                        <option value="sized">权益 % · {SIZING_MODELS[sizingConfig.riskMode].label}</option>
+                    </select>
+                    {isSizedView && (
+                        <label className="flex items-center gap-1.5">
+                            {SIZING_MODELS[sizingConfig.riskMode].sizeLabel}
+                            <SmartNumberInput
+                                min={0.1}
+                                step={0.1}
+                                value={sizePercent}
+                                onChange={val => setSizePercent(Math.min(100, Math.max(0.1, val)))}
+                                className="w-16 border border-gray-300 rounded-md p-1 text-xs font-mono"
+                            />
+                            %
+                        </label>
+                    )}
+                </div>
+                {isSizedView
+                    ? <EquityCurvesChart curves={sizedCurves} unit="%" />
+                    : <EquityCurvesChart curves={equityCurves || []} percentiles={equityPercentiles} />}
+            </div>
+
+            {/* Drawdown & Recovery */}
+            <div>
+                <h2 className="text-lg font-semibold text-gray-800 mb-4">回撤与恢复 (Drawdown & Recovery)</h2>
+                <div className="space-y-6">
+                    <UnderwaterChart percentiles={underwaterPercentiles} />
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        <div className="space-y-4">
+                            <HistogramChart data={charts.maxDrawdown} title="最大回撤 (Max Drawdown)" color="#ef4444" xLabel="回撤深度 (Drawdown R)" />
+                            <StatTable stats={stats.maxDrawdown} title="回撤统计 (Stats)" color="bg-red-500" />
+                        </div>
+                        <div className="space-y-4">
+                            <HistogramChart data={charts.recoveryTime} title="最大回撤恢复时间 (Max DD Recovery)" color="#f97316" xLabel="谷底至新高的交易笔数 (Trades Trough → New High)" />
+                            <StatTable stats={stats.recoveryTime} title="恢复时间统计 (Stats)" color="bg-orange-500" />
+                            <p className="text-xs text-gray-500 px-1">
+                                * 仅统计已恢复的模拟；<span className="font-semibold text-gray-700">{riskMetrics.unrecoveredRate.toFixed(1)}%</span> 的模拟在结束时仍未收复最大回撤前的高点。
+                                (Recovered sims only; {riskMetrics.unrecoveredRate.toFixed(1)}% end still below the peak before their max drawdown.)
+                            </p>
+                        </div>
+                        <div className="space-y-4">
+                            <HistogramChart data={charts.drawdownCount} title={`回撤次数 ≥ ${simulationConfig.drawdownThreshold}R (Drawdowns ≥ ${simulationConfig.drawdownThreshold}R)`} color="#e11d48" xLabel="独立回撤次数 (Distinct Drawdowns)" />
+                            <StatTable stats={stats.drawdownCount} title="回撤次数统计 (Stats)" color="bg-rose-600" />
+                        </div>
+                        <div className="space-y-4">
+                            <HistogramChart data={charts.avgDrawdownDepth} title="平均回撤深度 (Avg Drawdown Depth)" color="#b91c1c" xLabel="每轮平均回撤 (Mean Depth R)" />
+                            <StatTable stats={stats.avgDrawdownDepth} title="平均深度统计 (Stats)" color="bg-red-700" />
+                        </div>
+                    </div>
+                </div>
             </div>
 
+            {/* Account Simulation (results saved before it have none) */}
+            {equity && (
+                <div>
+                    <h2 className="text-lg font-semibold text-gray-800 mb-1">账户模拟 (Account Simulation)</h2>
+                    <p className="text-xs text-gray-500 mb-4">
+                        同一批交易序列按仓位模型逐笔套用到账户上 (The same trade sequences, sized trade by trade): {describeEquitySimulationConfig(resolveEquitySimulationConfig(simulationConfig))}
+                    </p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-6">
+                        <MetricCard
+                            title="最终权益中位数 (Median Final Equity)"
+                            value={formatMoney(equity.stats.finalEquity.median)}
+                            subValue={`${equity.stats.returnPct.median >= 0 ? '+' : ''}${equity.stats.returnPct.median.toFixed(1)}%`}
+                            helpText={`初始资金 ${formatMoney(equity.startingEquity)}。5% ~ 95% 分位: ${formatMoney(equity.stats.finalEquity.p5)} ~ ${formatMoney(equity.stats.finalEquity.p95)}`}
+                        />
+                        <MetricCard
+                            title="跌破底线概率 (P(Below Floor))"
+                            value={`${equity.probBelowFloor.toFixed(1)}%`}
+                            subValue={`底线 (Floor) ${formatMoney(equity.floorEquity)}`}
+                            helpText="模拟过程中账户权益曾跌至底线或以下的模拟占比 (不要求结束时仍低于底线)。"
+                            valueClassName={`text-2xl font-bold ${equity.probBelowFloor > 5 ? 'text-red-600' : 'text-gray-900'}`}
+                        />
+                        <MetricCard
+                            title="最大回撤 % (Max Drawdown %)"
+                            value={`${equity.stats.maxDrawdownPct.median.toFixed(1)}%`}
+                            subValue={`P95 ${equity.stats.maxDrawdownPct.p95.toFixed(1)}%`}
+                            helpText="每次模拟中距前高的最大跌幅 (占前高的百分比)，显示中位数与 95% 分位。"
+                        />
+                        <MetricCard
+                            title="每笔复合增长 (Growth / Trade)"
+                            value={`${equity.stats.growthPerTrade.median.toFixed(3)}%`}
+                            subValue={`亏损概率 (P(Loss)) ${equity.probLoss.toFixed(1)}%`}
+                            helpText={`类似 CAGR 的每笔交易几何增长率: (最终权益 ÷ 初始资金)^(1 / ${simulationConfig.tradesPerSimulation}) - 1，显示中位数。亏损概率为结束时低于初始资金的模拟占比。`}
+                        />
+                    </div>
+                    <div className="space-y-6">
+                        <EquityCurvesChart curves={[]} percentiles={equity.equityPercentiles} unit="$" baseline={equity.startingEquity} />
+                        <UnderwaterChart percentiles={equity.underwaterPercentiles} unit="%" />
+                        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                            <div className="space-y-4">
+                                <HistogramChart data={equity.charts.finalEquity} title="最终账户权益 (Final Account Equity)" color="#4338ca" xLabel="权益 (Equity)" />
+                                <StatTable stats={equity.stats.finalEquity} title="最终权益统计 (Stats)" color="bg-indigo-700" />
+                            </div>
+                            <div className="space-y-4">
+                                <HistogramChart data={equity.charts.maxDrawdownPct} title="最大回撤 % (Max Drawdown %)" color="#dc2626" xLabel="回撤 (Drawdown %)" />
+                                <StatTable stats={equity.stats.maxDrawdownPct} title="回撤 % 统计 (Stats)" color="bg-red-600" />
+                            </div>
+                            <div className="space-y-4">
+                                <HistogramChart data={equity.charts.growthPerTrade} title="每笔复合增长 (Growth per Trade)" color="#059669" xLabel="增长率 (Growth %)" />
+                                <StatTable stats={equity.stats.growthPerTrade} title="增长率统计 (Stats)" color="bg-emerald-600" />
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
+
             {/* Bottom: Charts Grid */}
             <div>
                 <h2 className="text-lg font-semibold text-gray-800 mb-4">蒙特卡洛分布直方图 (Monte Carlo Distributions)</h2>
-                <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
-                    <div className="space-y-4">
-                        <HistogramChart data={charts.maxDrawdown} title="最大回撤 (Max Drawdown)" color="#ef4444" xLabel="回撤深度 (Drawdown R)" />
-                        <StatTable stats={stats.maxDrawdown} title="回撤统计 (Stats)" color="bg-red-500" />
-                    </div>
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                     <div className="space-y-4">
                         <HistogramChart data={charts.finalResult} title="最终权益 (Final Equity)" color="#4f46e5" xLabel="权益 (Equity R)" />
                         <StatTable stats={stats.finalResult} title="最终结果统计 (Stats)" color="bg-indigo-500" />
@@ -1508,7 +2058,17 @@ const SystemAnalysisView: React.FC<{ results: SimulationResults }> = ({ results
     );
 };
 
-const PositionManagementView: React.FC<{ results: SimulationResults }> = ({ results }) => {
+const PositionManagementView: React.FC<{
+    results: SimulationResults;
+    optimalFConfig: OptimalFConfig;
+    setOptimalFConfig: (config: OptimalFConfig) => void;
+    optimalFResult: OptimalFAnalysisResult | null;
+    setOptimalFResult: (result: OptimalFAnalysisResult | null) => void;
+    riskAllocation: RiskAllocationState;
+    setRiskAllocation: (state: RiskAllocationState) => void;
+    onExportWorkbook: () => void;
+    onExportReport?: () => void;
+}> = ({ results, optimalFConfig, setOptimalFConfig, optimalFResult, setOptimalFResult, riskAllocation, setRiskAllocation, onExportWorkbook, onExportReport }) => {
     const { systemMetrics } = results;
 
     const handleScreenshot = async () => {
@@ -1582,28 +2142,7 @@ const PositionManagementView: React.FC<{ results: SimulationResults }> = ({ resu
         }
     };
 
-    // 1. Calculate SQN Heat (Ideal World)
-    const calculateSqnHeat = (sqn: number): number => {
-        if (sqn < 1.3) return 1.0;
-        if (sqn < 1.7) return 1.0 + ((sqn - 1.3) / (1.7 - 1.3)) * (4 - 1);
-        if (sqn < 2.5) return 4.0 + ((sqn - 1.7) / (2.5 - 1.7)) * (8 - 4);
-        if (sqn < 3.0) return 8.0 + ((sqn - 2.5) / (3.0 - 2.5)) * (12 - 8);
-        if (sqn < 4.0) return 12.0 + ((sqn - 3.0) / (4.0 - 3.0)) * (15 - 12);
-        if (sqn < 5.0) return 15.0 + ((sqn - 4.0) / (5.0 - 4.0)) * (20 - 15);
-        return Math.min(25.0, 20.0 + ((sqn - 5.0) / 1.0) * 5);
-    };
-
-    const sqnHeat = calculateSqnHeat(systemMetrics.sqn);
-
-    // 2. Calculate Worst-Case Constraint
-    const worstR = systemMetrics.worstR;
-    const worstLoss = worstR < 0 ? Math.abs(worstR) : 0;
-
-    const constraintHeat = worstLoss > 0 ? (100 / worstLoss) : 100;
-
-    // 3. Final Recommendation (Min of both)
-    const finalHeat = Math.min(sqnHeat, constraintHeat);
-    const isConstrained = constraintHeat < sqnHeat;
+    const { sqnHeat, constraintHeat, finalHeat, isConstrained, worstR } = calculateHeatRecommendation(systemMetrics);
 
     // Visual helpers
     const getHeatColor = (h: number) => {
@@ -1631,11 +2170,29 @@ const PositionManagementView: React.FC<{ results: SimulationResults }> = ({ resu
 
     return (
         <div id="position-dashboard-content" className="p-8 h-full overflow-y-auto bg-gray-50/50 relative">
-            {/* Screenshot Button */}
-            <div className="absolute top-8 right-8 z-20">
+            {/* Screenshot / Report Buttons */}
+            <div className="screenshot-btn absolute top-8 right-8 z-20 flex items-center gap-2">
+                <button
+                    onClick={onExportWorkbook}
+                    className="flex items-center gap-2 px-3 py-2 bg-white border border-gray-200 rounded-lg shadow-sm text-sm font-medium text-gray-600 hover:text-indigo-600 hover:border-indigo-200 transition-colors"
+                    title="导出全部结果数据为 Excel 工作簿 (Export all result data to an Excel workbook)"
+                >
+                    <FileSpreadsheet size={16} />
+                    <span className="hidden sm:inline">Excel</span>
+                </button>
+                {onExportReport && (
+                    <button
+                        onClick={onExportReport}
+                        className="flex items-center gap-2 px-3 py-2 bg-white border border-gray-200 rounded-lg shadow-sm text-sm font-medium text-gray-600 hover:text-indigo-600 hover:border-indigo-200 transition-colors"
+                        title="导出多页 PDF 报告 (在打印对话框中选择“另存为 PDF”)"
+                    >
+                        <FileText size={16} />
+                        <span className="hidden sm:inline">PDF 报告 (Report)</span>
+                    </button>
+                )}
                 <button
                     onClick={handleScreenshot}
-                    className="screenshot-btn flex items-center gap-2 px-3 py-2 bg-white border border-gray-200 rounded-lg shadow-sm text-sm font-medium text-gray-600 hover:text-indigo-600 hover:border-indigo-200 transition-colors"
+                    className="flex items-center gap-2 px-3 py-2 bg-white border border-gray-200 rounded-lg shadow-sm text-sm font-medium text-gray-600 hover:text-indigo-600 hover:border-indigo-200 transition-colors"
                     title="保存结果为图片"
                 >
                     <Camera size={16} />
@@ -1743,21 +2300,31 @@ const PositionManagementView: React.FC<{ results: SimulationResults }> = ({ resu
                 {/* --- 第二行：Risk Allocation Widget (现在独立出来，占满全宽) --- */}
                 {/* Added w-full and removed from grid */}
                 <div className="lg:col-span-2 w-full">
-                    <RiskAllocationWidget totalHeat={finalHeat} />
+                    <RiskAllocationWidget totalHeat={finalHeat} state={riskAllocation} onChange={setRiskAllocation} />
                 </div>
             </div>
 
 
 
             {/* Optimal Position Sizing Widget */}
-            <OptimalPositionSizingWidget rDistribution={preparePool()} />
+            <OptimalPositionSizingWidget rDistribution={preparePool()} config={optimalFConfig} setConfig={setOptimalFConfig} result={optimalFResult} setResult={setOptimalFResult} />
         </div>
     );
 };
 
-export const Dashboard: React.FC<DashboardProps> = ({ results, isSidebarOpen }) => {
+export const Dashboard: React.FC<DashboardProps> = ({ results, isSidebarOpen, onRerunWithSeed, optimalFConfig, setOptimalFConfig, optimalFResult, setOptimalFResult, riskAllocation, setRiskAllocation, onExportReport }) => {
     const [activeTab, setActiveTab] = useState<'system' | 'position'>('system');
 
+    const handleExportWorkbook = () => {
+        if (!results) return;
+        try {
+            downloadResultsWorkbook(results, optimalFResult);
+        } catch (err) {
+            console.error("Workbook export failed:", err);
+            alert("导出失败，请重试 (Export failed, please retry)");
+        }
+    };
+
     if (!results) {
         return (
             <div className="flex flex-col items-center justify-center h-full text-gray-400 bg-white">
@@ -1794,9 +2361,19 @@ export const Dashboard: React.FC<DashboardProps> = ({ results, isSidebarOpen })
             {/* Content Area */}
             <div className="flex-1 overflow-hidden relative">
                 {activeTab === 'system' ? (
-                    <SystemAnalysisView results={results} />
+                    <SystemAnalysisView results={results} sizingConfig={optimalFConfig} onRerunWithSeed={onRerunWithSeed} onExportWorkbook={handleExportWorkbook} onExportReport={onExportReport} />
                 ) : (
-                    <PositionManagementView results={results} />
+                    <PositionManagementView
+                        results={results}
+                        optimalFConfig={optimalFConfig}
+                        setOptimalFConfig={setOptimalFConfig}
+                        optimalFResult={optimalFResult}
+                        setOptimalFResult={setOptimalFResult}
+                        riskAllocation={riskAllocation}
+                        setRiskAllocation={setRiskAllocation}
+                        onExportWorkbook={handleExportWorkbook}
+                        onExportReport={onExportReport}
+                    />
                 )}
             </div>
         </div>
@@ -1,6 +1,14 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { Plus, Trash2, Play, PanelLeftClose, Download, Upload, Sparkles, AlertTriangle, CheckCircle } from 'lucide-react';
-import { AppMode, FrequencyRow, SimulationConfig } from '../types';
+import { Plus, Trash2, Play, PanelLeftClose, Download, Upload, Sparkles, AlertTriangle, CheckCircle, Dices, X, GitCompare } from 'lucide-react';
+import { AppMode, FrequencyRow, SimulationConfig, ResampleMode, RUnitConfig, RUnitMethod, SqnConfig, CostConfig, CostMethod, EquitySimulationConfig, RiskMode, SizingModelParams } from '../types';
+import { R_UNIT_METHOD_LABELS, DEFAULT_MAX_RETAINED_SIMULATIONS } from '../utils/calculations';
+import { generateSeed, normalizeSeed } from '../utils/random';
+import { RESAMPLE_MODE_LABELS, isSequenceMode } from '../utils/resampling';
+import { COST_METHOD_LABELS } from '../utils/tradeCosts';
+import { SIZING_MODELS, clampSizingSetting } from '../utils/sizingModels';
+import { resolveEquitySimulationConfig } from '../utils/equitySimulation';
+import { parseTradeLog } from '../utils/tradeLog';
+import { PRESETS } from '../utils/presets';
 import * as XLSX from 'xlsx';
 
 interface InputSectionProps {
@@ -10,11 +18,22 @@ interface InputSectionProps {
   setFrequencyData: (data: FrequencyRow[]) => void;
   rawPnlText: string;
   setRawPnlText: (text: string) => void;
+  rUnitConfig: RUnitConfig;
+  setRUnitConfig: (config: RUnitConfig) => void;
+  tradeLogText: string;
+  setTradeLogText: (text: string) => void;
   onRun: () => void;
+  onCompare: () => void;
   isCalculating: boolean;
+  progress: number; // 0-100 while a simulation is running
+  onCancel: () => void;
   onToggleSidebar: () => void;
   simulationConfig: SimulationConfig;
   setSimulationConfig: (config: SimulationConfig) => void;
+  sqnConfig: SqnConfig;
+  setSqnConfig: (config: SqnConfig) => void;
+  costConfig: CostConfig;
+  setCostConfig: (config: CostConfig) => void;
 }
 
 const parseStrictNumber = (value: string): number | null => {
@@ -103,167 +122,6 @@ const SmartNumberInput = ({
   );
 };
 
-const PRESETS = [
-  {
-    id: 'custom',
-    name: '默认 / 自定义 (Default / Custom)',
-    data: [
-      { count: 5, rValue: -1 },
-      { count: 3, rValue: 2 },
-      { count: 2, rValue: 5 },
-    ]
-  },
-  {
-    id: 'lottery',
-    name: '福利彩票 (Welfare Lottery)',
-    data: [
-      { count: 965, rValue: -1 },
-      { count: 35, rValue: 50 }
-    ]
-  },
-  {
-    id: 'super-lottery',
-    name: '赌狗彩票 (Gambling Dog Lottery)',
-    data: [
-      { count: 9985, rValue: -1 },
-      { count: 15, rValue: 1000 }
-    ]
-  },
-  {
-    id: 'high-win-system',
-    name: '高胜系统 (High-Win System)',
-    data: [
-      { count: 10, rValue: -3.5 },
-      { count: 10, rValue: -2 },
-      { count: 70, rValue: 1 },
-      { count: 10, rValue: 2 }
-    ]
-  },
-  {
-    id: 'careful-system',
-    name: '小心翼翼 (I\'m Afraid)',
-    data: [
-      { count: 10, rValue: -1 },
-      { count: 10, rValue: 1.3 }
-    ]
-  },
-  {
-    id: 'leeks-system',
-    name: '截断盈利-奔跑亏损 (I\'m a Bagholder)',
-    data: [
-      { count: 1, rValue: -10 },
-      { count: 9, rValue: 1 }
-    ]
-  },
-  {
-    id: 'daoing-system',
-    name: '频繁止损-悟道中 (Path to Wisdom)',
-    data: [
-      { count: 55, rValue: -1 },
-      { count: 12, rValue: -2 },
-      { count: 3, rValue: -5 },
-      { count: 5, rValue: 1 },
-      { count: 4, rValue: 5 },
-      { count: 3, rValue: 10 },
-      { count: 3, rValue: 25 }
-    ]
-  },
-  {
-    id: 'half-dao-system',
-    name: '半步悟道 (Half in Wisdom)',
-    data: [
-      { count: 2, rValue: -10 },
-      { count: 4, rValue: -5 },
-      { count: 10, rValue: -1 },
-      { count: 5, rValue: 3 },
-      { count: 2, rValue: 15 },
-      { count: 1, rValue: 30 }
-    ]
-  },
-  {
-    id: 'go-big-system',
-    name: '只玩大的 (Go Big or Go Home)',
-    data: [
-      { count: 18, rValue: -1 },
-      { count: 2, rValue: 50 }
-    ]
-  },
-  {
-    id: 'classic-sqn1-system',
-    name: '经典SQN=1.0 (SQN 1.0 System)',
-    data: [
-      { count: 23, rValue: -5 },
-      { count: 55, rValue: -1 },
-      { count: 12, rValue: 3 },
-      { count: 6, rValue: 15 },
-      { count: 4, rValue: 30 }
-    ]
-  },
-  {
-    id: 'classic-sqn2-system',
-    name: '经典SQN=2.0 (SQN 2.0 System)',
-    data: [
-      { count: 1, rValue: -5 },
-      { count: 6, rValue: -3 },
-      { count: 11, rValue: -2 },
-      { count: 10, rValue: -1 },
-      { count: 57, rValue: 1 },
-      { count: 15, rValue: 2 }
-    ]
-  },
-  {
-    id: 'classic-sqn3-system',
-    name: '经典SQN=3.0 (SQN 3.0 System)',
-    data: [
-      { count: 2, rValue: -5 },
-      { count: 2, rValue: -1.5 },
-      { count: 32, rValue: -1 },
-      { count: 28, rValue: 1 },
-      { count: 21, rValue: 1.5 },
-      { count: 15, rValue: 2 }
-    ]
-  },
-  {
-    id: 'classic-sqn4-system',
-    name: '经典SQN=4.0 (SQN 4.0 System)',
-    data: [
-      { count: 4, rValue: -5 },
-      { count: 8, rValue: -2 },
-      { count: 10, rValue: -1 },
-      { count: 40, rValue: 1 },
-      { count: 31, rValue: 2 },
-      { count: 4, rValue: 5 },
-      { count: 3, rValue: 10 }
-    ]
-  },
-  {
-    id: 'classic-sqn5-system',
-    name: '经典SQN=5.0 (SQN 5.0 System)',
-    data: [
-      { count: 3, rValue: -5 },
-      { count: 4, rValue: -2 },
-      { count: 9, rValue: -1 },
-      { count: 42, rValue: 1 },
-      { count: 33, rValue: 2 },
-      { count: 5, rValue: 5 },
-      { count: 4, rValue: 10 }
-    ]
-  },
-  {
-    id: 'classic-sqn7-system',
-    name: '经典SQN=7.0 (SQN 7.0 System)',
-    data: [
-      { count: 1, rValue: -5 },
-      { count: 6, rValue: -2 },
-      { count: 11, rValue: -1 },
-      { count: 31, rValue: 1 },
-      { count: 23, rValue: 2 },
-      { count: 22, rValue: 5 },
-      { count: 6, rValue: 10 }
-    ]
-  }
-];
-
 export const InputSection: React.FC<InputSectionProps> = ({
   mode,
   setMode,
@@ -271,14 +129,29 @@ export const InputSection: React.FC<InputSectionProps> = ({
   setFrequencyData,
   rawPnlText,
   setRawPnlText,
+  rUnitConfig,
+  setRUnitConfig,
+  tradeLogText,
+  setTradeLogText,
   onRun,
+  onCompare,
   isCalculating,
+  progress,
+  onCancel,
   onToggleSidebar,
   simulationConfig,
-  setSimulationConfig
+  setSimulationConfig,
+  sqnConfig,
+  setSqnConfig,
+  costConfig,
+  setCostConfig
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const equityConfig = resolveEquitySimulationConfig(simulationConfig);
+  const setEquityConfig = (patch: Partial<EquitySimulationConfig>) => setSimulationConfig({ ...simulationConfig, equity: { ...equityConfig, ...patch } });
+  const setEquitySizingParams = (patch: Partial<SizingModelParams>) => setEquityConfig({ sizingParams: { ...equityConfig.sizingParams, ...patch } });
+
   const addFrequencyRow = () => {
     setFrequencyData([...frequencyData, { id: crypto.randomUUID(), count: 1, rValue: 0 }]);
   };
@@ -303,6 +176,18 @@ export const InputSection: React.FC<InputSectionProps> = ({
       const wb = XLSX.utils.book_new();
       XLSX.utils.book_append_sheet(wb, ws, "FrequencyData");
       XLSX.writeFile(wb, "van_tharp_frequency.xlsx");
+    } else if (mode === AppMode.TRADE_LOG) {
+      const rows = tradeLogText
+        .split(/\r?\n/)
+        .filter(line => line.trim() !== '')
+        .map(line => line.split(line.includes('\t') ? '\t' : line.includes(';') ? ';' : ',').map(cell => {
+          const n = parseStrictNumber(cell);
+          return n === null ? cell.trim() : n;
+        }));
+      const ws = XLSX.utils.aoa_to_sheet(rows);
+      const wb = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(wb, ws, "TradeLog");
+      XLSX.writeFile(wb, "van_tharp_trade_log.xlsx");
     } else {
       const lines = extractStrictNumbersFromText(rawPnlText);
       const data = lines.map(v => ({ PnL: v }));
@@ -332,7 +217,15 @@ export const InputSection: React.FC<InputSectionProps> = ({
         const ws = wb.Sheets[wsname];
         const data = XLSX.utils.sheet_to_json<any>(ws);
 
-        if (mode === AppMode.FREQUENCY) {
+        if (mode === AppMode.TRADE_LOG) {
+          // Keep the sheet as CSV text so parseTradeLog reports errors against visible rows
+          const csv = XLSX.utils.sheet_to_csv(ws, { blankrows: false });
+          if (csv.trim() !== '') {
+            setTradeLogText(csv);
+          } else {
+            alert("未能识别有效数据，请检查 Excel 格式。\n建议格式：首行为表头 (pnl, risk 或 entry, stop, exit, size, direction)。");
+          }
+        } else if (mode === AppMode.FREQUENCY) {
           const newFreqData: FrequencyRow[] = data.map((row: any) => {
             // Flexible column matching
             const keys = Object.keys(row);
@@ -424,6 +317,20 @@ export const InputSection: React.FC<InputSectionProps> = ({
   };
 
   const pnlCount = getPnlCount();
+  const tradeLogStatus = mode === AppMode.TRADE_LOG ? parseTradeLog(tradeLogText) : null;
+
+  // Empty seed field = fresh random seed on every run
+  const handleSeedChange = (text: string) => {
+    const trimmed = text.trim();
+    if (trimmed === '') {
+      setSimulationConfig({ ...simulationConfig, seed: undefined });
+      return;
+    }
+    const parsed = parseStrictNumber(trimmed);
+    if (parsed !== null) {
+      setSimulationConfig({ ...simulationConfig, seed: normalizeSeed(parsed) });
+    }
+  };
 
   return (
     <div className="flex flex-col h-full bg-white border-r border-gray-200 shadow-sm transition-all duration-300">
@@ -469,6 +376,15 @@ export const InputSection: React.FC<InputSectionProps> = ({
             >
               原始盈亏 (Raw P&L)
             </button>
+            <button
+              onClick={() => setMode(AppMode.TRADE_LOG)}
+              className={`flex-1 py-2 px-2 text-xs font-medium rounded-md transition-all ${mode === AppMode.TRADE_LOG
+                ? 'bg-white text-indigo-600 shadow-sm'
+                : 'text-gray-500 hover:text-gray-700'
+                }`}
+            >
+              交易日志 (Trade Log)
+            </button>
           </div>
         </div>
 
@@ -551,6 +467,37 @@ export const InputSection: React.FC<InputSectionProps> = ({
               <Plus size={16} className="mr-2" /> 添加行 (Add Row)
             </button>
           </div>
+        ) : mode === AppMode.TRADE_LOG ? (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">交易日志 (带表头 CSV) / Trade Log</label>
+            <textarea
+              value={tradeLogText}
+              onChange={(e) => setTradeLogText(e.target.value)}
+              placeholder={"pnl,risk\n-100,100\n250,100\n-40,50...\n\n或 (or)\nentry,stop,exit,size,direction\n100,95,112,10,long..."}
+              className="w-full h-64 p-3 border rounded-md font-mono text-sm focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <p className="mt-2 text-xs text-gray-500 leading-relaxed">
+              提示 (Tip): 每笔交易的 R = 盈亏 ÷ 该笔初始风险。支持 "pnl, risk" 或 "entry, stop, exit, size, direction" 两种表头，方向缺省时按止损位置推断。(Each trade's R = PnL ÷ its own initial risk. Direction is inferred from the stop when omitted.)
+            </p>
+            <div className="mt-3">
+              {tradeLogStatus.error ? (
+                <div className="p-2.5 bg-amber-50 border border-amber-200 rounded-md text-amber-700 text-xs flex items-start gap-2 animate-in fade-in slide-in-from-top-1 duration-300">
+                  <AlertTriangle size={14} className="flex-shrink-0 mt-0.5 text-amber-600" />
+                  <div className="leading-tight">
+                    <span className="font-bold text-amber-800">注意:</span> {tradeLogStatus.error}
+                  </div>
+                </div>
+              ) : (
+                <div className="p-2.5 bg-emerald-50 border border-emerald-200 rounded-md text-emerald-700 text-xs flex items-start gap-2 animate-in fade-in slide-in-from-top-1 duration-300">
+                  <CheckCircle size={14} className="flex-shrink-0 mt-0.5 text-emerald-600" />
+                  <div className="leading-tight">
+                    <span className="font-bold text-emerald-800">就绪:</span> 已解析 <span className="text-emerald-700 font-extrabold text-sm mx-0.5">{tradeLogStatus.tradeCount}</span> 笔交易，平均初始风险 {tradeLogStatus.avgRisk.toFixed(2)}。<br />
+                    <span className="opacity-80 block mt-1">(Ready: Parsed <span className="text-emerald-700 font-bold">{tradeLogStatus.tradeCount}</span> trades. Simulation can be run.)</span>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
         ) : (
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">盈亏列表 (每行一个金额) / P&L List</label>
@@ -563,6 +510,53 @@ export const InputSection: React.FC<InputSectionProps> = ({
             <p className="mt-2 text-xs text-gray-500 leading-relaxed">
               提示 (Tip): 您可以直接粘贴 Excel 列数据，或者使用上方按钮导入文件。系统将自动计算 1R。(Paste Excel column data or Import. 1R is auto-calculated.)
             </p>
+            <div className="mt-3 bg-gray-50 border border-gray-200 rounded-md p-3 space-y-2">
+              <label className="block text-xs font-semibold text-gray-600 uppercase">1R 定义 (R-Unit Definition)</label>
+              <div className="flex gap-2 items-center">
+                <select
+                  value={rUnitConfig.method}
+                  onChange={(e) => setRUnitConfig({ ...rUnitConfig, method: e.target.value as RUnitMethod })}
+                  className="flex-1 min-w-0 rounded-md border border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-xs py-1.5 pl-2 pr-8"
+                >
+                  {Object.values(RUnitMethod).map(m => (
+                    <option key={m} value={m}>{R_UNIT_METHOD_LABELS[m]}</option>
+                  ))}
+                </select>
+                {rUnitConfig.method === RUnitMethod.TRIMMED_MEAN_LOSS && (
+                  <div className="flex items-center gap-1" title="两端各截去的比例 (Trim from each tail)">
+                    <SmartNumberInput
+                      min={0}
+                      value={rUnitConfig.trimPercent}
+                      onChange={(val) => setRUnitConfig({ ...rUnitConfig, trimPercent: Math.min(49, Math.max(0, val)) })}
+                      className="w-14 rounded-md border border-gray-300 shadow-sm text-xs font-mono p-1.5"
+                    />
+                    <span className="text-xs text-gray-500">%</span>
+                  </div>
+                )}
+                {rUnitConfig.method === RUnitMethod.PERCENTILE_LOSS && (
+                  <div className="flex items-center gap-1" title="亏损绝对值的分位数 (Percentile of |loss|)">
+                    <span className="text-xs text-gray-500">P</span>
+                    <SmartNumberInput
+                      min={1}
+                      value={rUnitConfig.percentile}
+                      onChange={(val) => setRUnitConfig({ ...rUnitConfig, percentile: Math.min(99, Math.max(1, val)) })}
+                      className="w-14 rounded-md border border-gray-300 shadow-sm text-xs font-mono p-1.5"
+                    />
+                  </div>
+                )}
+                {rUnitConfig.method === RUnitMethod.FIXED_AMOUNT && (
+                  <div className="flex items-center gap-1">
+                    <span className="text-xs text-gray-500">$</span>
+                    <SmartNumberInput
+                      min={0}
+                      value={rUnitConfig.fixedAmount}
+                      onChange={(val) => setRUnitConfig({ ...rUnitConfig, fixedAmount: val })}
+                      className="w-20 rounded-md border border-gray-300 shadow-sm text-xs font-mono p-1.5"
+                    />
+                  </div>
+                )}
+              </div>
+            </div>
             <div className="mt-3">
               {pnlCount < 30 ? (
                 <div className="p-2.5 bg-amber-50 border border-amber-200 rounded-md text-amber-700 text-xs flex items-start gap-2 animate-in fade-in slide-in-from-top-1 duration-300">
@@ -627,19 +621,283 @@ export const InputSection: React.FC<InputSectionProps> = ({
           </div>
         </div>
 
-        <button
-          onClick={onRun}
-          disabled={isCalculating}
-          className="w-full flex items-center justify-center py-3 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
-        >
-          {isCalculating ? (
-            <span className="flex items-center">计算中 (Calculating)...</span>
-          ) : (
-            <>
-              <Play size={18} className="mr-2" /> 运行蒙特卡洛模拟 (Run)
-            </>
+        <div>
+          <label className="block text-xs font-semibold text-gray-600 uppercase mb-1">重采样方式 (Resampling)</label>
+          <div className="flex gap-2">
+            <select
+              value={simulationConfig.resampleMode}
+              onChange={(e) => setSimulationConfig({ ...simulationConfig, resampleMode: e.target.value as ResampleMode })}
+              className="flex-1 min-w-0 rounded-md border border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-xs py-1.5 pl-2 pr-8"
+            >
+              {Object.values(ResampleMode).map(m => (
+                <option key={m} value={m} disabled={mode === AppMode.FREQUENCY && isSequenceMode(m)}>
+                  {RESAMPLE_MODE_LABELS[m]}
+                </option>
+              ))}
+            </select>
+            {isSequenceMode(simulationConfig.resampleMode) && (
+              <div className="flex items-center gap-1" title={simulationConfig.resampleMode === ResampleMode.STATIONARY ? '平均块长度 (Mean Block Length)' : '块长度 (Block Length)'}>
+                <SmartNumberInput
+                  min={1}
+                  value={simulationConfig.blockLength}
+                  onChange={(val) => setSimulationConfig({ ...simulationConfig, blockLength: Math.max(1, Math.round(val)) })}
+                  className="w-14 rounded-md border border-gray-300 shadow-sm text-xs font-mono p-1.5"
+                />
+                <span className="text-[10px] text-gray-400">笔/块</span>
+              </div>
+            )}
+          </div>
+          {mode === AppMode.FREQUENCY && isSequenceMode(simulationConfig.resampleMode) && (
+            <p className="mt-1 text-[10px] text-amber-600 leading-tight">
+              块自助法需要真实交易顺序，仅适用于原始盈亏模式。(Block modes need a real trade sequence: Raw P&L only.)
+            </p>
           )}
-        </button>
+        </div>
+
+        <div>
+          <label className="block text-xs font-semibold text-gray-600 uppercase mb-1" title="佣金、滑点与费用 (单笔往返)。在计算任何统计量之前从每笔交易中扣除，结果页同时显示扣除前后的期望值与 SQN。">交易成本 (Trading Costs)</label>
+          <div className="flex gap-2">
+            <select
+              value={costConfig.method}
+              onChange={(e) => setCostConfig({ ...costConfig, method: e.target.value as CostMethod })}
+              className="flex-1 min-w-0 rounded-md border border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-xs py-1.5 pl-2 pr-8"
+            >
+              {Object.values(CostMethod).map(m => (
+                <option key={m} value={m} disabled={mode === AppMode.FREQUENCY && m === CostMethod.CURRENCY}>
+                  {COST_METHOD_LABELS[m]}
+                </option>
+              ))}
+            </select>
+            {costConfig.method === CostMethod.FIXED_R && (
+              <div className="flex items-center gap-1" title="每笔交易的成本 (R per trade)">
+                <SmartNumberInput
+                  min={0}
+                  step={0.01}
+                  value={costConfig.fixedR}
+                  onChange={(val) => setCostConfig({ ...costConfig, fixedR: Math.max(0, val) })}
+                  className="w-16 rounded-md border border-gray-300 shadow-sm text-xs font-mono p-1.5"
+                />
+                <span className="text-xs text-gray-500">R</span>
+              </div>
+            )}
+            {costConfig.method === CostMethod.RISK_PERCENT && (
+              <div className="flex items-center gap-1" title="占每笔初始风险 (1R) 的比例 (% of 1R per trade)">
+                <SmartNumberInput
+                  min={0}
+                  step={0.5}
+                  value={costConfig.riskPercent}
+                  onChange={(val) => setCostConfig({ ...costConfig, riskPercent: Math.max(0, val) })}
+                  className="w-16 rounded-md border border-gray-300 shadow-sm text-xs font-mono p-1.5"
+                />
+                <span className="text-xs text-gray-500">%</span>
+              </div>
+            )}
+            {costConfig.method === CostMethod.CURRENCY && (
+              <div className="flex items-center gap-1" title="每笔交易的成本金额，按该笔交易的 1R 换算 (Currency per trade)">
+                <span className="text-xs text-gray-500">$</span>
+                <SmartNumberInput
+                  min={0}
+                  value={costConfig.amount}
+                  onChange={(val) => setCostConfig({ ...costConfig, amount: Math.max(0, val) })}
+                  className="w-20 rounded-md border border-gray-300 shadow-sm text-xs font-mono p-1.5"
+                />
+              </div>
+            )}
+          </div>
+          {mode === AppMode.FREQUENCY && costConfig.method === CostMethod.CURRENCY && (
+            <p className="mt-1 text-[10px] text-amber-600 leading-tight">
+              频率分布以 R 为单位，无法换算金额成本。(Currency costs need Raw P&L or a trade log.)
+            </p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs font-semibold text-gray-600 uppercase mb-1" title="评级用 SQN 的样本量上限。100 即 Van Tharp 的 SQN100；超过上限的样本按上限计算。">SQN 样本上限 (Cap)</label>
+            <SmartNumberInput
+              min={10}
+              value={sqnConfig.cap}
+              onChange={(val) => setSqnConfig({ ...sqnConfig, cap: Math.max(10, Math.round(val)) })}
+              className="w-full rounded-md border border-gray-300 shadow-sm text-xs font-mono p-1.5"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-gray-600 uppercase mb-1" title="填写后额外显示年化 SQN = E/σ × √(年交易数)。留空则不计算。">年交易数 (Trades/Yr)</label>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={sqnConfig.tradesPerYear ?? ''}
+              onChange={(e) => {
+                const parsed = parseStrictNumber(e.target.value);
+                setSqnConfig({ ...sqnConfig, tradesPerYear: parsed !== null && parsed > 0 ? parsed : undefined });
+              }}
+              placeholder="可选 (Optional)"
+              className="w-full rounded-md border border-gray-300 shadow-sm text-xs font-mono p-1.5"
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-between items-center">
+          <label className="text-xs font-semibold text-gray-600 uppercase" title="回撤深度达到该值才计入“回撤次数”统计">回撤计数阈值 (DD Threshold)</label>
+          <div className="flex items-center gap-1">
+            <SmartNumberInput
+              min={0.1}
+              step={0.5}
+              value={simulationConfig.drawdownThreshold}
+              onChange={(val) => setSimulationConfig({ ...simulationConfig, drawdownThreshold: Math.max(0.1, val) })}
+              className="w-16 rounded-md border border-gray-300 shadow-sm text-xs font-mono p-1.5 text-right"
+            />
+            <span className="text-xs text-gray-500">R</span>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-xs font-semibold text-gray-600 uppercase mb-1" title="把每条模拟的交易序列套用到一个真实账户上：按所选仓位模型逐笔计算风险金额，得到以金额和百分比表示的权益、回撤与复合增长。">账户模拟 (Account Simulation)</label>
+          <div className="grid grid-cols-2 gap-3 mb-2">
+            <div>
+              <label className="block text-[10px] text-gray-500 mb-1">初始资金 (Starting Equity)</label>
+              <SmartNumberInput
+                min={1}
+                step={1000}
+                value={equityConfig.startingEquity}
+                onChange={(val) => setEquityConfig({ startingEquity: Math.max(1, val) })}
+                className="w-full rounded-md border border-gray-300 shadow-sm text-xs font-mono p-1.5"
+              />
+            </div>
+            <div>
+              <label className="block text-[10px] text-gray-500 mb-1" title="账户权益曾跌至该比例 (占初始资金) 即计入“跌破底线”的概率">账户底线 (Floor) %</label>
+              <SmartNumberInput
+                min={0}
+                step={5}
+                value={equityConfig.floorPercent}
+                onChange={(val) => setEquityConfig({ floorPercent: Math.min(99, Math.max(0, val)) })}
+                className="w-full rounded-md border border-gray-300 shadow-sm text-xs font-mono p-1.5"
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={equityConfig.riskMode}
+              onChange={(e) => setEquityConfig({ riskMode: e.target.value as RiskMode })}
+              className="flex-1 min-w-0 rounded-md border border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-xs py-1.5 pl-2 pr-8"
+              title={SIZING_MODELS[equityConfig.riskMode].description}
+            >
+              {Object.values(RiskMode).map(m => (
+                <option key={m} value={m}>{SIZING_MODELS[m].label}</option>
+              ))}
+            </select>
+            <div className="flex items-center gap-1" title={SIZING_MODELS[equityConfig.riskMode].sizeLabel}>
+              <SmartNumberInput
+                min={0.01}
+                step={0.25}
+                value={equityConfig.riskPercent}
+                onChange={(val) => setEquityConfig({ riskPercent: Math.max(0.01, val) })}
+                className="w-16 rounded-md border border-gray-300 shadow-sm text-xs font-mono p-1.5"
+              />
+              <span className="text-xs text-gray-500">%</span>
+            </div>
+          </div>
+          {SIZING_MODELS[equityConfig.riskMode].settings.length > 0 && (
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-2">
+              {SIZING_MODELS[equityConfig.riskMode].settings.map(setting => {
+                const value = equityConfig.sizingParams[setting.key];
+                return typeof value === 'boolean' ? (
+                  <label key={setting.key} className="flex items-center gap-1.5 text-[10px] text-gray-500 cursor-pointer select-none" title={setting.hint}>
+                    <input
+                      type="checkbox"
+                      checked={value}
+                      onChange={(e) => setEquitySizingParams({ [setting.key]: e.target.checked })}
+                      className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    {setting.label}
+                  </label>
+                ) : (
+                  <label key={setting.key} className="flex items-center gap-1 text-[10px] text-gray-500" title={setting.hint}>
+                    {setting.label}
+                    <SmartNumberInput
+                      min={setting.min}
+                      step={0.5}
+                      value={value}
+                      onChange={(val) => setEquitySizingParams({ [setting.key]: clampSizingSetting(setting, val) })}
+                      className="w-14 rounded-md border border-gray-300 shadow-sm text-xs font-mono p-1"
+                    />
+                    {setting.unit}
+                  </label>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <label
+          className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer select-none"
+          title={`保留每次模拟的最终 R、最大回撤、峰值、连胜/连败与回撤持续期，可在结果页下载 CSV / JSON。最多保留前 ${DEFAULT_MAX_RETAINED_SIMULATIONS.toLocaleString()} 次，不随工作区保存。`}
+        >
+          <input
+            type="checkbox"
+            checked={Boolean(simulationConfig.retainSimulations)}
+            onChange={(e) => setSimulationConfig({ ...simulationConfig, retainSimulations: e.target.checked })}
+            className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+          />
+          保留逐次模拟记录 (Keep per-sim records)
+        </label>
+
+        <div>
+          <div className="flex justify-between items-center mb-1">
+            <label className="text-xs font-semibold text-gray-600 uppercase">随机种子 (Seed)</label>
+            <span className="text-[10px] text-gray-400">
+              {simulationConfig.seed === undefined ? '每次随机 (Random each run)' : '已固定 (Pinned)'}
+            </span>
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              inputMode="numeric"
+              value={simulationConfig.seed ?? ''}
+              onChange={(e) => handleSeedChange(e.target.value)}
+              placeholder="留空 = 随机 (Empty = Random)"
+              className="flex-1 min-w-0 rounded-md border border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-xs font-mono p-1.5"
+            />
+            <button
+              onClick={() => setSimulationConfig({ ...simulationConfig, seed: generateSeed() })}
+              className="px-2 border border-gray-300 rounded text-gray-500 bg-white hover:text-indigo-600 hover:bg-gray-50 transition-colors"
+              title="生成新种子 (New Seed)"
+            >
+              <Dices size={14} />
+            </button>
+          </div>
+        </div>
+
+        {isCalculating ? (
+          <div className="flex gap-2">
+            <div className="relative flex-1 flex items-center justify-center py-3 px-4 rounded-md shadow-sm text-sm font-medium text-white bg-indigo-400 overflow-hidden">
+              <div className="absolute inset-y-0 left-0 bg-indigo-600 transition-all duration-200" style={{ width: `${progress}%` }}></div>
+              <span className="relative">计算中 (Calculating) {progress}%</span>
+            </div>
+            <button
+              onClick={onCancel}
+              className="flex items-center justify-center py-3 px-3 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 hover:text-red-600 transition-colors"
+              title="取消模拟 (Cancel)"
+            >
+              <X size={16} className="mr-1" /> 取消 (Cancel)
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={onRun}
+            className="w-full flex items-center justify-center py-3 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            <Play size={18} className="mr-2" /> 运行蒙特卡洛模拟 (Run)
+          </button>
+        )}
+        {!isCalculating && (
+          <button
+            onClick={onCompare}
+            className="w-full mt-2 flex items-center justify-center py-2 px-4 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50 hover:text-indigo-600 transition-colors"
+          >
+            <GitCompare size={14} className="mr-1.5" /> 多系统对比 (Compare Systems)
+          </button>
+        )}
       </div>
     </div>
   );
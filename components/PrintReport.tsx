@@ -0,0 +1,401 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { SimulationResults, SystemInputs, OptimalFConfig, OptimalFAnalysisResult, RiskAllocationState, ConfidenceLevel, ConfidenceInterval } from '../types';
+import { StatTable, HistogramChart, EquityCurvesChart, UnderwaterChart, formatMoney } from './Dashboard';
+import { describeRUnitConfig, CONFIDENCE_LEVELS } from '../utils/calculations';
+import { describeCostConfig } from '../utils/tradeCosts';
+import { SIZING_MODELS } from '../utils/sizingModels';
+import { describeRiskSweep, resolveRiskSweep } from '../utils/riskSweep';
+import { describeEquitySimulationConfig, resolveEquitySimulationConfig } from '../utils/equitySimulation';
+import { describeSystemInputs } from '../utils/systemInputs';
+import { RESAMPLE_MODE_LABELS, isSequenceMode } from '../utils/resampling';
+import { calculateHeatRecommendation, calculateRiskAllocations } from '../utils/positionSizing';
+
+// --- Printable Report ---
+// A multi-page A4 report rendered off screen and sent to the browser's print dialog, where
+// "Save as PDF" keeps the text selectable and the charts as vectors. The print styles in
+// index.html hide the app and show only this report while printing.
+
+interface PrintReportProps {
+    workspaceName: string;
+    inputs: SystemInputs;
+    results: SimulationResults;
+    optimalFConfig: OptimalFConfig;
+    optimalFResult: OptimalFAnalysisResult | null;
+    riskAllocation: RiskAllocationState;
+    onDone: () => void;
+}
+
+// Give the charts time to measure their containers before the print dialog snapshots the page
+const PRINT_DELAY_MS = 300;
+
+const sqnGrade = (sqn: number): string => {
+    if (sqn <= 0) return '不合格 (Warn)';
+    if (sqn < 1) return '很一般 (Poor)';
+    if (sqn < 2) return '一般 (Avg)';
+    if (sqn < 3) return '优秀 (Good)';
+    if (sqn < 5) return '卓越 (Excellent)';
+    return '超级系统 (Super)';
+};
+
+const formatGain = (val: number) => (val > 10000000000 ? '> 10^10%' : `${val > 0 ? '+' : ''}${val.toFixed(1)}%`);
+const formatInterval = (interval: ConfidenceInterval, format: (v: number) => string) => `${format(interval.lower)} ~ ${format(interval.upper)}`;
+
+const Page: React.FC<{ title?: string; children: React.ReactNode }> = ({ title, children }) => (
+    <section className="report-page space-y-5">
+        {title && <h2 className="text-lg font-bold text-gray-800 border-b border-gray-200 pb-2">{title}</h2>}
+        {children}
+    </section>
+);
+
+const KeyValueTable: React.FC<{ rows: [string, React.ReactNode][] }> = ({ rows }) => (
+    <table className="w-full text-sm border border-gray-200">
+        <tbody>
+            {rows.map(([label, value]) => (
+                <tr key={label} className="border-t border-gray-100">
+                    <td className="px-3 py-1.5 text-gray-500 w-1/2">{label}</td>
+                    <td className="px-3 py-1.5 text-right font-mono text-gray-800">{value}</td>
+                </tr>
+            ))}
+        </tbody>
+    </table>
+);
+
+export const PrintReport: React.FC<PrintReportProps> = ({ workspaceName, inputs, results, optimalFConfig, optimalFResult, riskAllocation, onDone }) => {
+    const { systemMetrics, riskMetrics, charts, stats, simulationConfig, equityCurves, equityPercentiles, underwaterPercentiles, equity } = results;
+    const [generatedAt] = useState(() => new Date());
+
+    useEffect(() => {
+        const originalTitle = document.title;
+        // The title becomes the default file name in "Save as PDF"
+        document.title = `van-tharp-report-${generatedAt.toISOString().slice(0, 10)}`;
+        const handleAfterPrint = () => {
+            document.title = originalTitle;
+            onDone();
+        };
+        window.addEventListener('afterprint', handleAfterPrint);
+        const timer = setTimeout(() => window.print(), PRINT_DELAY_MS);
+        return () => {
+            clearTimeout(timer);
+            window.removeEventListener('afterprint', handleAfterPrint);
+            document.title = originalTitle;
+        };
+    }, []);
+
+    const heat = calculateHeatRecommendation(systemMetrics);
+    const allocations = riskAllocation.step === 3 ? calculateRiskAllocations(heat.finalHeat, riskAllocation) : [];
+    const bootstrap = systemMetrics.bootstrap;
+    const formatR = (v: number) => `${v.toFixed(2)}R`;
+    const formatPercent = (v: number) => `${(v * 100).toFixed(1)}%`;
+    const formatFactor = (v: number) => (v >= 999 ? '∞' : v.toFixed(2));
+
+    const inputRows: [string, React.ReactNode][] = [
+        ['输入 (Inputs)', describeSystemInputs(inputs)],
+        ['基础样本 N (Base Sample N)', systemMetrics.sampleSize],
+        ['SQN 上限 (SQN Cap)', systemMetrics.sqnCap],
+    ];
+    if (systemMetrics.rUnitSize) {
+        inputRows.push([
+            `1R 单位 (${systemMetrics.rUnitConfig ? describeRUnitConfig(systemMetrics.rUnitConfig) : '自动 (Auto)'})`,
+            `$${systemMetrics.rUnitSize.toFixed(2)}`
+        ]);
+    }
+    if (systemMetrics.avgInitialRisk) {
+        inputRows.push(['平均初始风险 (Avg Initial Risk)', `$${systemMetrics.avgInitialRisk.toFixed(2)}`]);
+    }
+    if (systemMetrics.costs) {
+        inputRows.push([
+            `交易成本 (${describeCostConfig(systemMetrics.costs.costConfig)})`,
+            `${systemMetrics.costs.avgCostR.toFixed(3)}R / 笔 (per trade)`
+        ]);
+    }
+
+    const configRows: [string, React.ReactNode][] = [
+        ['总模拟轮数 (Total Sims)', simulationConfig.totalSimulations.toLocaleString()],
+        ['每轮模拟交易次数 (Trades/Sim)', simulationConfig.tradesPerSimulation],
+        [
+            '重采样 (Resampling)',
+            `${RESAMPLE_MODE_LABELS[simulationConfig.resampleMode]}${isSequenceMode(simulationConfig.resampleMode) ? ` · L=${simulationConfig.blockLength}` : ''}`
+        ],
+        ['回撤计数阈值 (Drawdown Threshold)', `${simulationConfig.drawdownThreshold}R`],
+        ['随机种子 (Seed)', simulationConfig.seed ?? '—'],
+        ['账户模拟 (Account)', describeEquitySimulationConfig(resolveEquitySimulationConfig(simulationConfig))],
+    ];
+
+    const metricRows: [string, React.ReactNode][] = [
+        [`SQN${systemMetrics.sqnCap} 评分 (Score)`, `${systemMetrics.sqn.toFixed(2)} · ${sqnGrade(systemMetrics.sqn)}`],
+        ['原始 SQN (Raw)', systemMetrics.sqnRaw.toFixed(2)],
+        ...(systemMetrics.sqnAnnual !== undefined ? [['年化 SQN (Annual)', systemMetrics.sqnAnnual.toFixed(2)] as [string, React.ReactNode]] : []),
+        ['期望值 (Expectancy)', formatR(systemMetrics.expectancy)],
+        ['标准差 (Std Dev)', formatR(systemMetrics.standardDeviation)],
+        ['胜率 (Win Rate)', formatPercent(systemMetrics.winRate)],
+        ['盈亏比 (Profit Factor)', formatFactor(systemMetrics.profitFactor)],
+        ['最差单笔 (Worst Trade)', formatR(systemMetrics.worstR)],
+    ];
+    // With costs the figures above are net; the gross ones follow for comparison
+    if (systemMetrics.costs) {
+        const { gross } = systemMetrics.costs;
+        metricRows.push(
+            [`毛 SQN${systemMetrics.sqnCap} (Gross, before costs)`, gross.sqn.toFixed(2)],
+            ['毛期望值 (Gross Expectancy)', formatR(gross.expectancy)],
+            ['毛胜率 (Gross Win Rate)', formatPercent(gross.winRate)],
+        );
+    }
+
+    const riskRows: [string, React.ReactNode][] = [
+        ['盈利概率 (Prob. of Profit)', `${riskMetrics.probabilityOfProfit.toFixed(1)}%`],
+        ['回报风险比 (Reward/Risk)', riskMetrics.rewardRiskRatio.toFixed(2)],
+        ['95% 回撤持续期 (P95 DD Duration)', `${riskMetrics.p95DrawdownDuration} 笔 (trades)`],
+        ['未恢复比例 (Unrecovered)', `${riskMetrics.unrecoveredRate.toFixed(1)}%`],
+    ];
+
+    return createPortal(
+        <div className="print-report bg-white text-gray-900">
+            {/* Cover */}
+            <Page>
+                <div className="pt-16 pb-8 space-y-2">
+                    <p className="text-sm font-semibold text-indigo-600 uppercase tracking-wide">Van Tharp Position Sizing Analyzer</p>
+                    <h1 className="text-3xl font-extrabold text-gray-900">系统分析报告 (System Analysis Report)</h1>
+                    <p className="text-base text-gray-600">{workspaceName}</p>
+                    <p className="text-xs text-gray-400">生成时间 (Generated): {generatedAt.toLocaleString()}</p>
+                </div>
+                <div className="flex items-baseline gap-4 p-4 rounded-lg border border-gray-200 bg-gray-50">
+                    <span className="text-sm text-gray-500">SQN{systemMetrics.sqnCap}</span>
+                    <span className="text-4xl font-extrabold text-indigo-600">{systemMetrics.sqn.toFixed(2)}</span>
+                    <span className="text-sm font-semibold text-gray-700">{sqnGrade(systemMetrics.sqn)}</span>
+                    <span className="ml-auto text-sm text-gray-500">
+                        期望值 (E) <span className="font-mono font-semibold text-gray-800">{formatR(systemMetrics.expectancy)}</span>
+                    </span>
+                </div>
+                <div>
+                    <h3 className="text-sm font-bold text-gray-700 mb-2">输入 (Inputs)</h3>
+                    <KeyValueTable rows={inputRows} />
+                </div>
+                <div>
+                    <h3 className="text-sm font-bold text-gray-700 mb-2">模拟配置 (Simulation Config)</h3>
+                    <KeyValueTable rows={configRows} />
+                </div>
+            </Page>
+
+            {/* System Metrics */}
+            <Page title="系统指标 (System Metrics)">
+                <KeyValueTable rows={metricRows} />
+                {bootstrap && (
+                    <div>
+                        <h3 className="text-sm font-bold text-gray-700 mb-2">
+                            置信区间 (Confidence Intervals)
+                            <span className="font-normal text-xs text-gray-500 ml-2">基于 {bootstrap.resamples} 次有放回重采样 (Percentile bootstrap)</span>
+                        </h3>
+                        <table className="w-full text-sm border border-gray-200">
+                            <thead>
+                                <tr className="bg-gray-50 text-xs text-gray-500">
+                                    <th className="px-3 py-1.5 text-left font-semibold">指标 (Metric)</th>
+                                    {CONFIDENCE_LEVELS.map((level: ConfidenceLevel) => (
+                                        <th key={level} className="px-3 py-1.5 text-right font-semibold">{level}%</th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {([
+                                    ['期望值 (Expectancy)', bootstrap.expectancy, formatR],
+                                    ['胜率 (Win Rate)', bootstrap.winRate, formatPercent],
+                                    ['盈亏比 (Profit Factor)', bootstrap.profitFactor, formatFactor],
+                                    [`SQN${systemMetrics.sqnCap}`, bootstrap.sqn, (v: number) => v.toFixed(2)],
+                                ] as [string, Record<ConfidenceLevel, ConfidenceInterval>, (v: number) => string][]).map(([label, intervals, format]) => (
+                                    <tr key={label} className="border-t border-gray-100">
+                                        <td className="px-3 py-1.5 text-gray-500">{label}</td>
+                                        {CONFIDENCE_LEVELS.map((level: ConfidenceLevel) => (
+                                            <td key={level} className="px-3 py-1.5 text-right font-mono text-gray-800">{formatInterval(intervals[level], format)}</td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <p className="text-xs text-gray-500 mt-1">
+                            期望值为正的概率 (P(E &gt; 0)): <span className="font-mono font-semibold">{formatPercent(bootstrap.probPositiveExpectancy)}</span>
+                        </p>
+                    </div>
+                )}
+                <div>
+                    <h3 className="text-sm font-bold text-gray-700 mb-2">风险指标 (Risk Metrics)</h3>
+                    <KeyValueTable rows={riskRows} />
+                </div>
+            </Page>
+
+            {/* Equity curves */}
+            <Page title="权益曲线 (Equity Curves)">
+                <EquityCurvesChart curves={equityCurves || []} percentiles={equityPercentiles} />
+                <UnderwaterChart percentiles={underwaterPercentiles} />
+            </Page>
+
+            {/* Drawdown & Recovery */}
+            <Page title="回撤与恢复 (Drawdown & Recovery)">
+                <div className="grid grid-cols-2 gap-4">
+                    <div className="report-block space-y-2">
+                        <HistogramChart animate={false} data={charts.maxDrawdown} title="最大回撤 (Max Drawdown)" color="#ef4444" xLabel="回撤深度 (Drawdown R)" />
+                        <StatTable stats={stats.maxDrawdown} title="回撤统计 (Stats)" color="bg-red-500" />
+                    </div>
+                    <div className="report-block space-y-2">
+                        <HistogramChart animate={false} data={charts.recoveryTime} title="最大回撤恢复时间 (Max DD Recovery)" color="#f97316" xLabel="谷底至新高的交易笔数 (Trades Trough → New High)" />
+                        <StatTable stats={stats.recoveryTime} title="恢复时间统计 (Stats)" color="bg-orange-500" />
+                    </div>
+                    <div className="report-block space-y-2">
+                        <HistogramChart animate={false} data={charts.drawdownCount} title={`回撤次数 ≥ ${simulationConfig.drawdownThreshold}R (Drawdowns ≥ ${simulationConfig.drawdownThreshold}R)`} color="#e11d48" xLabel="独立回撤次数 (Distinct Drawdowns)" />
+                        <StatTable stats={stats.drawdownCount} title="回撤次数统计 (Stats)" color="bg-rose-600" />
+                    </div>
+                    <div className="report-block space-y-2">
+                        <HistogramChart animate={false} data={charts.avgDrawdownDepth} title="平均回撤深度 (Avg Drawdown Depth)" color="#b91c1c" xLabel="每轮平均回撤 (Mean Depth R)" />
+                        <StatTable stats={stats.avgDrawdownDepth} title="平均深度统计 (Stats)" color="bg-red-700" />
+                    </div>
+                </div>
+                <p className="text-xs text-gray-500">
+                    * 恢复时间仅统计已恢复的模拟；{riskMetrics.unrecoveredRate.toFixed(1)}% 的模拟在结束时仍未收复最大回撤前的高点。
+                    (Recovery time counts recovered sims only; {riskMetrics.unrecoveredRate.toFixed(1)}% end still below the peak before their max drawdown.)
+                </p>
+            </Page>
+
+            {/* Account simulation */}
+            {equity && (
+                <Page title="账户模拟 (Account Simulation)">
+                    <KeyValueTable rows={[
+                        ['最终权益中位数 (Median Final Equity)', `${formatMoney(equity.stats.finalEquity.median)} (${formatGain(equity.stats.returnPct.median)})`],
+                        ['最终权益 5% ~ 95% (Final Equity P5-P95)', `${formatMoney(equity.stats.finalEquity.p5)} ~ ${formatMoney(equity.stats.finalEquity.p95)}`],
+                        [`跌破底线概率 (P(Below ${formatMoney(equity.floorEquity)}))`, `${equity.probBelowFloor.toFixed(1)}%`],
+                        ['亏损概率 (P(Loss))', `${equity.probLoss.toFixed(1)}%`],
+                        ['最大回撤 % 中位数 / P95 (Max DD % Median / P95)', `${equity.stats.maxDrawdownPct.median.toFixed(1)}% / ${equity.stats.maxDrawdownPct.p95.toFixed(1)}%`],
+                        ['每笔复合增长中位数 (Median Growth / Trade)', `${equity.stats.growthPerTrade.median.toFixed(3)}%`],
+                    ]} />
+                    <EquityCurvesChart curves={[]} percentiles={equity.equityPercentiles} unit="$" baseline={equity.startingEquity} />
+                    <UnderwaterChart percentiles={equity.underwaterPercentiles} unit="%" />
+                </Page>
+            )}
+
+            {/* Distributions */}
+            <Page title="蒙特卡洛分布直方图 (Monte Carlo Distributions)">
+                <div className="grid grid-cols-2 gap-4">
+                    <div className="report-block space-y-2">
+                        <HistogramChart animate={false} data={charts.finalResult} title="最终权益 (Final Equity)" color="#4f46e5" xLabel="权益 (Equity R)" />
+                        <StatTable stats={stats.finalResult} title="最终结果统计 (Stats)" color="bg-indigo-500" />
+                    </div>
+                    <div className="report-block space-y-2">
+                        <HistogramChart animate={false} data={charts.maxProfit} title="最高权益峰值 (Max Peak)" color="#10b981" xLabel="峰值 (Peak R)" />
+                        <StatTable stats={stats.maxProfit} title="峰值统计 (Stats)" color="bg-green-500" />
+                    </div>
+                    <div className="report-block space-y-2">
+                        <HistogramChart animate={false} data={charts.consecLosses} title="最大连败 (Max Consec. Losses)" color="#f59e0b" xLabel="连续亏损次数 (Streak Count)" />
+                        <StatTable stats={stats.consecLosses} title="连败统计 (Stats)" color="bg-amber-500" />
+                    </div>
+                    <div className="report-block space-y-2">
+                        <HistogramChart animate={false} data={charts.consecWins} title="最大连胜 (Max Consec. Wins)" color="#06b6d4" xLabel="连续盈利次数 (Streak Count)" />
+                        <StatTable stats={stats.consecWins} title="连胜统计 (Stats)" color="bg-cyan-500" />
+                    </div>
+                </div>
+            </Page>
+
+            {/* Position sizing */}
+            <Page title="头寸与风险管理 (Position Sizing)">
+                <div>
+                    <h3 className="text-sm font-bold text-gray-700 mb-2">推荐总风险 (Recommended Heat)</h3>
+                    <KeyValueTable rows={[
+                        ['推荐总风险 (Recommended Heat)', `${heat.finalHeat.toFixed(1)}%`],
+                        ['SQN 建议值 (SQN Heat)', `${heat.sqnHeat.toFixed(1)}%`],
+                        ['最差单笔约束 (Worst-Trade Limit)', heat.constraintHeat >= 100 ? '>100%' : `${heat.constraintHeat.toFixed(1)}%`],
+                    ]} />
+                    {heat.isConstrained && (
+                        <p className="text-xs text-amber-700 mt-1">
+                            * 风控触发: 历史最大单笔亏损 ({heat.worstR}R) 导致 SQN 建议值过于激进，已自动下调。
+                            (Capped by the worst single trade.)
+                        </p>
+                    )}
+                </div>
+
+                <div className="report-block">
+                    <h3 className="text-sm font-bold text-gray-700 mb-2">风险贡献分配 (Risk Contribution Allocation)</h3>
+                    {allocations.length > 0 ? (
+                        <>
+                            <table className="w-full text-sm border border-gray-200">
+                                <thead>
+                                    <tr className="bg-gray-50 text-xs text-gray-500">
+                                        <th className="px-3 py-1.5 text-left font-semibold">品种 (Asset)</th>
+                                        <th className="px-3 py-1.5 text-right font-semibold">风险 (Risk %)</th>
+                                        <th className="px-3 py-1.5 text-right font-semibold">限制源 (Constraint)</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {allocations.map((res, idx) => (
+                                        <tr key={idx} className="border-t border-gray-100">
+                                            <td className="px-3 py-1.5 text-gray-700">{res.name}</td>
+                                            <td className="px-3 py-1.5 text-right font-mono text-gray-800">{res.finalRisk.toFixed(2)}%</td>
+                                            <td className="px-3 py-1.5 text-right text-xs text-gray-500">{res.constraint !== 'None' ? res.constraint : '-'}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            <p className="text-xs text-gray-500 mt-1">
+                                单笔上限 (Single Cap): {riskAllocation.maxSingleRisk}% · 名义合计 (Allocated, Nominal): {allocations.reduce((a, b) => a + b.finalRisk, 0).toFixed(1)}%
+                                {riskAllocation.allowOverAllocation && ' · 允许对冲溢出 (Hedge over-allocation allowed)'}
+                            </p>
+                        </>
+                    ) : (
+                        <p className="text-xs text-gray-400 italic">尚未计算分配 (No allocation calculated yet).</p>
+                    )}
+                </div>
+
+                <div className="report-block">
+                    <h3 className="text-sm font-bold text-gray-700 mb-2">最佳头寸规模 (Optimal Position Sizing)</h3>
+                    {optimalFResult ? (
+                        <>
+                            <p className="text-xs text-gray-500 mb-2">
+                                {SIZING_MODELS[optimalFResult.riskMode].label}
+                                {' · '}成功 (Success) +{optimalFConfig.successThreshold}% · 失败 (Failure) {optimalFConfig.failureThreshold}%
+                                {' · '}{optimalFConfig.totalSims.toLocaleString()} × {optimalFConfig.tradesPerSim} 笔 (trades)
+                                {' · '}{describeRiskSweep(resolveRiskSweep(optimalFResult))}
+                                {optimalFResult.commonRandomNumbers && ' · 共同随机数 (Common Random Numbers)'}
+                                {' · '}种子 (Seed) {optimalFResult.seed}
+                            </p>
+                            <table className="w-full text-sm border border-gray-200">
+                                <thead>
+                                    <tr className="bg-gray-50 text-xs text-gray-500">
+                                        <th className="px-3 py-1.5 text-left font-semibold">目标 (Objective)</th>
+                                        <th className="px-3 py-1.5 text-right font-semibold">{SIZING_MODELS[optimalFResult.riskMode].sizeLabel}</th>
+                                        <th className="px-3 py-1.5 text-right font-semibold">成功概率 (Prob Success)</th>
+                                        <th className="px-3 py-1.5 text-right font-semibold">失败概率 (Prob Ruin)</th>
+                                        <th className="px-3 py-1.5 text-right font-semibold">平均收益 (Avg Gain)</th>
+                                        <th className="px-3 py-1.5 text-right font-semibold">中位数收益 (Median Gain)</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {optimalFResult.bestRows.map((row, idx) => (
+                                        <tr key={idx} className="border-t border-gray-100">
+                                            <td className="px-3 py-1.5 text-gray-700">{row.approach}</td>
+                                            <td className="px-3 py-1.5 text-right font-mono font-semibold text-indigo-700">{row.optimalRisk.toFixed(1)}%</td>
+                                            <td className="px-3 py-1.5 text-right font-mono">{row.probSuccess.toFixed(2)}%</td>
+                                            <td className="px-3 py-1.5 text-right font-mono">{row.probRuin.toFixed(2)}%</td>
+                                            <td className="px-3 py-1.5 text-right font-mono">{formatGain(row.avgGain)}</td>
+                                            <td className="px-3 py-1.5 text-right font-mono">{formatGain(row.medianGain)}</td>
+                                        </tr>
+                                    ))}
+                                    {optimalFResult.analyticRows?.map((row, idx) => (
+                                        <tr key={`analytic-${idx}`} className={`border-t border-gray-100${idx === 0 ? ' border-t-gray-300' : ''}`}>
+                                            <td className="px-3 py-1.5 text-gray-700">{row.approach}</td>
+                                            <td className="px-3 py-1.5 text-right font-mono font-semibold text-amber-700">{row.optimalRisk.toFixed(2)}%</td>
+                                            <td className="px-3 py-1.5 text-right font-mono">{row.probSuccess.toFixed(2)}%</td>
+                                            <td className="px-3 py-1.5 text-right font-mono">{row.probRuin.toFixed(2)}%</td>
+                                            <td className="px-3 py-1.5 text-right font-mono">{formatGain(row.avgGain)}</td>
+                                            <td className="px-3 py-1.5 text-right font-mono">{formatGain(row.medianGain)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </>
+                    ) : (
+                        <p className="text-xs text-gray-400 italic">尚未运行最佳头寸分析 (Optimal f analysis not run yet).</p>
+                    )}
+                </div>
+
+                <p className="text-[10px] text-gray-400 pt-4">Van Tharp Position Sizing Analyzer · {generatedAt.toLocaleString()}</p>
+            </Page>
+        </div>,
+        document.body
+    );
+};
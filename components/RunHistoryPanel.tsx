@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { RunHistoryEntry } from '../types';
+import { History, Pin, PinOff, Edit2, Trash2, RotateCcw, X, GitCompare } from 'lucide-react';
+import { COMPARISON_METRICS, findWinners } from '../utils/comparison';
+import { RESAMPLE_MODE_LABELS } from '../utils/resampling';
+import { describeCostConfig, DEFAULT_COST_CONFIG } from '../utils/tradeCosts';
+import { describeEquitySimulationConfig, resolveEquitySimulationConfig } from '../utils/equitySimulation';
+
+interface RunHistoryPanelProps {
+    entries: RunHistoryEntry[];
+    onReopen: (id: string) => void;
+    onTogglePin: (id: string) => void;
+    onRename: (id: string, name: string) => void;
+    onDelete: (id: string) => void;
+    onClose: () => void;
+}
+
+// Settings rows shown above the metrics in the diff, so it is clear what changed between runs
+const SETTING_ROWS: { label: string; get: (e: RunHistoryEntry) => string }[] = [
+    { label: '输入 (Inputs)', get: e => e.summary },
+    { label: '模拟次数 (Sims)', get: e => e.inputs.simulationConfig.totalSimulations.toLocaleString() },
+    { label: '每次交易数 (Trades/Sim)', get: e => String(e.inputs.simulationConfig.tradesPerSimulation) },
+    { label: '重采样 (Resampling)', get: e => RESAMPLE_MODE_LABELS[e.inputs.simulationConfig.resampleMode] },
+    { label: '种子 (Seed)', get: e => String(e.inputs.simulationConfig.seed) },
+    { label: 'SQN 上限 (Cap)', get: e => String(e.inputs.sqnConfig.cap) },
+    { label: '交易成本 (Costs)', get: e => describeCostConfig(e.inputs.costConfig ?? DEFAULT_COST_CONFIG) },
+    { label: '账户模拟 (Account)', get: e => describeEquitySimulationConfig(resolveEquitySimulationConfig(e.inputs.simulationConfig)) },
+];
+
+const RunDiff: React.FC<{ runs: [RunHistoryEntry, RunHistoryEntry] }> = ({ runs }) => {
+    const [a, b] = runs;
+    return (
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+            <table className="w-full text-xs">
+                <thead>
+                    <tr className="bg-gray-50 border-b border-gray-200">
+                        <th className="text-left px-3 py-2 font-semibold text-gray-500">指标 (Metric)</th>
+                        <th className="text-right px-3 py-2 font-semibold text-indigo-600 truncate max-w-[120px]">{a.name}</th>
+                        <th className="text-right px-3 py-2 font-semibold text-amber-600 truncate max-w-[120px]">{b.name}</th>
+                        <th className="text-right px-3 py-2 font-semibold text-gray-500">Δ</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {SETTING_ROWS.map(row => {
+                        const va = row.get(a);
+                        const vb = row.get(b);
+                        return (
+                            <tr key={row.label} className="border-t border-gray-100">
+                                <td className="px-3 py-1 text-gray-500">{row.label}</td>
+                                <td className={`px-3 py-1 text-right ${va !== vb ? 'text-gray-900 font-medium' : 'text-gray-400'}`}>{va}</td>
+                                <td className={`px-3 py-1 text-right ${va !== vb ? 'text-gray-900 font-medium' : 'text-gray-400'}`}>{vb}</td>
+                                <td className="px-3 py-1 text-right text-gray-400">{va !== vb ? '≠' : ''}</td>
+                            </tr>
+                        );
+                    })}
+                    {COMPARISON_METRICS.map(metric => {
+                        const values = [a.metrics[metric.key], b.metrics[metric.key]];
+                        const winners = findWinners(values, metric.direction);
+                        const [va, vb] = values;
+                        const hasBoth = Number.isFinite(va) && Number.isFinite(vb);
+                        return (
+                            <tr key={metric.key} className="border-t border-gray-100">
+                                <td className="px-3 py-1 text-gray-600">{metric.label}</td>
+                                {values.map((v, i) => (
+                                    <td key={i} className={`px-3 py-1 text-right font-mono ${winners.includes(i) ? 'bg-emerald-50 text-emerald-700 font-semibold' : 'text-gray-700'}`}>
+                                        {Number.isFinite(v) ? metric.format(v) : '—'}
+                                    </td>
+                                ))}
+                                <td className="px-3 py-1 text-right font-mono text-gray-500">
+                                    {hasBoth && va !== vb ? `${vb > va ? '+' : ''}${metric.format(vb - va)}` : ''}
+                                </td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+export const RunHistoryPanel: React.FC<RunHistoryPanelProps> = ({ entries, onReopen, onTogglePin, onRename, onDelete, onClose }) => {
+    const [selected, setSelected] = useState<string[]>([]);
+    // Pinned runs first, then newest first
+    const sorted = [...entries].sort((x, y) => Number(y.pinned) - Number(x.pinned) || y.createdAt - x.createdAt);
+    const diffRuns = selected
+        .map(id => entries.find(e => e.id === id))
+        .filter((e): e is RunHistoryEntry => e !== undefined);
+
+    // Selecting a third run replaces the older selection
+    const toggleSelected = (id: string) => {
+        setSelected(selected.includes(id) ? selected.filter(s => s !== id) : [...selected, id].slice(-2));
+    };
+
+    const handleRename = (entry: RunHistoryEntry) => {
+        const name = window.prompt('重命名运行记录 (Rename run):', entry.name);
+        if (name && name.trim()) onRename(entry.id, name.trim());
+    };
+
+    const handleDelete = (entry: RunHistoryEntry) => {
+        if (window.confirm(`确定删除 "${entry.name}"？\nDelete "${entry.name}"?`)) {
+            setSelected(selected.filter(s => s !== entry.id));
+            onDelete(entry.id);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 bg-gray-900/40 flex justify-end" onClick={onClose}>
+            <div className="bg-white h-full w-full max-w-2xl shadow-xl flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+                    <h2 className="text-base font-bold text-gray-800 flex items-center gap-2">
+                        <History size={18} className="text-indigo-600" />
+                        运行历史 (Run History)
+                        <span className="text-xs font-normal text-gray-400">{entries.length}</span>
+                    </h2>
+                    <button onClick={onClose} className="p-1 rounded text-gray-400 hover:text-gray-600 hover:bg-gray-100">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+                    {sorted.length === 0 ? (
+                        <p className="text-sm text-gray-400 text-center py-12">
+                            暂无运行记录。每次点击“运行”都会记录在这里。
+                            <br />
+                            No runs yet. Every run is recorded here.
+                        </p>
+                    ) : (
+                        <>
+                            <p className="text-xs text-gray-500">
+                                勾选两条记录以对比关键指标。(Tick two runs to diff their key metrics.)
+                            </p>
+                            <div className="space-y-2">
+                                {sorted.map(entry => (
+                                    <div
+                                        key={entry.id}
+                                        className={`flex items-start gap-3 p-3 rounded-lg border transition-colors ${selected.includes(entry.id) ? 'border-indigo-300 bg-indigo-50/50' : 'border-gray-200'}`}
+                                    >
+                                        <input
+                                            type="checkbox"
+                                            checked={selected.includes(entry.id)}
+                                            onChange={() => toggleSelected(entry.id)}
+                                            className="mt-1 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                                        />
+                                        <div className="flex-1 min-w-0">
+                                            <div className="flex items-center gap-2">
+                                                {entry.pinned && <Pin size={12} className="text-indigo-500 flex-shrink-0" />}
+                                                <span className="text-sm font-medium text-gray-800 truncate">{entry.name}</span>
+                                                <span className="text-[11px] text-gray-400 flex-shrink-0">{new Date(entry.createdAt).toLocaleString()}</span>
+                                            </div>
+                                            <p className="text-[11px] text-gray-500 truncate">{entry.summary}</p>
+                                            <p className="text-xs text-gray-500 mt-0.5">
+                                                SQN <span className="font-mono font-semibold text-gray-700">{entry.metrics.sqn?.toFixed(2)}</span>
+                                                {' · '}E <span className="font-mono font-semibold text-gray-700">{entry.metrics.expectancy?.toFixed(3)}R</span>
+                                                {!entry.results && <span className="ml-2 text-gray-400 italic">仅保留指标 (metrics only)</span>}
+                                            </p>
+                                        </div>
+                                        <div className="flex items-center gap-0.5 flex-shrink-0">
+                                            <button
+                                                onClick={() => onReopen(entry.id)}
+                                                className="p-1.5 rounded text-gray-400 hover:text-indigo-600 hover:bg-gray-100"
+                                                title={entry.results ? '重新打开 (Reopen)' : '恢复输入并以相同种子重新运行 (Restore inputs and re-run with the same seed)'}
+                                            >
+                                                <RotateCcw size={14} />
+                                            </button>
+                                            <button
+                                                onClick={() => onTogglePin(entry.id)}
+                                                className="p-1.5 rounded text-gray-400 hover:text-indigo-600 hover:bg-gray-100"
+                                                title={entry.pinned ? '取消固定 (Unpin)' : '固定 (Pin)'}
+                                            >
+                                                {entry.pinned ? <PinOff size={14} /> : <Pin size={14} />}
+                                            </button>
+                                            <button
+                                                onClick={() => handleRename(entry)}
+                                                className="p-1.5 rounded text-gray-400 hover:text-indigo-600 hover:bg-gray-100"
+                                                title="重命名 (Rename)"
+                                            >
+                                                <Edit2 size={14} />
+                                            </button>
+                                            <button
+                                                onClick={() => handleDelete(entry)}
+                                                className="p-1.5 rounded text-gray-400 hover:text-red-600 hover:bg-gray-100"
+                                                title="删除 (Delete)"
+                                            >
+                                                <Trash2 size={14} />
+                                            </button>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </>
+                    )}
+
+                    {diffRuns.length === 2 && (
+                        <div>
+                            <h3 className="text-sm font-bold text-gray-700 mb-2 flex items-center gap-2">
+                                <GitCompare size={16} className="text-indigo-500" />
+                                对比 (Diff)
+                            </h3>
+                            <RunDiff runs={[diffRuns[0], diffRuns[1]]} />
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
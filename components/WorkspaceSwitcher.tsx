@@ -0,0 +1,129 @@
+import React, { useRef } from 'react';
+import { FolderOpen, Plus, Edit2, Trash2, Download, Upload, Link2, History } from 'lucide-react';
+import { WorkspaceInfo } from '../types';
+
+interface WorkspaceSwitcherProps {
+  workspaces: WorkspaceInfo[];
+  activeId: string;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onSaveProject: () => void;
+  onOpenProject: (text: string, fileName: string) => void;
+  onShareLink: () => void;
+  onOpenHistory: () => void;
+  historyCount: number;
+}
+
+// Compact bar above the input panel: one workspace per trading system, autosaved locally
+export const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({ workspaces, activeId, onSwitch, onCreate, onRename, onDelete, onSaveProject, onOpenProject, onShareLink, onOpenHistory, historyCount }) => {
+  const active = workspaces.find(w => w.id === activeId);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleOpenFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (evt) => {
+      const text = evt.target?.result;
+      if (typeof text === 'string') onOpenProject(text, file.name);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    };
+    reader.readAsText(file);
+  };
+
+  const handleCreate = () => {
+    const name = window.prompt('新工作区名称 (New workspace name):', `系统 ${workspaces.length + 1} (System ${workspaces.length + 1})`);
+    if (name && name.trim()) onCreate(name.trim());
+  };
+
+  const handleRename = () => {
+    if (!active) return;
+    const name = window.prompt('重命名工作区 (Rename workspace):', active.name);
+    if (name && name.trim()) onRename(active.id, name.trim());
+  };
+
+  const handleDelete = () => {
+    if (!active || workspaces.length <= 1) return;
+    if (window.confirm(`确定删除工作区 "${active.name}"？此操作无法撤销。\nDelete workspace "${active.name}"? This cannot be undone.`)) {
+      onDelete(active.id);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 px-6 py-2 border-b border-gray-100 bg-gray-50">
+      <FolderOpen size={14} className="text-gray-400 flex-shrink-0" />
+      <select
+        value={activeId}
+        onChange={e => onSwitch(e.target.value)}
+        className="flex-1 min-w-0 rounded-md border-gray-200 text-xs py-1 pl-2 pr-6 bg-white"
+        title={active ? `自动保存于 (Autosaved) ${new Date(active.updatedAt).toLocaleString()}` : undefined}
+      >
+        {workspaces.map(w => (
+          <option key={w.id} value={w.id}>{w.name}</option>
+        ))}
+      </select>
+      <button
+        onClick={handleCreate}
+        className="p-1 rounded text-gray-400 hover:text-indigo-600 hover:bg-white transition-colors"
+        title="新建工作区 (New Workspace)"
+      >
+        <Plus size={14} />
+      </button>
+      <button
+        onClick={handleRename}
+        className="p-1 rounded text-gray-400 hover:text-indigo-600 hover:bg-white transition-colors"
+        title="重命名 (Rename)"
+      >
+        <Edit2 size={14} />
+      </button>
+      <button
+        onClick={handleDelete}
+        disabled={workspaces.length <= 1}
+        className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-white transition-colors disabled:opacity-30 disabled:hover:text-gray-400"
+        title="删除工作区 (Delete Workspace)"
+      >
+        <Trash2 size={14} />
+      </button>
+      <span className="w-px h-4 bg-gray-200 mx-0.5" />
+      <input
+        type="file"
+        accept=".json,application/json"
+        ref={fileInputRef}
+        className="hidden"
+        onChange={handleOpenFile}
+      />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="p-1 rounded text-gray-400 hover:text-indigo-600 hover:bg-white transition-colors"
+        title="打开项目文件 (Open Project)"
+      >
+        <Upload size={14} />
+      </button>
+      <button
+        onClick={onSaveProject}
+        className="p-1 rounded text-gray-400 hover:text-indigo-600 hover:bg-white transition-colors"
+        title="保存为项目文件 (Save Project)"
+      >
+        <Download size={14} />
+      </button>
+      <button
+        onClick={onShareLink}
+        className="p-1 rounded text-gray-400 hover:text-indigo-600 hover:bg-white transition-colors"
+        title="复制分享链接 (Copy Share Link)"
+      >
+        <Link2 size={14} />
+      </button>
+      <button
+        onClick={onOpenHistory}
+        className="p-1 rounded text-gray-400 hover:text-indigo-600 hover:bg-white transition-colors flex items-center gap-0.5"
+        title="运行历史 (Run History)"
+      >
+        <History size={14} />
+        {historyCount > 0 && <span className="text-[10px] font-medium">{historyCount}</span>}
+      </button>
+    </div>
+  );
+};
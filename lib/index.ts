@@ -0,0 +1,62 @@
+// --- Engine Library Entry ---
+// The calculation engine without React or the DOM, for scripts, internal tools and notebooks.
+// Build with `npm run build:lib` (ESM bundle + .d.ts in dist-lib/).
+//
+// Everything here is deterministic given its inputs: the simulations take an explicit `rng`
+// (e.g. createSeededRandom(42)) or a `seed` in their config, and the histogram size, bootstrap
+// resamples and equity cap come from the options object instead of module constants.
+//
+//   import { createSeededRandom, prepareSystem, runMonteCarloSimulation, AppMode, ResampleMode } from 'van-tharp-position-sizing-analyzer/engine';
+//   const { system } = prepareSystem(inputs, { cap: 100 }, ResampleMode.IID);
+//   const results = runMonteCarloSimulation(system.pool, system.systemMetrics, config, { rng: createSeededRandom(42), histogramBins: 50 });
+
+export { AppMode, RiskMode, ResampleMode, RUnitMethod, CostMethod, SweepMode } from '../types';
+export type {
+  FrequencyRow, RUnitConfig, CostConfig, CostImpact, SqnConfig, SystemMetrics, SystemInputs, SimulationConfig, SimulationMetrics, SimulationResults,
+  SimulationStat, EquitySimulationConfig, EquitySimulationResults, RiskMetrics, ChartDataPoint, EquityCurveData, PercentileCurves, ConfidenceLevel, ConfidenceInterval,
+  BootstrapIntervals, SimulationRecords, SizingModelParams, RiskSweepConfig, OptimalFConfig, OptimalFResultRow, OptimalFChartPoint, OptimalFAnalysisResult
+} from '../types';
+
+// Parsing and static metrics
+export {
+  parseStrictNumber, parseRawData, calculateRUnit, describeRUnitConfig, calculateBasicMetrics, calculateBootstrapIntervals,
+  DEFAULT_R_UNIT_CONFIG, DEFAULT_SQN_CONFIG, CONFIDENCE_LEVELS, R_UNIT_METHOD_LABELS
+} from '../utils/calculations';
+export { parseTradeLog, MIN_TRADE_LOG_ROWS } from '../utils/tradeLog';
+export type { TradeLogParseResult } from '../utils/tradeLog';
+export { applyTradeCosts, describeCostConfig, DEFAULT_COST_CONFIG, COST_METHOD_LABELS } from '../utils/tradeCosts';
+export { prepareSystem, describeSystemInputs } from '../utils/systemInputs';
+export type { PreparedSystem } from '../utils/systemInputs';
+
+// Simulation and optimal f
+export {
+  runMonteCarloSimulation, calculateOptimalF, runOptimalFAnalysis, AVERAGE_CURVE_NAME,
+  DEFAULT_HISTOGRAM_BINS, DEFAULT_MAX_EQUITY_CAP, DEFAULT_BOOTSTRAP_RESAMPLES, DEFAULT_MAX_RETAINED_SIMULATIONS, DEFAULT_MAX_SEQUENCE_MATRIX_BYTES
+} from '../utils/calculations';
+export type { SimulationRunOptions } from '../utils/calculations';
+export { SIMULATION_RECORD_FIELDS, simulationRecordsToCsv, simulationRecordsToJson } from '../utils/simulationRecords';
+export { createTradeSampler, isSequenceMode, RESAMPLE_MODE_LABELS } from '../utils/resampling';
+export {
+  SIZING_MODELS, DEFAULT_SIZING_PARAMS, createPositionSizer, resolveSizingParams, sizeEquityPath, fixedRatioUnits, clampSizingSetting
+} from '../utils/sizingModels';
+export type { PositionSizer, SizingModelDefinition, SizingModelSetting } from '../utils/sizingModels';
+export {
+  DEFAULT_EQUITY_SIMULATION_CONFIG, resolveEquitySimulationConfig, validateEquitySimulationConfig, describeEquitySimulationConfig, createEquityPathTracker
+} from '../utils/equitySimulation';
+export type { EquityPathTracker, EquityPathValues } from '../utils/equitySimulation';
+export {
+  DEFAULT_RISK_SWEEP, MAX_SWEEP_POINTS, MAX_SWEEP_RISK, SWEEP_MODE_LABELS, resolveRiskSweep, validateRiskSweep, estimateSweepPoints,
+  sweepGrid, describeRiskSweep
+} from '../utils/riskSweep';
+export { KELLY_FRACTIONS, calculateClosedFormSizing } from '../utils/closedFormSizing';
+export { createSequenceMatrix } from '../utils/sequenceMatrix';
+export type { SequenceMatrix, SequenceChunk } from '../utils/sequenceMatrix';
+export type { TradeSampler } from '../utils/resampling';
+
+// Random numbers
+export { createSeededRandom, normalizeSeed, resolveSeed } from '../utils/random';
+export type { RandomSource } from '../utils/random';
+
+// Comparing results
+export { COMPARISON_METRICS, findWinners } from '../utils/comparison';
+export type { ComparisonMetric, MetricDirection } from '../utils/comparison';
@@ -2,12 +2,76 @@
 
 export enum AppMode {
   FREQUENCY = 'FREQUENCY',
-  RAW_PNL = 'RAW_PNL'
+  RAW_PNL = 'RAW_PNL',
+  TRADE_LOG = 'TRADE_LOG' // Per-trade PnL + initial risk (true R-multiples)
 }
 
+// Position sizing models (Van Tharp). The swept optimizer parameter is the model's "size %"; see utils/sizingModels.ts
 export enum RiskMode {
-  FIXED_FRACTIONAL = 'FIXED_FRACTIONAL', // % of Current Equity (Compounding)
-  FIXED_INITIAL = 'FIXED_INITIAL'        // % of Initial Equity
+  FIXED_FRACTIONAL = 'FIXED_FRACTIONAL',     // % of Current Equity (Compounding): percent risk
+  FIXED_INITIAL = 'FIXED_INITIAL',           // % of Initial Equity: equal units
+  UNITS_PER_MONEY = 'UNITS_PER_MONEY',       // One unit per fixed amount of equity
+  PERCENT_MARGIN = 'PERCENT_MARGIN',         // Margin committed as % of current equity
+  PERCENT_VOLATILITY = 'PERCENT_VOLATILITY', // Volatility (e.g. ATR) exposure as % of current equity
+  MARKET_MONEY = 'MARKET_MONEY',             // Separate risk on the starting (core) equity and on profits
+  FIXED_RATIO = 'FIXED_RATIO'                // Ryan Jones: one more unit per delta × units of profit
+}
+
+// Settings of the models beyond the swept percentage
+export interface SizingModelParams {
+  equityPerUnit: number;   // UNITS_PER_MONEY: % of starting equity per unit (10 = 10 units at the start)
+  riskPerMargin: number;   // PERCENT_MARGIN: risk per unit ÷ margin per unit
+  stopInAtr: number;       // PERCENT_VOLATILITY: stop distance in volatility units (risk ÷ volatility per unit)
+  profitRisk: number;      // MARKET_MONEY: % of the profits above the starting equity risked per trade
+  fixedRatioDelta: number; // FIXED_RATIO: profit per unit needed to add the next unit, % of starting equity
+  ratchet: boolean;        // FIXED_RATIO: never drop below the highest unit count reached
+}
+
+export enum ResampleMode {
+  IID = 'IID',                   // Independent draws with replacement (classic Monte Carlo)
+  MOVING_BLOCK = 'MOVING_BLOCK', // Fixed-length blocks of consecutive trades
+  STATIONARY = 'STATIONARY',     // Politis-Romano: geometric block lengths with the given mean
+  SHUFFLE = 'SHUFFLE'            // Permutation of the actual trades (without replacement)
+}
+
+// How 1R is derived from a Raw P&L list
+export enum RUnitMethod {
+  AVG_LOSS = 'AVG_LOSS',                   // |Average loss| (classic default)
+  MEDIAN_LOSS = 'MEDIAN_LOSS',             // |Median loss|
+  TRIMMED_MEAN_LOSS = 'TRIMMED_MEAN_LOSS', // Mean of |losses| after trimming trimPercent from each tail
+  PERCENTILE_LOSS = 'PERCENTILE_LOSS',     // percentile-th percentile of |losses|
+  FIXED_AMOUNT = 'FIXED_AMOUNT'            // User-supplied currency amount
+}
+
+// Qualitative correlation between two assets in the risk allocation matrix
+export enum CorrelationType {
+  STRONG = 'STRONG',               // 强相关 (0.9)
+  MEDIUM = 'MEDIUM',               // 中相关 (0.5)
+  WEAK = 'WEAK',                   // 弱相关 (0.1)
+  PARTIAL_HEDGE = 'PARTIAL_HEDGE', // 对冲 (-0.5)
+  STRONG_HEDGE = 'STRONG_HEDGE'    // 强力对冲 (-0.8)
+}
+
+export interface RUnitConfig {
+  method: RUnitMethod;
+  trimPercent: number;  // TRIMMED_MEAN_LOSS: % cut from each end (0-49)
+  percentile: number;   // PERCENTILE_LOSS: 1-99
+  fixedAmount: number;  // FIXED_AMOUNT: currency per 1R
+}
+
+export enum CostMethod {
+  NONE = 'NONE',
+  FIXED_R = 'FIXED_R',           // The same cost in R on every trade
+  RISK_PERCENT = 'RISK_PERCENT', // % of each trade's initial risk (1R)
+  CURRENCY = 'CURRENCY'          // Currency per trade, converted with the trade's 1R (Raw PnL / Trade Log)
+}
+
+// Commissions, slippage and fees, deducted from every trade (round trip)
+export interface CostConfig {
+  method: CostMethod;
+  fixedR: number;       // FIXED_R: R per trade
+  riskPercent: number;  // RISK_PERCENT: % of 1R per trade
+  amount: number;       // CURRENCY: currency per trade
 }
 
 export interface FrequencyRow {
@@ -23,6 +87,39 @@ export interface SimulationMetrics {
   maxConsecutiveLosses: number;
   maxConsecutiveWins: number;
   drawdownDuration: number; // For 95th percentile calc
+  recoveryTrades: number | null; // Trades from the max-DD trough back to a new high (null = never recovered)
+  drawdownCount: number; // Distinct drawdowns at least drawdownThreshold R deep
+  avgDrawdownDepth: number; // Mean depth (R) of all drawdowns in this sim
+}
+
+// Per-simulation metrics stored column-wise, one array per SimulationMetrics field
+export interface SimulationRecords {
+  total: number;    // Simulations run
+  retained: number; // Simulations kept (the first N, up to the memory limit)
+  columns: { [K in keyof SimulationMetrics]: SimulationMetrics[K][] };
+}
+
+// SQN normalisation settings
+export interface SqnConfig {
+  cap: number;            // Max n used for the graded SQN (Van Tharp's SQN100 uses 100)
+  tradesPerYear?: number; // When known, an annualised SQN is also reported
+}
+
+export type ConfidenceLevel = 90 | 95 | 99;
+
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+}
+
+// Percentile bootstrap intervals, precomputed for every supported confidence level
+export interface BootstrapIntervals {
+  resamples: number;
+  expectancy: Record<ConfidenceLevel, ConfidenceInterval>;
+  winRate: Record<ConfidenceLevel, ConfidenceInterval>;
+  profitFactor: Record<ConfidenceLevel, ConfidenceInterval>;
+  sqn: Record<ConfidenceLevel, ConfidenceInterval>; // Graded SQN (same n as SystemMetrics.n)
+  probPositiveExpectancy: number; // Share of resamples with expectancy > 0 (0-1)
 }
 
 export interface SystemMetrics {
@@ -30,16 +127,32 @@ export interface SystemMetrics {
   profitFactor: number; // Profit/Loss Ratio
   expectancy: number;
   standardDeviation: number;
-  sqn: number;
-  n: number;
+  sqn: number;        // Graded SQN: (E / σ) × √min(n, cap), i.e. SQN100 with the default cap
+  sqnRaw: number;     // (E / σ) × √(actual sample size)
+  sqnAnnual?: number; // (E / σ) × √(trades per year), when trades per year is known
+  sqnCap: number;     // Cap used for the graded SQN
+  n: number;          // n used for the graded SQN
+  sampleSize: number; // Actual number of trades in the distribution
   rUnitSize?: number; // Only for Raw PnL mode
+  rUnitConfig?: RUnitConfig; // How rUnitSize was derived (Raw PnL mode)
+  avgInitialRisk?: number; // Only for Trade Log mode (each trade is its own 1R)
   worstR: number; // The single worst trade in the dataset (e.g. -5.5)
+  bootstrap?: BootstrapIntervals;
+  costs?: CostImpact; // Present when trading costs were deducted; the other fields are then net
+}
+
+// Gross (before costs) figures next to the net ones in SystemMetrics
+export interface CostImpact {
+  costConfig: CostConfig;
+  avgCostR: number; // Mean cost per trade in R
+  gross: Pick<SystemMetrics, 'winRate' | 'profitFactor' | 'expectancy' | 'standardDeviation' | 'sqn' | 'sqnRaw'>;
 }
 
 export interface RiskMetrics {
   probabilityOfProfit: number;
   p95DrawdownDuration: number;
   rewardRiskRatio: number;
+  unrecoveredRate: number; // % of sims that end still below the peak preceding their max drawdown
 }
 
 export interface ChartDataPoint {
@@ -51,6 +164,30 @@ export interface ChartDataPoint {
 export interface SimulationConfig {
   totalSimulations: number;
   tradesPerSimulation: number;
+  seed?: number; // PRNG seed. Leave undefined for a fresh random seed each run
+  resampleMode: ResampleMode;
+  blockLength: number; // Block length (mean length for STATIONARY). Ignored by IID / SHUFFLE
+  drawdownThreshold: number; // R depth a drawdown must reach to be counted in drawdownCount
+  retainSimulations?: boolean; // Keep the per-simulation metrics (up to a memory limit) for download
+  equity?: EquitySimulationConfig; // Account simulation in currency. Absent in configs saved before it: the defaults
+}
+
+// Replays every simulated R sequence on an account, sizing each trade with a position sizing model
+export interface EquitySimulationConfig {
+  startingEquity: number; // Account size in currency
+  riskPercent: number;    // The sizing model's size % (risk per trade for percent risk)
+  riskMode: RiskMode;
+  sizingParams: SizingModelParams;
+  floorPercent: number;   // Account floor as % of the starting equity, e.g. 50 = losing half the account
+}
+
+export interface SimulationStat {
+  avg: number;
+  median: number;
+  min: number;
+  max: number;
+  p5: number;
+  p95: number;
 }
 
 export interface EquityCurveData {
@@ -62,39 +199,85 @@ export interface EquityCurveData {
   zIndex?: number; // Visual layering priority
 }
 
+// Per-step percentile curves across all simulated paths (index = trade number, 0 = start)
+export interface PercentileCurves {
+  p5: number[];
+  p25: number[];
+  p50: number[];
+  p75: number[];
+  p95: number[];
+}
+
 export interface SimulationResults {
   systemMetrics: SystemMetrics;
   riskMetrics: RiskMetrics;
-  simulationConfig: SimulationConfig;
+  simulationConfig: SimulationConfig; // seed is always resolved here
   charts: {
     maxDrawdown: ChartDataPoint[];
     maxProfit: ChartDataPoint[];
     finalResult: ChartDataPoint[];
     consecLosses: ChartDataPoint[];
     consecWins: ChartDataPoint[];
+    recoveryTime: ChartDataPoint[]; // Recovered sims only
+    drawdownCount: ChartDataPoint[];
+    avgDrawdownDepth: ChartDataPoint[];
   };
   stats: {
-    [key: string]: {
-      avg: number;
-      median: number;
-      min: number;
-      max: number;
-      p5: number;
-      p95: number;
-    }
+    [key: string]: SimulationStat;
   };
   rDistribution: number[]; // The source distribution used for the simulation
   equityCurves: EquityCurveData[]; // The 7 specific equity curves
+  equityPercentiles: PercentileCurves; // Fan chart bands of cumulative R
+  underwaterPercentiles: PercentileCurves; // Bands of (equity - running peak), always <= 0
+  simulations?: SimulationRecords; // Only with simulationConfig.retainSimulations; never persisted
+  equity?: EquitySimulationResults; // Absent in results saved before the account simulation
+}
+
+export interface EquitySimulationResults {
+  startingEquity: number;
+  floorEquity: number;
+  probBelowFloor: number; // % of sims whose equity touched the floor at any point
+  probLoss: number;       // % of sims that end below the starting equity
+  charts: {
+    finalEquity: ChartDataPoint[];
+    maxDrawdownPct: ChartDataPoint[];
+    growthPerTrade: ChartDataPoint[];
+  };
+  stats: {
+    finalEquity: SimulationStat;    // Currency
+    returnPct: SimulationStat;      // Final equity vs. the start, %
+    maxDrawdownPct: SimulationStat; // Deepest fall from a running peak, % of that peak
+    growthPerTrade: SimulationStat; // Compound growth per trade, (final / start)^(1 / trades) - 1, %
+  };
+  equityPercentiles: PercentileCurves;    // Equity in currency
+  underwaterPercentiles: PercentileCurves; // % below the running peak, always <= 0
 }
 
 // --- Optimal Position Sizing Types ---
 
+export enum SweepMode {
+  GRID = 'GRID',         // Every step from start to end
+  ADAPTIVE = 'ADAPTIVE'  // Coarse scan over the range, then every step around each approach's optimum
+}
+
+// Risk levels (size %) the optimal f search evaluates
+export interface RiskSweepConfig {
+  start: number; // %
+  end: number;   // %
+  step: number;  // % (the final resolution in adaptive mode)
+  mode: SweepMode;
+}
+
 export interface OptimalFConfig {
   successThreshold: number; // e.g., 100% (2x equity)
   failureThreshold: number; // e.g., -25% (0.75x equity)
   tradesPerSim: number;
   totalSims: number;
   riskMode: RiskMode;
+  sizingParams?: SizingModelParams; // Absent in configs saved before the model library: the defaults
+  sweep?: RiskSweepConfig; // Absent in configs saved before it was configurable: 0.1% ~ 30% in 0.1% steps
+  commonRandomNumbers?: boolean; // Replay the same trade sequences at every risk level. Absent: fresh trades per level
+  seed?: number; // PRNG seed. Leave undefined for a fresh random seed each run
 }
 
 export interface OptimalFResultRow {
@@ -114,7 +297,106 @@ export interface OptimalFChartPoint {
   medianGain: number;
 }
 
+// Analytic optimal sizing from the R distribution, in % of current equity risked per 1R
+export interface ClosedFormSizing {
+  kellyRisk: number | null;     // Kelly: maximizes mean log(1 + k · R); null without a loss
+  vinceF: number | null;        // Vince optimal f (0-1, as a fraction of the worst loss); null without a loss
+  vinceRisk: number | null;     // vinceF scaled by the worst loss
+  worstLoss: number;            // Most negative R (0 without a loss)
+  geometricMean: number | null; // Geometric mean HPR per trade at vinceF
+}
+
 export interface OptimalFAnalysisResult {
   bestRows: OptimalFResultRow[];
+  // Kelly, ½ Kelly, ¼ Kelly and Vince optimal f with the simulated metrics at those levels.
+  // Percent risk model only; absent in results saved before them
+  analyticRows?: OptimalFResultRow[];
+  closedForm?: ClosedFormSizing;
   chartData: OptimalFChartPoint[];
+  riskMode: RiskMode; // Sizing model the sweep ran with; `risk` above is that model's size %
+  sweep?: RiskSweepConfig; // Range searched; absent in results saved before it was configurable
+  commonRandomNumbers?: boolean; // Whether every level replayed the same trade sequences
+  seed: number; // Seed actually used, so the analysis can be reproduced
+}
+
+// The inputs that define a system, independent of how it is simulated
+export interface SystemInputs {
+  mode: AppMode;
+  frequencyData: FrequencyRow[];
+  rawPnlText: string;
+  rUnitConfig: RUnitConfig;
+  tradeLogText: string;
+  costConfig?: CostConfig; // Absent in inputs saved before costs existed: no costs
+}
+
+// --- System Comparison ---
+
+export interface ComparedSystem {
+  name: string;
+  results: SimulationResults;
+}
+
+// 2-4 systems simulated with the same config and seed, each net of its own costs (systemMetrics.costs)
+export interface ComparisonResults {
+  simulationConfig: SimulationConfig; // seed is always resolved here
+  systems: ComparedSystem[];
+}
+
+// --- Run History ---
+
+export interface RunInputs extends SystemInputs {
+  sqnConfig: SqnConfig;
+  simulationConfig: SimulationConfig; // seed is always resolved here
+}
+
+export interface RunHistoryEntry {
+  id: string;
+  name: string;
+  createdAt: number;  // Epoch ms
+  pinned: boolean;    // Pinned runs are never trimmed and keep their results
+  summary: string;    // One-line input summary
+  inputs: RunInputs;
+  metrics: Record<string, number>; // Key metrics by COMPARISON_METRICS key, kept even when results are dropped
+  results: SimulationResults | null; // Dropped for older runs to save space; re-running with the seed reproduces them
+}
+
+// --- Risk Allocation ---
+
+export interface RiskAllocationState {
+  step: 1 | 2 | 3;           // 1 = setup, 2 = correlation matrix, 3 = results
+  assetCount: number;
+  assetNames: string[];
+  correlationMatrix: CorrelationType[][];
+  maxSingleRisk: number;      // In % of equity
+  allowOverAllocation: boolean;
+}
+
+export interface AllocationResult {
+  name: string;
+  initialRisk: number;
+  finalRisk: number;
+  constraint: string; // 'Single Cap', 'Risk Pruning', 'Risk Alloc.'
+}
+
+// --- Workspace ---
+
+// Everything needed to restore an analysis exactly as the user left it
+export interface WorkspaceSnapshot {
+  mode: AppMode;
+  frequencyData: FrequencyRow[];
+  rawPnlText: string;
+  rUnitConfig: RUnitConfig;
+  tradeLogText: string;
+  costConfig: CostConfig;
+  sqnConfig: SqnConfig;
+  simulationConfig: SimulationConfig;
+  optimalFConfig: OptimalFConfig;
+  riskAllocation: RiskAllocationState;
+  results: SimulationResults | null;
+}
+
+export interface WorkspaceInfo {
+  id: string;
+  name: string;
+  updatedAt: number; // Epoch ms of the last autosave
 }
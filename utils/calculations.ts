@@ -1,11 +1,25 @@
-import { FrequencyRow, SimulationMetrics, SimulationResults, ChartDataPoint, SystemMetrics, RiskMetrics, SimulationConfig, OptimalFConfig, RiskMode, OptimalFResultRow, OptimalFChartPoint, OptimalFAnalysisResult, EquityCurveData } from '../types';
+import { FrequencyRow, RiskMode, ClosedFormSizing, SimulationMetrics, SimulationResults, ChartDataPoint, SystemMetrics, RiskMetrics, SimulationConfig, OptimalFConfig, OptimalFResultRow, OptimalFChartPoint, OptimalFAnalysisResult, SweepMode, EquityCurveData, RUnitConfig, RUnitMethod, SqnConfig, BootstrapIntervals, ConfidenceLevel, ConfidenceInterval } from '../types';
+import { RandomSource, createSeededRandom, resolveSeed, randomIndex } from './random';
+import { createTradeSampler } from './resampling';
+import { createPathPercentileTracker } from './pathPercentiles';
+import { createSimulationRecords } from './simulationRecords';
+import { createPositionSizer, resolveSizingParams } from './sizingModels';
+import { createEquityPathTracker, resolveEquitySimulationConfig } from './equitySimulation';
+import { createSequenceMatrix } from './sequenceMatrix';
+import { KELLY_FRACTIONS, calculateClosedFormSizing } from './closedFormSizing';
+import { resolveRiskSweep, validateRiskSweep, sweepGrid, coarseSweepLevels, refinementLevels, estimateSweepPoints } from './riskSweep';
 
 // --- Constants ---
-const HISTOGRAM_BINS = 30; // Number of bars in the histogram
-const MAX_EQUITY_CAP = 1e100; // Cap equity to prevent Infinity -> NaN issues (1 googol is enough for any UI)
+// Defaults for the tunables in SimulationRunOptions
+export const DEFAULT_HISTOGRAM_BINS = 30; // Number of bars in the histogram
+export const DEFAULT_MAX_EQUITY_CAP = 1e100; // Cap equity to prevent Infinity -> NaN issues (1 googol is enough for any UI)
+export const DEFAULT_MAX_RETAINED_SIMULATIONS = 50000; // Per-sim records kept (9 numbers each, a few MB in total)
+export const DEFAULT_MAX_SEQUENCE_MATRIX_BYTES = 64 * 1024 * 1024; // Common random numbers: trade sequences held in memory at once
+
+export const AVERAGE_CURVE_NAME = '平均收益 (Average)'; // Name of the mean path in SimulationResults.equityCurves
 
 // --- Helper Functions ---
-const parseStrictNumber = (value: string): number | null => {
+export const parseStrictNumber = (value: string): number | null => {
   const trimmed = value.trim();
   if (trimmed === '') return null;
 
@@ -40,7 +54,7 @@ const calculateStats = (values: number[]) => {
   return { avg, median, min, max, p5, p95 };
 };
 
-const generateHistogramData = (values: number[]): ChartDataPoint[] => {
+const generateHistogramData = (values: number[], binCount: number = DEFAULT_HISTOGRAM_BINS): ChartDataPoint[] => {
   if (values.length === 0) return [];
   
   const min = Math.min(...values);
@@ -56,10 +70,10 @@ const generateHistogramData = (values: number[]): ChartDataPoint[] => {
   }
 
   const range = max - min;
-  const step = range / HISTOGRAM_BINS;
+  const step = range / binCount;
   
   // Initialize bins
-  const bins = Array.from({ length: HISTOGRAM_BINS }, (_, i) => {
+  const bins = Array.from({ length: binCount }, (_, i) => {
       const start = min + i * step;
       const end = min + (i + 1) * step;
       return {
@@ -72,7 +86,7 @@ const generateHistogramData = (values: number[]): ChartDataPoint[] => {
   // Fill bins
   values.forEach(v => {
       let index = Math.floor((v - min) / step);
-      if (index >= HISTOGRAM_BINS) index = HISTOGRAM_BINS - 1; // Handle exact max value
+      if (index >= binCount) index = binCount - 1; // Handle exact max value
       if (index < 0) index = 0; // Handle precision issues
       bins[index].count++;
   });
@@ -91,10 +105,28 @@ const generateHistogramData = (values: number[]): ChartDataPoint[] => {
 
 // --- Main Logic ---
 
-export const calculateBasicMetrics = (rMultiples: number[], n: number, rUnitSize?: number): SystemMetrics => {
+export const DEFAULT_SQN_CONFIG: SqnConfig = { cap: 100 };
+
+// Optional hooks and tunables for the simulation engines
+export interface SimulationRunOptions {
+  rng?: RandomSource;                      // Overrides the seeded generator built from config.seed
+  onProgress?: (percent: number) => void;  // Called with 0-100 as simulations complete
+  histogramBins?: number;                  // Monte Carlo: bars per distribution histogram
+  bootstrapResamples?: number;             // Monte Carlo: resamples for the input-statistic CIs
+  maxEquityCap?: number;                   // Optimal F and account simulation: equity ceiling (as a multiple of the start)
+  maxRetainedSimulations?: number;         // Monte Carlo: per-sim records kept when config.retainSimulations is set
+  maxSequenceMatrixBytes?: number;         // Optimal F: memory for the shared trade sequences of config.commonRandomNumbers
+}
+
+export const calculateBasicMetrics = (
+  rMultiples: number[],
+  n: number,
+  rUnitSize?: number,
+  sqnConfig: SqnConfig = DEFAULT_SQN_CONFIG
+): SystemMetrics => {
   const count = rMultiples.length;
   if (count === 0) {
-    return { winRate: 0, profitFactor: 0, expectancy: 0, standardDeviation: 0, sqn: 0, n: 0, worstR: 0 };
+    return { winRate: 0, profitFactor: 0, expectancy: 0, standardDeviation: 0, sqn: 0, sqnRaw: 0, sqnCap: sqnConfig.cap, n: 0, sampleSize: 0, worstR: 0 };
   }
 
   const positiveR = rMultiples.filter(r => r > 0);
@@ -115,7 +147,13 @@ export const calculateBasicMetrics = (rMultiples: number[], n: number, rUnitSize
   const variance = rMultiples.reduce((acc, val) => acc + Math.pow(val - expectancy, 2), 0) / count;
   const standardDeviation = Math.sqrt(variance);
   
-  const sqn = standardDeviation === 0 ? 0 : (expectancy / standardDeviation) * Math.sqrt(n);
+  // SQN variants share the per-trade quality E / σ and differ only in the √n scaling
+  const quality = standardDeviation === 0 ? 0 : expectancy / standardDeviation;
+  const sqn = quality * Math.sqrt(n);
+  const sqnRaw = quality * Math.sqrt(count);
+  const sqnAnnual = sqnConfig.tradesPerYear && sqnConfig.tradesPerYear > 0
+    ? quality * Math.sqrt(sqnConfig.tradesPerYear)
+    : undefined;
 
   // Find worst trade (Minimum R)
   const worstR = Math.min(...rMultiples);
@@ -126,13 +164,155 @@ export const calculateBasicMetrics = (rMultiples: number[], n: number, rUnitSize
     expectancy,
     standardDeviation,
     sqn,
+    sqnRaw,
+    sqnAnnual,
+    sqnCap: sqnConfig.cap,
     n,
+    sampleSize: count,
     rUnitSize,
     worstR
   };
 };
 
-export const parseRawData = (inputText: string): { rMultiples: number[]; rUnit: number; validCount: number; error?: string } => {
+// --- Bootstrap Confidence Intervals ---
+
+export const CONFIDENCE_LEVELS: ConfidenceLevel[] = [90, 95, 99];
+export const DEFAULT_BOOTSTRAP_RESAMPLES = 2000;
+
+// Percentile bootstrap: resample the trades with replacement, recompute each metric, and read the
+// interval off the sorted resampled values. No normality assumption, so fat tails are respected.
+export const calculateBootstrapIntervals = (
+  rMultiples: number[],
+  n: number,
+  rng: RandomSource,
+  resamples: number = DEFAULT_BOOTSTRAP_RESAMPLES
+): BootstrapIntervals => {
+  const count = rMultiples.length;
+  const expectancies = new Float64Array(resamples);
+  const winRates = new Float64Array(resamples);
+  const profitFactors = new Float64Array(resamples);
+  const sqns = new Float64Array(resamples);
+  let positiveCount = 0;
+
+  for (let b = 0; b < resamples; b++) {
+    let sum = 0;
+    let sumSq = 0;
+    let wins = 0;
+    let grossProfit = 0;
+    let grossLoss = 0;
+
+    for (let i = 0; i < count; i++) {
+      const r = rMultiples[randomIndex(rng, count)];
+      sum += r;
+      sumSq += r * r;
+      if (r > 0) {
+        wins++;
+        grossProfit += r;
+      } else if (r < 0) {
+        grossLoss -= r;
+      }
+    }
+
+    const expectancy = sum / count;
+    const variance = Math.max(0, sumSq / count - expectancy * expectancy);
+    const sd = Math.sqrt(variance);
+
+    expectancies[b] = expectancy;
+    winRates[b] = wins / count;
+    // Same sentinel as calculateBasicMetrics when there are no losses
+    profitFactors[b] = grossLoss === 0 ? (grossProfit > 0 ? 999 : 0) : grossProfit / grossLoss;
+    sqns[b] = sd === 0 ? 0 : (expectancy / sd) * Math.sqrt(n);
+    if (expectancy > 0) positiveCount++;
+  }
+
+  const intervals = (values: Float64Array): Record<ConfidenceLevel, ConfidenceInterval> => {
+    values.sort();
+    const at = (q: number) => values[Math.min(values.length - 1, Math.max(0, Math.floor(values.length * q)))];
+    const result = {} as Record<ConfidenceLevel, ConfidenceInterval>;
+    CONFIDENCE_LEVELS.forEach(level => {
+      const alpha = (1 - level / 100) / 2;
+      result[level] = { lower: at(alpha), upper: at(1 - alpha) };
+    });
+    return result;
+  };
+
+  return {
+    resamples,
+    expectancy: intervals(expectancies),
+    winRate: intervals(winRates),
+    profitFactor: intervals(profitFactors),
+    sqn: intervals(sqns),
+    probPositiveExpectancy: positiveCount / resamples
+  };
+};
+
+export const DEFAULT_R_UNIT_CONFIG: RUnitConfig = {
+  method: RUnitMethod.AVG_LOSS,
+  trimPercent: 10,
+  percentile: 50,
+  fixedAmount: 100
+};
+
+export const R_UNIT_METHOD_LABELS: Record<RUnitMethod, string> = {
+  [RUnitMethod.AVG_LOSS]: '平均亏损 (Avg Loss)',
+  [RUnitMethod.MEDIAN_LOSS]: '亏损中位数 (Median Loss)',
+  [RUnitMethod.TRIMMED_MEAN_LOSS]: '截尾平均亏损 (Trimmed Mean Loss)',
+  [RUnitMethod.PERCENTILE_LOSS]: '亏损分位数 (Loss Percentile)',
+  [RUnitMethod.FIXED_AMOUNT]: '固定金额 (Fixed Amount)',
+};
+
+// Short description of a config, e.g. "截尾平均亏损 (Trimmed Mean Loss) 10%"
+export const describeRUnitConfig = (config: RUnitConfig): string => {
+  const label = R_UNIT_METHOD_LABELS[config.method];
+  if (config.method === RUnitMethod.TRIMMED_MEAN_LOSS) return `${label} ${config.trimPercent}%`;
+  if (config.method === RUnitMethod.PERCENTILE_LOSS) return `${label} P${config.percentile}`;
+  return label;
+};
+
+// Derive 1R (a positive currency amount) from raw P&L values
+export const calculateRUnit = (rawValues: number[], config: RUnitConfig): { rUnit: number; error?: string } => {
+  if (config.method === RUnitMethod.FIXED_AMOUNT) {
+    if (!(config.fixedAmount > 0)) return { rUnit: 0, error: "固定 1R 金额必须大于 0。" };
+    return { rUnit: config.fixedAmount };
+  }
+
+  const losses = rawValues.filter(v => v < 0).map(v => Math.abs(v)).sort((a, b) => a - b);
+  if (losses.length === 0) {
+    return { rUnit: 0, error: "未找到亏损交易。无法计算1R风险单位。" };
+  }
+
+  let rUnit: number;
+  switch (config.method) {
+    case RUnitMethod.MEDIAN_LOSS:
+      rUnit = calculateStats(losses).median;
+      break;
+    case RUnitMethod.TRIMMED_MEAN_LOSS: {
+      const trim = Math.floor(losses.length * Math.min(49, Math.max(0, config.trimPercent)) / 100);
+      const kept = losses.slice(trim, losses.length - trim);
+      rUnit = kept.reduce((a, b) => a + b, 0) / kept.length;
+      break;
+    }
+    case RUnitMethod.PERCENTILE_LOSS: {
+      const p = Math.min(99, Math.max(1, config.percentile)) / 100;
+      rUnit = losses[Math.min(losses.length - 1, Math.floor(losses.length * p))];
+      break;
+    }
+    case RUnitMethod.AVG_LOSS:
+    default:
+      rUnit = losses.reduce((a, b) => a + b, 0) / losses.length;
+  }
+
+  if (rUnit === 0) {
+    return { rUnit: 0, error: "计算得出的R单位为0。" };
+  }
+  return { rUnit };
+};
+
+export const parseRawData = (
+  inputText: string,
+  rUnitConfig: RUnitConfig = DEFAULT_R_UNIT_CONFIG,
+  sqnCap: number = DEFAULT_SQN_CONFIG.cap
+): { rMultiples: number[]; rUnit: number; validCount: number; error?: string } => {
   const rawValues = inputText
     .split(/[\n,;]+/)
     .map(s => parseStrictNumber(s))
@@ -142,22 +322,15 @@ export const parseRawData = (inputText: string): { rMultiples: number[]; rUnit:
     return { rMultiples: [], rUnit: 0, validCount: 0, error: `数据不足。当前仅找到 ${rawValues.length} 笔交易，最少需要 30 笔。` };
   }
 
-  const negativeValues = rawValues.filter(v => v < 0);
-  if (negativeValues.length === 0) {
-     return { rMultiples: [], rUnit: 0, validCount: rawValues.length, error: "未找到亏损交易。无法计算1R风险单位。" };
-  }
-
-  const avgLoss = negativeValues.reduce((a, b) => a + b, 0) / negativeValues.length;
-  // Requirement: 1R = |Average Loss |
-  const rUnit = Math.abs(avgLoss);
-
-  if (rUnit === 0) {
-      return { rMultiples: [], rUnit: 0, validCount: rawValues.length, error: "计算得出的R单位为0。" };
+  // Default requirement: 1R = |Average Loss|, other definitions are selectable
+  const { rUnit, error } = calculateRUnit(rawValues, rUnitConfig);
+  if (error) {
+     return { rMultiples: [], rUnit: 0, validCount: rawValues.length, error };
   }
 
   const rMultiples = rawValues.map(v => v / rUnit);
-  let n = rawValues.length;
-  if (n > 100) n = 100; // Clamp to 100 for SQN calc as per instructions
+  // Clamp to the SQN cap (100 by default, i.e. SQN100)
+  const n = Math.min(rawValues.length, sqnCap);
 
   return { rMultiples, rUnit, validCount: n };
 };
@@ -165,10 +338,29 @@ export const parseRawData = (inputText: string): { rMultiples: number[]; rUnit:
 export const runMonteCarloSimulation = (
   pool: number[], 
   systemMetrics: SystemMetrics,
-  config: SimulationConfig
+  config: SimulationConfig,
+  options: SimulationRunOptions = {}
 ): SimulationResults => {
   
-  const { totalSimulations, tradesPerSimulation } = config;
+  const { totalSimulations, tradesPerSimulation, drawdownThreshold } = config;
+  const {
+    rng, onProgress, histogramBins = DEFAULT_HISTOGRAM_BINS, bootstrapResamples = DEFAULT_BOOTSTRAP_RESAMPLES,
+    maxRetainedSimulations = DEFAULT_MAX_RETAINED_SIMULATIONS, maxEquityCap = DEFAULT_MAX_EQUITY_CAP
+  } = options;
+  // Resolve the seed up front so the results always record how to reproduce them.
+  // An explicitly supplied rng takes precedence (the seed is then informational only).
+  const seed = resolveSeed(config.seed);
+  const random = rng ?? createSeededRandom(seed);
+  const progressInterval = Math.max(1, Math.floor(totalSimulations / 100));
+
+  // Confidence intervals for the input statistics. Separate stream derived from the same seed,
+  // so adding them does not change the simulated paths for a given seed. A supplied rng drives
+  // both, so the whole result depends on it alone.
+  const bootstrapRandom = rng ?? createSeededRandom((seed ^ 0x9E3779B9) >>> 0);
+  const bootstrap = calculateBootstrapIntervals(pool, systemMetrics.n, bootstrapRandom, bootstrapResamples);
+
+  const sampleSequence = createTradeSampler(pool, config.resampleMode, config.blockLength, random);
+  const sequence: number[] = new Array(tradesPerSimulation);
   const results: SimulationMetrics[] = [];
 
   // Trackers for Equity Curves
@@ -181,6 +373,13 @@ export const runMonteCarloSimulation = (
   let shortDur = { val: Infinity, path: [] as number[] }; // Shortest Duration
   
   const sumCurve = new Array(tradesPerSimulation + 1).fill(0);
+  const equityBands = createPathPercentileTracker(tradesPerSimulation + 1);
+  const underwaterBands = createPathPercentileTracker(tradesPerSimulation + 1);
+  const underwaterPath: number[] = new Array(tradesPerSimulation + 1).fill(0);
+
+  // The same sequences replayed on an account in currency
+  const equityConfig = resolveEquitySimulationConfig(config);
+  const accountTracker = createEquityPathTracker(equityConfig, tradesPerSimulation, maxEquityCap);
 
   for (let i = 0; i < totalSimulations; i++) {
     let currentEquity = 0;
@@ -199,14 +398,24 @@ export const runMonteCarloSimulation = (
     let currentDrawdownDuration = 0;
     let maxDrawdownDuration = 0;
 
+    // Drawdown episodes: an episode runs from a peak until the next new equity high
+    let episodeDepth = 0;
+    let episodeCount = 0;
+    let episodeDepthSum = 0;
+    let deepEpisodeCount = 0;
+    let maxDDTroughStep = 0;
+    let maxDDPending = false; // Max-DD trough seen but no new high yet
+    let recoveryTrades: number | null = null;
+
     // Equity Curve for this sim (Start at 0)
     const currentPath = new Array(tradesPerSimulation + 1);
     currentPath[0] = 0;
 
+    // Draw this sim's trade sequence according to the resampling mode
+    sampleSequence(sequence, tradesPerSimulation);
+
     for (let t = 0; t < tradesPerSimulation; t++) {
-      // Random sampling with replacement
-      const randomIndex = Math.floor(Math.random() * pool.length);
-      const r = pool[randomIndex];
+      const r = sequence[t];
 
       // Update Equity
       currentEquity += r;
@@ -220,11 +429,30 @@ export const runMonteCarloSimulation = (
       if (currentEquity > peakEquity) {
         peakEquity = currentEquity;
         currentDrawdownDuration = 0; // Reset duration at new high
+
+        // Close the running drawdown episode
+        if (episodeDepth > 0) {
+          episodeCount++;
+          episodeDepthSum += episodeDepth;
+          if (episodeDepth >= drawdownThreshold) deepEpisodeCount++;
+          episodeDepth = 0;
+        }
+        if (maxDDPending) {
+          recoveryTrades = t + 1 - maxDDTroughStep;
+          maxDDPending = false;
+        }
       } else {
         const drawdown = peakEquity - currentEquity;
-        if (drawdown > maxDrawdownR) maxDrawdownR = drawdown;
+        if (drawdown > maxDrawdownR) {
+          maxDrawdownR = drawdown;
+          maxDDTroughStep = t + 1;
+          maxDDPending = true;
+          recoveryTrades = null;
+        }
+        if (drawdown > episodeDepth) episodeDepth = drawdown;
         currentDrawdownDuration++;
       }
+      underwaterPath[t + 1] = currentEquity - peakEquity;
 
       if (currentDrawdownDuration > maxDrawdownDuration) {
         maxDrawdownDuration = currentDrawdownDuration;
@@ -250,6 +478,16 @@ export const runMonteCarloSimulation = (
     for(let k=0; k < currentPath.length; k++) {
         sumCurve[k] += currentPath[k];
     }
+    equityBands.add(currentPath);
+    underwaterBands.add(underwaterPath);
+    accountTracker.add(sequence);
+
+    // An episode still open at the end of the sim is a drawdown all the same
+    if (episodeDepth > 0) {
+      episodeCount++;
+      episodeDepthSum += episodeDepth;
+      if (episodeDepth >= drawdownThreshold) deepEpisodeCount++;
+    }
 
     // Check Records
     // 1. Best Final Result
@@ -289,8 +527,15 @@ export const runMonteCarloSimulation = (
       maxProfitR,
       maxConsecutiveLosses: maxLossStreak,
       maxConsecutiveWins: maxWinStreak,
-      drawdownDuration: maxDrawdownDuration
+      drawdownDuration: maxDrawdownDuration,
+      recoveryTrades,
+      drawdownCount: deepEpisodeCount,
+      avgDrawdownDepth: episodeCount > 0 ? episodeDepthSum / episodeCount : 0
     });
+
+    if (onProgress && (i + 1) % progressInterval === 0) {
+      onProgress(Math.round(((i + 1) / totalSimulations) * 100));
+    }
   }
 
   // --- Post Analysis ---
@@ -301,6 +546,11 @@ export const runMonteCarloSimulation = (
   const consecLosses = results.map(r => r.maxConsecutiveLosses);
   const consecWins = results.map(r => r.maxConsecutiveWins);
   const durations = results.map(r => r.drawdownDuration);
+  const recoveryTimes = results
+    .map(r => r.recoveryTrades)
+    .filter((v): v is number => v !== null);
+  const drawdownCounts = results.map(r => r.drawdownCount);
+  const avgDrawdownDepths = results.map(r => r.avgDrawdownDepth);
 
   // Probability of Profit
   const profitCount = finalResults.filter(r => r > 0).length;
@@ -316,10 +566,15 @@ export const runMonteCarloSimulation = (
   const avgDrawdown = maxDrawdowns.reduce((a, b) => a + b, 0) / totalSimulations;
   const rewardRiskRatio = avgDrawdown === 0 ? 0 : avgFinal / avgDrawdown;
 
+  // Sims with a drawdown that never got back above the preceding peak
+  const drawdownSims = results.filter(r => r.maxDrawdownR > 0).length;
+  const unrecoveredRate = ((drawdownSims - recoveryTimes.length) / totalSimulations) * 100;
+
   const riskMetrics: RiskMetrics = {
     probabilityOfProfit,
     p95DrawdownDuration,
-    rewardRiskRatio
+    rewardRiskRatio,
+    unrecoveredRate
   };
 
   // Compile Equity Curves
@@ -332,19 +587,25 @@ export const runMonteCarloSimulation = (
       { name: '回撤最小 (Min Drawdown)', data: shallowestDD.path, color: '#2563eb', zIndex: 5 },
       { name: '回撤期最长 (Longest DD)', data: longDur.path, color: '#ea580c', zIndex: 5 },
       { name: '回撤期最短 (Shortest DD)', data: shortDur.path, color: '#0891b2', zIndex: 5 },
-      { name: '平均收益 (Average)', data: avgPath, color: '#4b5563', strokeWidth: 2, strokeDasharray: '4 4', zIndex: 20 },
+      { name: AVERAGE_CURVE_NAME, data: avgPath, color: '#4b5563', strokeWidth: 2, strokeDasharray: '4 4', zIndex: 20 },
   ];
 
+  const account = accountTracker.result();
+  const accountValues = account.values;
+
   return {
-    systemMetrics,
+    systemMetrics: { ...systemMetrics, bootstrap },
     riskMetrics,
-    simulationConfig: config,
+    simulationConfig: { ...config, seed, equity: equityConfig },
     charts: {
-      maxDrawdown: generateHistogramData(maxDrawdowns),
-      maxProfit: generateHistogramData(maxProfits),
-      finalResult: generateHistogramData(finalResults),
-      consecLosses: generateHistogramData(consecLosses),
-      consecWins: generateHistogramData(consecWins),
+      maxDrawdown: generateHistogramData(maxDrawdowns, histogramBins),
+      maxProfit: generateHistogramData(maxProfits, histogramBins),
+      finalResult: generateHistogramData(finalResults, histogramBins),
+      consecLosses: generateHistogramData(consecLosses, histogramBins),
+      consecWins: generateHistogramData(consecWins, histogramBins),
+      recoveryTime: generateHistogramData(recoveryTimes, histogramBins),
+      drawdownCount: generateHistogramData(drawdownCounts, histogramBins),
+      avgDrawdownDepth: generateHistogramData(avgDrawdownDepths, histogramBins),
     },
     stats: {
       maxDrawdown: calculateStats(maxDrawdowns),
@@ -352,201 +613,309 @@ export const runMonteCarloSimulation = (
       finalResult: calculateStats(finalResults),
       consecLosses: calculateStats(consecLosses),
       consecWins: calculateStats(consecWins),
+      recoveryTime: calculateStats(recoveryTimes),
+      drawdownCount: calculateStats(drawdownCounts),
+      avgDrawdownDepth: calculateStats(avgDrawdownDepths),
     },
     rDistribution: pool,
-    equityCurves
+    equityCurves,
+    equityPercentiles: equityBands.result(),
+    underwaterPercentiles: underwaterBands.result(),
+    ...(config.retainSimulations ? { simulations: createSimulationRecords(results, maxRetainedSimulations) } : {}),
+    equity: {
+      startingEquity: equityConfig.startingEquity,
+      floorEquity: equityConfig.startingEquity * equityConfig.floorPercent / 100,
+      probBelowFloor: account.probBelowFloor,
+      probLoss: account.probLoss,
+      charts: {
+        finalEquity: generateHistogramData(accountValues.finalEquity, histogramBins),
+        maxDrawdownPct: generateHistogramData(accountValues.maxDrawdownPct, histogramBins),
+        growthPerTrade: generateHistogramData(accountValues.growthPerTrade, histogramBins),
+      },
+      stats: {
+        finalEquity: calculateStats(accountValues.finalEquity),
+        returnPct: calculateStats(accountValues.returnPct),
+        maxDrawdownPct: calculateStats(accountValues.maxDrawdownPct),
+        growthPerTrade: calculateStats(accountValues.growthPerTrade),
+      },
+      equityPercentiles: account.equityPercentiles,
+      underwaterPercentiles: account.underwaterPercentiles
+    }
   };
 };
 
 // --- Optimal F (Position Sizing) Calculation ---
 
-// Using a Generator function to yield progress back to the UI loop
-export async function* calculateOptimalF(
-  rPool: number[],
-  config: OptimalFConfig
-) {
-  const { successThreshold, failureThreshold, tradesPerSim, totalSims, riskMode } = config;
+const OPTIMAL_F_APPROACHES = {
+  avgGain: '最大平均回报 (Max Avg Gain)',
+  medianGain: '最大中位数回报 (Max Median Gain)',
+  probSuccess: '最大成功概率 (Max Prob. Success)',
+  ruin1Pct: '失败概率 < 1% 且最接近 (Ruin ≈ 1%)',
+  minPositiveRuin: '最小正失败概率 (Min Positive Ruin)',
+  spread: '最大 (成功率 - 失败率) 差值 (Max Prob. Success - Ruin)',
+};
 
-  // Trackers for the 6 approaches
-  let bestAvgGain = { f: 0, val: -Infinity, row: null as any };
-  let bestMedianGain = { f: 0, val: -Infinity, row: null as any };
-  let bestProbSuccess = { f: 0, val: -Infinity, row: null as any };
-  let bestProbRuin1Pct = { f: 0, val: Infinity, row: null as any }; // diff from 1%
-  let bestProbRuinMin = { f: 0, val: Infinity, row: null as any };
-  let bestSpread = { f: 0, val: -Infinity, row: null as any };
+// The best risk level for each of the 6 approaches, in bestRows order; null where no level qualifies.
+// Points must be in ascending risk order: ties go to the lowest risk.
+const selectOptimalRows = (points: OptimalFChartPoint[]): (OptimalFResultRow | null)[] => {
+  let bestAvgGain = { val: -Infinity, row: null as OptimalFResultRow | null };
+  let bestMedianGain = { val: -Infinity, row: null as OptimalFResultRow | null };
+  let bestProbSuccess = { val: -Infinity, row: null as OptimalFResultRow | null };
+  let bestProbRuin1Pct = { val: Infinity, row: null as OptimalFResultRow | null }; // diff from 1%
+  let bestProbRuinMin = { val: Infinity, avgGain: -Infinity, row: null as OptimalFResultRow | null };
+  let bestSpread = { val: -Infinity, row: null as OptimalFResultRow | null };
+
+  for (const point of points) {
+    const { probSuccess, probRuin, avgGain: avgGainPct, medianGain: medianGainPct } = point;
+    const rowFor = (approach: string): OptimalFResultRow => ({
+      approach,
+      optimalRisk: point.risk,
+      probSuccess: Number(probSuccess.toFixed(2)),
+      probRuin: Number(probRuin.toFixed(2)),
+      avgGain: Number(avgGainPct.toFixed(2)),
+      medianGain: Number(medianGainPct.toFixed(2))
+    });
 
-  // Data for charts
-  const chartData: OptimalFChartPoint[] = [];
+    // 1. Max Average Return
+    if (avgGainPct > bestAvgGain.val) {
+      bestAvgGain = { val: avgGainPct, row: rowFor(OPTIMAL_F_APPROACHES.avgGain) };
+    }
 
-  // Loop f from 0.1% to 30.0%
-  const startF = 0.1;
-  const endF = 30.0;
-  const stepF = 0.1;
-  const totalSteps = Math.round((endF - startF) / stepF) + 1;
+    // 2. Max Median Return
+    if (medianGainPct > bestMedianGain.val) {
+      bestMedianGain = { val: medianGainPct, row: rowFor(OPTIMAL_F_APPROACHES.medianGain) };
+    }
 
-  let stepCount = 0;
+    // 3. Max Prob Success
+    if (probSuccess > bestProbSuccess.val) {
+      bestProbSuccess = { val: probSuccess, row: rowFor(OPTIMAL_F_APPROACHES.probSuccess) };
+    }
+
+    // 4. Ruin < 1% and closest to 1%
+    if (probRuin < 1.0) {
+      const diff = Math.abs(probRuin - 1.0);
+      if (diff < bestProbRuin1Pct.val) {
+        bestProbRuin1Pct = { val: diff, row: rowFor(OPTIMAL_F_APPROACHES.ruin1Pct) };
+      }
+    }
+
+    // 5. Min Prob Ruin (> 0)
+    // Lowest POSITIVE non-zero probability of ruin; ties go to the higher average gain
+    if (probRuin > 0) {
+      if (probRuin < bestProbRuinMin.val || (probRuin === bestProbRuinMin.val && avgGainPct > bestProbRuinMin.avgGain)) {
+        bestProbRuinMin = { val: probRuin, avgGain: avgGainPct, row: rowFor(OPTIMAL_F_APPROACHES.minPositiveRuin) };
+      }
+    }
+
+    // 6. Max (Success - Ruin)
+    const spread = probSuccess - probRuin;
+    if (spread > bestSpread.val) {
+      bestSpread = { val: spread, row: rowFor(OPTIMAL_F_APPROACHES.spread) };
+    }
+  }
+
+  return [bestAvgGain.row, bestMedianGain.row, bestProbSuccess.row, bestProbRuin1Pct.row, bestProbRuinMin.row, bestSpread.row];
+};
+
+// The levels of OptimalFAnalysisResult.analyticRows, rounded to 0.01%; 0 where there is no answer
+const closedFormReferences = (sizing: ClosedFormSizing): { approach: string; risk: number }[] => {
+  const round = (risk: number | null) => Number((risk ?? 0).toFixed(2));
+  return [
+    { approach: 'Kelly 比例 (Kelly Fraction)', risk: round(sizing.kellyRisk) },
+    ...KELLY_FRACTIONS.map(({ fraction, label }) => ({
+      approach: label,
+      risk: round(sizing.kellyRisk === null ? null : sizing.kellyRisk * fraction)
+    })),
+    { approach: `Vince 最优 f (Optimal f${sizing.vinceF !== null ? ` = ${sizing.vinceF.toFixed(3)}` : ''})`, risk: round(sizing.vinceRisk) }
+  ];
+};
+
+// Using a Generator function to yield progress back to the caller (normally the simulation worker)
+export async function* calculateOptimalF(
+  rPool: number[],
+  config: OptimalFConfig,
+  options: SimulationRunOptions = {}
+): AsyncGenerator<number, OptimalFAnalysisResult> {
+  const { successThreshold, failureThreshold, tradesPerSim, totalSims, riskMode } = config;
+  const sizingParams = resolveSizingParams(config);
+  const sweep = resolveRiskSweep(config);
+  const sweepError = validateRiskSweep(sweep);
+  if (sweepError) throw new Error(sweepError);
+  const { rng, maxEquityCap = DEFAULT_MAX_EQUITY_CAP, maxSequenceMatrixBytes = DEFAULT_MAX_SEQUENCE_MATRIX_BYTES } = options;
+  const seed = resolveSeed(config.seed);
+  const random = rng ?? createSeededRandom(seed);
+
+  // Common random numbers: every risk level replays the same trade sequences, in chunks when they
+  // do not fit in memory. Otherwise each level draws fresh trades (the stream older seeds reproduce).
+  const commonRandomNumbers = config.commonRandomNumbers ?? false;
+  const matrix = commonRandomNumbers ? createSequenceMatrix(rPool, totalSims, tradesPerSim, random, maxSequenceMatrixBytes) : null;
+  const chunkCount = matrix ? matrix.chunkCount : 1;
+
+  // One Monte Carlo batch at risk level f (in %)
+  const evaluateRisk = (f: number): OptimalFChartPoint => {
+    // The position sizing model turns the swept percentage into money at risk per trade
+    const sizer = createPositionSizer(riskMode, f, sizingParams);
 
-  for (let f = startF; f <= endF + 0.0001; f += stepF) {
-    stepCount++;
-    
-    // Convert percentage to decimal
-    const riskDecimal = f / 100.0;
-    
     // Stats for this f
     let successCount = 0;
     let ruinCount = 0;
     const finalEquities: number[] = [];
 
     // Run Simulations
-    for (let s = 0; s < totalSims; s++) {
-      let equity = 1.0; // Start at 100%
-      let ruined = false;
-
-      // Run Trades
-      for (let t = 0; t < tradesPerSim; t++) {
-        // Sample R
-        const rIndex = Math.floor(Math.random() * rPool.length);
-        const r = rPool[rIndex];
+    for (let c = 0; c < chunkCount; c++) {
+      const chunk = matrix ? matrix.chunk(c) : null;
+      const chunkSims = chunk ? chunk.sims : totalSims;
+      for (let s = 0; s < chunkSims; s++) {
+        const offset = s * tradesPerSim;
+        let equity = 1.0; // Start at 100%
+        let ruined = false;
+        sizer.reset();
+
+        // Run Trades
+        for (let t = 0; t < tradesPerSim; t++) {
+          // Sample R (or replay the shared sequence)
+          const r = chunk ? chunk.values[offset + t] : rPool[randomIndex(random, rPool.length)];
         
-        let pnl = 0;
-        if (riskMode === RiskMode.FIXED_FRACTIONAL) {
-           pnl = equity * riskDecimal * r;
-        } else {
-           // Fixed Initial (Initial is always 1.0)
-           pnl = 1.0 * riskDecimal * r; 
-        }
-
-        equity += pnl;
+          equity += sizer.riskAmount(equity) * r;
 
-        // CAP Logic to prevent Infinity / NaN
-        if (equity > MAX_EQUITY_CAP) {
-            equity = MAX_EQUITY_CAP;
-        }
+          // CAP Logic to prevent Infinity / NaN
+          if (equity > maxEquityCap) {
+              equity = maxEquityCap;
+          }
         
-        // FLOOR Logic to prevent Negative Equity (Debt)
-        // Market limits loss to 100% (equity = 0)
-        if (equity < 0) {
-            equity = 0;
-        }
+          // FLOOR Logic to prevent Negative Equity (Debt)
+          // Market limits loss to 100% (equity = 0)
+          if (equity < 0) {
+              equity = 0;
+          }
 
-        // Ruin check: e.g., if threshold is -25%, equity limit is 0.75
-        // We use slightly forgiving logic: only ruin if we end a trade below limit
-        if (equity <= (1 + failureThreshold / 100)) {
-           ruined = true;
-           break; // Stop trading this run
-        }
+          // Ruin check: e.g., if threshold is -25%, equity limit is 0.75
+          // We use slightly forgiving logic: only ruin if we end a trade below limit
+          if (equity <= (1 + failureThreshold / 100)) {
+             ruined = true;
+             break; // Stop trading this run
+          }
 
-        // Note: We DO NOT check success here inside loop as per requirements.
-        // Success is only counted if FINAL equity >= threshold.
-      }
+          // Note: We DO NOT check success here inside loop as per requirements.
+          // Success is only counted if FINAL equity >= threshold.
+        }
 
-      if (ruined) {
-          ruinCount++;
-      } else {
-          // Only check success if not ruined (or just check equity at end)
-          // "只有本轮最终权益≥成功阈值，才算成功"
-          if (equity >= (1 + successThreshold / 100)) {
-              successCount++;
-          }
-      }
+        if (ruined) {
+            ruinCount++;
+        } else {
+            // Only check success if not ruined (or just check equity at end)
+            // "只有本轮最终权益≥成功阈值，才算成功"
+            if (equity >= (1 + successThreshold / 100)) {
+                successCount++;
+            }
+        }
       
-      finalEquities.push(equity);
+        finalEquities.push(equity);
+      }
     }
 
     // Calculate Aggregates for this f
     const avgEquity = finalEquities.reduce((a, b) => a + b, 0) / totalSims;
-    const probSuccess = (successCount / totalSims) * 100;
-    const probRuin = (ruinCount / totalSims) * 100;
     
     // Sort for median
     finalEquities.sort((a, b) => a - b);
     const mid = Math.floor(finalEquities.length / 2);
     const medianEquity = finalEquities.length % 2 !== 0 ? finalEquities[mid] : (finalEquities[mid-1] + finalEquities[mid])/2;
 
-    const avgGainPct = (avgEquity - 1) * 100;
-    const medianGainPct = (medianEquity - 1) * 100;
-
-    const optimalRisk = Number(f.toFixed(1));
-
-    // Store Chart Data
-    chartData.push({
-      risk: optimalRisk,
-      probSuccess,
-      probRuin,
-      avgGain: avgGainPct,
-      medianGain: medianGainPct
-    });
-
-    const currentRow: OptimalFResultRow = {
-      approach: '', // Filled later
-      optimalRisk,
-      probSuccess: Number(probSuccess.toFixed(2)),
-      probRuin: Number(probRuin.toFixed(2)),
-      avgGain: Number(avgGainPct.toFixed(2)),
-      medianGain: Number(medianGainPct.toFixed(2))
+    return {
+      risk: f,
+      probSuccess: (successCount / totalSims) * 100,
+      probRuin: (ruinCount / totalSims) * 100,
+      avgGain: (avgEquity - 1) * 100,
+      medianGain: (medianEquity - 1) * 100
     };
+  };
 
-    // --- Compare with Goals ---
-    
-    // 1. Max Average Return
-    if (avgGainPct > bestAvgGain.val) {
-      bestAvgGain = { f, val: avgGainPct, row: { ...currentRow, approach: '最大平均回报 (Max Avg Gain)' } };
-    }
+  // Closed-form references, simulated like any other level. They are in % of current equity, which only
+  // the percent risk model sweeps.
+  const closedForm = riskMode === RiskMode.FIXED_FRACTIONAL ? calculateClosedFormSizing(rPool) : null;
+  const references = closedForm ? closedFormReferences(closedForm) : [];
+  const referenceSteps = references.filter(ref => ref.risk > 0).length;
 
-    // 2. Max Median Return
-    if (medianGainPct > bestMedianGain.val) {
-      bestMedianGain = { f, val: medianGainPct, row: { ...currentRow, approach: '最大中位数回报 (Max Median Gain)' } };
-    }
-
-    // 3. Max Prob Success
-    if (probSuccess > bestProbSuccess.val) {
-      bestProbSuccess = { f, val: probSuccess, row: { ...currentRow, approach: '最大成功概率 (Max Prob. Success)' } };
-    } else if (probSuccess === bestProbSuccess.val && avgGainPct > bestAvgGain.val) {
-       // Tie breaker
-    }
+  // Chart data by risk level
+  const evaluated = new Map<number, OptimalFChartPoint>();
+  const sortedPoints = () => [...evaluated.values()].sort((a, b) => a.risk - b.risk);
 
-    // 4. Ruin < 1% and closest to 1%
-    if (probRuin < 1.0) {
-      const diff = Math.abs(probRuin - 1.0);
-      if (diff < bestProbRuin1Pct.val) {
-        bestProbRuin1Pct = { f, val: diff, row: { ...currentRow, approach: '失败概率 < 1% 且最接近 (Ruin ≈ 1%)' } };
-      }
-    }
-
-    // 5. Min Prob Ruin (> 0)
-    // Modified to find lowest POSITIVE non-zero probability of ruin
-    if (probRuin > 0) {
-       if (probRuin < bestProbRuinMin.val) {
-          bestProbRuinMin = { f, val: probRuin, row: { ...currentRow, approach: '最小正失败概率 (Min Positive Ruin)' } };
-       } else if (probRuin === bestProbRuinMin.val) {
-          if (avgGainPct > bestProbRuinMin.row?.avgGain) {
-             bestProbRuinMin = { f, val: probRuin, row: { ...currentRow, approach: '最小正失败概率 (Min Positive Ruin)' } };
-          }
-       }
-    }
+  // Grid: every level. Adaptive: the coarse scan first; the total is an upper bound until it is done
+  const isAdaptive = sweep.mode === SweepMode.ADAPTIVE;
+  let pending = isAdaptive ? coarseSweepLevels(sweep) : sweepGrid(sweep);
+  let totalSteps = estimateSweepPoints(sweep) + referenceSteps;
+  let stepCount = 0;
 
-    // 6. Max (Success - Ruin)
-    const spread = probSuccess - probRuin;
-    if (spread > bestSpread.val) {
-      bestSpread = { f, val: spread, row: { ...currentRow, approach: '最大 (成功率 - 失败率) 差值 (Max Prob. Success - Ruin)' } };
+  for (let pass = 0; pass < (isAdaptive ? 2 : 1); pass++) {
+    if (pass === 1) {
+      // Every fine level within one coarse step of each approach's coarse optimum
+      const refine = new Set<number>();
+      selectOptimalRows(sortedPoints()).forEach(row => {
+        if (row) refinementLevels(sweep, row.optimalRisk).forEach(f => { if (!evaluated.has(f)) refine.add(f); });
+      });
+      pending = [...refine].sort((a, b) => a - b);
+      totalSteps = stepCount + pending.length + referenceSteps;
     }
 
-    // Yield progress every 5 steps (0.5%)
-    if (stepCount % 5 === 0) {
+    for (const f of pending) {
+      evaluated.set(f, evaluateRisk(f));
+      stepCount++;
+      // Yield progress after every risk level; the worker forwards it to the UI
       yield Math.round((stepCount / totalSteps) * 100);
     }
   }
 
   // Finished.
-  const bestRows = [
-    bestAvgGain.row,
-    bestMedianGain.row,
-    bestProbSuccess.row,
-    bestProbRuin1Pct.row || { approach: '失败概率 < 1% (无结果)', optimalRisk: 0, probSuccess: 0, probRuin: 0, avgGain: 0, medianGain: 0 },
-    bestProbRuinMin.row || { approach: '最小正失败概率 (无/None)', optimalRisk: 0, probSuccess: 0, probRuin: 0, avgGain: 0, medianGain: 0 },
-    bestSpread.row
+  const chartData = sortedPoints();
+  const [avgGain, medianGain, probSuccess, ruin1Pct, minPositiveRuin, spread] = selectOptimalRows(chartData);
+  const bestRows: OptimalFResultRow[] = [
+    avgGain!,
+    medianGain!,
+    probSuccess!,
+    ruin1Pct || { approach: '失败概率 < 1% (无结果)', optimalRisk: 0, probSuccess: 0, probRuin: 0, avgGain: 0, medianGain: 0 },
+    minPositiveRuin || { approach: '最小正失败概率 (无/None)', optimalRisk: 0, probSuccess: 0, probRuin: 0, avgGain: 0, medianGain: 0 },
+    spread!
   ];
 
+  // The references reuse a sweep point at the same level; they stay out of the chart data
+  const analyticRows: OptimalFResultRow[] = [];
+  for (const { approach, risk } of references) {
+    if (!(risk > 0)) {
+      analyticRows.push({ approach: `${approach} (无/None)`, optimalRisk: 0, probSuccess: 0, probRuin: 0, avgGain: 0, medianGain: 0 });
+      continue;
+    }
+    const point = evaluated.get(risk) ?? evaluateRisk(risk);
+    analyticRows.push({
+      approach,
+      optimalRisk: risk,
+      probSuccess: Number(point.probSuccess.toFixed(2)),
+      probRuin: Number(point.probRuin.toFixed(2)),
+      avgGain: Number(point.avgGain.toFixed(2)),
+      medianGain: Number(point.medianGain.toFixed(2))
+    });
+    stepCount++;
+    yield Math.round((stepCount / totalSteps) * 100);
+  }
+
   // Return final complex object
-  return { bestRows, chartData };
+  const result: OptimalFAnalysisResult = {
+    bestRows, chartData, riskMode, sweep, commonRandomNumbers, seed,
+    ...(closedForm ? { analyticRows, closedForm } : {})
+  };
+  return result;
 }
+
+// Runs the whole Optimal F sweep, reporting progress through options.onProgress
+export const runOptimalFAnalysis = async (
+  rPool: number[],
+  config: OptimalFConfig,
+  options: SimulationRunOptions = {}
+): Promise<OptimalFAnalysisResult> => {
+  const generator = calculateOptimalF(rPool, config, options);
+  while (true) {
+    const next = await generator.next();
+    if (next.done) return next.value;
+    options.onProgress?.(next.value as number);
+  }
+};
@@ -0,0 +1,58 @@
+import { ClosedFormSizing } from '../types';
+
+// --- Closed-form Optimal Sizing ---
+// Analytic references for the Monte Carlo optimum, computed from the R distribution alone and expressed
+// in the unit the percent risk model sweeps: % of current equity risked per 1R.
+//
+// Kelly treats the trades as a discrete distribution and takes the k maximizing the expected log growth
+// mean(log(1 + k · R)), with k below 1 / |worst R| so no trade can wipe out the account. Vince's optimal f
+// is the f in (0, 1) maximizing the geometric mean of HPR = 1 + f · R / |worst R|, so 1R risks f / |worst R|.
+// Both maximize the same growth over the same trades: they agree up to the bisection tolerance, Vince
+// additionally reports the fraction of the worst loss.
+
+// Fractions of full Kelly shown next to it
+export const KELLY_FRACTIONS = [
+  { fraction: 0.5, label: '½ Kelly (Half Kelly)' },
+  { fraction: 0.25, label: '¼ Kelly (Quarter Kelly)' },
+];
+
+const BISECTION_STEPS = 100;
+
+const emptySizing: ClosedFormSizing = { kellyRisk: null, vinceF: null, vinceRisk: null, worstLoss: 0, geometricMean: null };
+
+// Maximum of a concave function on [0, upper) from its slope, which falls to -Infinity at `upper`.
+// A non-positive slope at 0 (no edge) means the optimum is 0: do not trade.
+const maximizeBySlope = (slope: (x: number) => number, upper: number): number => {
+  if (!(slope(0) > 0)) return 0;
+  let lo = 0;
+  let hi = upper;
+  for (let i = 0; i < BISECTION_STEPS; i++) {
+    const mid = (lo + hi) / 2;
+    if (slope(mid) > 0) lo = mid; else hi = mid;
+  }
+  return lo;
+};
+
+export const calculateClosedFormSizing = (rMultiples: number[]): ClosedFormSizing => {
+  const losses = rMultiples.filter(r => r < 0);
+  // Without a loss the growth never stops increasing: there is no optimum
+  if (losses.length === 0) return emptySizing;
+
+  const worstLoss = Math.min(...losses);
+
+  // Kelly: d/dk mean(log(1 + k · R)) = mean(R / (1 + k · R))
+  const kelly = maximizeBySlope(k => rMultiples.reduce((sum, r) => sum + r / (1 + k * r), 0), 1 / -worstLoss);
+
+  // Vince: the same on the HPRs, with each trade scaled by the worst loss
+  const scaled = rMultiples.map(r => r / -worstLoss);
+  const vinceF = maximizeBySlope(f => scaled.reduce((sum, x) => sum + x / (1 + f * x), 0), 1);
+  const logSum = scaled.reduce((sum, x) => sum + Math.log(1 + vinceF * x), 0);
+
+  return {
+    kellyRisk: kelly * 100,
+    vinceF,
+    vinceRisk: (vinceF / -worstLoss) * 100,
+    worstLoss,
+    geometricMean: Math.exp(logSum / rMultiples.length)
+  };
+};
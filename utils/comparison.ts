@@ -0,0 +1,111 @@
+import { ChartDataPoint, SimulationResults } from '../types';
+import { AVERAGE_CURVE_NAME } from './calculations';
+
+// --- Result Comparison ---
+// Shared by the system comparison view and the run history diff.
+
+export const MIN_COMPARED_SYSTEMS = 2;
+export const MAX_COMPARED_SYSTEMS = 4;
+
+export type MetricDirection = 'higher' | 'lower' | 'none'; // Which way is better ('none' = informational)
+
+export interface ComparisonMetric {
+  key: string;
+  group: string;
+  label: string;
+  direction: MetricDirection;
+  format: (value: number) => string;
+  get: (results: SimulationResults) => number;
+}
+
+type StatKey = keyof SimulationResults['charts'];
+
+const fixed = (digits: number, suffix = '') => (v: number) => `${v.toFixed(digits)}${suffix}`;
+
+// Median and P95 of every distribution, with the better direction for a trader
+const STAT_METRICS: { key: StatKey; label: string; direction: MetricDirection; digits: number; suffix: string }[] = [
+  { key: 'finalResult', label: '最终权益 (Final Equity)', direction: 'higher', digits: 2, suffix: 'R' },
+  { key: 'maxProfit', label: '最高峰值 (Max Peak)', direction: 'higher', digits: 2, suffix: 'R' },
+  { key: 'maxDrawdown', label: '最大回撤 (Max Drawdown)', direction: 'lower', digits: 2, suffix: 'R' },
+  { key: 'recoveryTime', label: '恢复时间 (Recovery)', direction: 'lower', digits: 0, suffix: '' },
+  { key: 'drawdownCount', label: '回撤次数 (DD Count)', direction: 'lower', digits: 1, suffix: '' },
+  { key: 'avgDrawdownDepth', label: '平均回撤深度 (Avg DD Depth)', direction: 'lower', digits: 2, suffix: 'R' },
+  { key: 'consecLosses', label: '最大连败 (Consec. Losses)', direction: 'lower', digits: 0, suffix: '' },
+  { key: 'consecWins', label: '最大连胜 (Consec. Wins)', direction: 'higher', digits: 0, suffix: '' },
+];
+
+export const COMPARISON_METRICS: ComparisonMetric[] = [
+  { key: 'sqn', group: '系统指标 (System Metrics)', label: 'SQN', direction: 'higher', format: fixed(2), get: r => r.systemMetrics.sqn },
+  { key: 'expectancy', group: '系统指标 (System Metrics)', label: '期望值 (Expectancy)', direction: 'higher', format: fixed(3, 'R'), get: r => r.systemMetrics.expectancy },
+  { key: 'standardDeviation', group: '系统指标 (System Metrics)', label: '标准差 (Std Dev)', direction: 'none', format: fixed(2, 'R'), get: r => r.systemMetrics.standardDeviation },
+  { key: 'winRate', group: '系统指标 (System Metrics)', label: '胜率 (Win Rate)', direction: 'higher', format: v => `${(v * 100).toFixed(1)}%`, get: r => r.systemMetrics.winRate },
+  { key: 'profitFactor', group: '系统指标 (System Metrics)', label: '盈亏比 (P/L Ratio)', direction: 'higher', format: v => v >= 999 ? '∞' : v.toFixed(2), get: r => r.systemMetrics.profitFactor },
+  { key: 'worstR', group: '系统指标 (System Metrics)', label: '最差单笔 (Worst Trade)', direction: 'higher', format: fixed(2, 'R'), get: r => r.systemMetrics.worstR },
+  { key: 'sampleSize', group: '系统指标 (System Metrics)', label: '样本量 (Sample Size)', direction: 'none', format: fixed(0), get: r => r.systemMetrics.sampleSize },
+
+  { key: 'probabilityOfProfit', group: '风险指标 (Risk Metrics)', label: '盈利概率 (Prob. of Profit)', direction: 'higher', format: fixed(1, '%'), get: r => r.riskMetrics.probabilityOfProfit },
+  { key: 'rewardRiskRatio', group: '风险指标 (Risk Metrics)', label: '收益/回撤比 (Reward/Risk)', direction: 'higher', format: fixed(2), get: r => r.riskMetrics.rewardRiskRatio },
+  { key: 'p95DrawdownDuration', group: '风险指标 (Risk Metrics)', label: '95% 回撤期 (DD Duration)', direction: 'lower', format: fixed(0), get: r => r.riskMetrics.p95DrawdownDuration },
+  { key: 'unrecoveredRate', group: '风险指标 (Risk Metrics)', label: '未恢复比例 (Unrecovered)', direction: 'lower', format: fixed(1, '%'), get: r => r.riskMetrics.unrecoveredRate },
+
+  ...STAT_METRICS.flatMap(({ key, label, direction, digits, suffix }): ComparisonMetric[] => [
+    { key: `${key}.median`, group: '模拟分布 (Distributions)', label: `${label} · 中位数`, direction, format: fixed(digits, suffix), get: r => r.stats[key]?.median ?? NaN },
+    { key: `${key}.p95`, group: '模拟分布 (Distributions)', label: `${label} · P95`, direction, format: fixed(digits, suffix), get: r => r.stats[key]?.p95 ?? NaN },
+  ]),
+];
+
+// Indices of the best value(s); empty when the metric has no direction, values tie, or data is missing
+export const findWinners = (values: number[], direction: MetricDirection): number[] => {
+  const finite = values.filter(v => Number.isFinite(v));
+  if (direction === 'none' || finite.length < 2) return [];
+  const best = direction === 'higher' ? Math.max(...finite) : Math.min(...finite);
+  const winners = values.map((v, i) => (v === best ? i : -1)).filter(i => i >= 0);
+  return winners.length === finite.length ? [] : winners;
+};
+
+export const getAverageCurve = (results: SimulationResults): number[] => (
+  results.equityCurves.find(c => c.name === AVERAGE_CURVE_NAME)?.data ?? results.equityPercentiles.p50
+);
+
+// --- Histogram Alignment ---
+// Each run bins its own value range, so histograms of different systems cannot be overlaid directly.
+// Every source bin is moved (whole) into the common bin containing its midpoint, and counts are
+// turned into % of simulations so runs of different sizes stay comparable.
+
+export interface AlignedHistogramPoint {
+  binLabel: string;
+  binStart: number;
+  [series: string]: number | string; // `s0`, `s1`, ... = % of simulations in this bin
+}
+
+export const alignHistograms = (series: ChartDataPoint[][], bins: number = 30): AlignedHistogramPoint[] => {
+  const sourceBins = series.map(points => points.map((p, i) => {
+    // Bins are equal width; a single-bin histogram (all values equal) gets zero width
+    const width = points.length > 1 ? (i + 1 < points.length ? points[i + 1].binStart - p.binStart : p.binStart - points[i - 1].binStart) : 0;
+    return { start: p.binStart, end: p.binStart + width, frequency: p.frequency };
+  }));
+
+  const all = sourceBins.flat();
+  if (all.length === 0) return [];
+  const min = Math.min(...all.map(b => b.start));
+  const max = Math.max(...all.map(b => b.end));
+  const step = max > min ? (max - min) / bins : 1;
+  const binCount = max > min ? bins : 1;
+
+  const aligned: AlignedHistogramPoint[] = Array.from({ length: binCount }, (_, i) => {
+    const start = min + i * step;
+    return { binLabel: `${start.toFixed(1)} ~ ${(start + step).toFixed(1)}`, binStart: start };
+  });
+
+  sourceBins.forEach((source, s) => {
+    const total = source.reduce((sum, b) => sum + b.frequency, 0) || 1;
+    aligned.forEach(point => { point[`s${s}`] = 0; });
+    source.forEach(b => {
+      const mid = (b.start + b.end) / 2;
+      const index = Math.min(binCount - 1, Math.max(0, Math.floor((mid - min) / step)));
+      aligned[index][`s${s}`] = (aligned[index][`s${s}`] as number) + (b.frequency / total) * 100;
+    });
+  });
+
+  return aligned;
+};
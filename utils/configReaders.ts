@@ -0,0 +1,204 @@
+import {
+  CorrelationType, CostConfig, CostMethod, EquitySimulationConfig, OptimalFConfig, RUnitConfig, RUnitMethod, ResampleMode, RiskAllocationState,
+  RiskMode, RiskSweepConfig, SimulationConfig, SizingModelParams, SqnConfig, SweepMode
+} from '../types';
+import { DEFAULT_R_UNIT_CONFIG, DEFAULT_SQN_CONFIG } from './calculations';
+import { normalizeSeed } from './random';
+import { DEFAULT_SIZING_PARAMS, SIZING_MODELS, clampSizingSetting } from './sizingModels';
+import { DEFAULT_EQUITY_SIMULATION_CONFIG, validateEquitySimulationConfig } from './equitySimulation';
+import { DEFAULT_RISK_SWEEP, MAX_SWEEP_RISK } from './riskSweep';
+import { DEFAULT_COST_CONFIG } from './tradeCosts';
+import { DEFAULT_OPTIMAL_F_CONFIG, DEFAULT_RISK_ALLOCATION, DEFAULT_SIMULATION_CONFIG } from './workspace';
+
+// --- Settings Readers ---
+// Settings from outside the app (project files, share links) are untrusted: hand-edited, truncated or
+// written by another build. Each reader takes the parsed JSON and returns the typed settings, clamped
+// to the ranges the app's inputs allow, or null when a field is malformed. A missing field keeps the
+// default, so files from builds that predate it still load.
+
+export type JsonObject = Record<string, unknown>;
+
+export const isObject = (v: unknown): v is JsonObject => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+export const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+export const isOneOf = <T extends string>(values: Record<string, T>, v: unknown): v is T => (Object.values(values) as unknown[]).includes(v);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// A present field must have the right type; an absent one takes the fallback
+const numberField = (v: unknown, fallback: number): number | null => (v === undefined ? fallback : isFiniteNumber(v) ? v : null);
+const booleanField = (v: unknown, fallback: boolean): boolean | null => (v === undefined ? fallback : typeof v === 'boolean' ? v : null);
+const enumField = <T extends string>(values: Record<string, T>, v: unknown, fallback: T): T | null => (
+  v === undefined ? fallback : isOneOf(values, v) ? v : null
+);
+
+// Same ranges as the input panel and the optimal f widget
+const TRADES_RANGE = [100, 1000] as const;
+const SIMS_RANGE = [10000, 100000] as const;
+const ASSET_COUNT_RANGE = [2, 10] as const;
+
+export const readRUnitConfig = (v: unknown): RUnitConfig | null => {
+  if (!isObject(v)) return null;
+  const base = DEFAULT_R_UNIT_CONFIG;
+  const method = enumField(RUnitMethod, v.method, base.method);
+  const trimPercent = numberField(v.trimPercent, base.trimPercent);
+  const percentile = numberField(v.percentile, base.percentile);
+  const fixedAmount = numberField(v.fixedAmount, base.fixedAmount);
+  if (method === null || trimPercent === null || percentile === null || fixedAmount === null) return null;
+  return { method, trimPercent: clamp(trimPercent, 0, 49), percentile: clamp(percentile, 1, 99), fixedAmount: Math.max(0, fixedAmount) };
+};
+
+export const readCostConfig = (v: unknown): CostConfig | null => {
+  if (!isObject(v)) return null;
+  const base = DEFAULT_COST_CONFIG;
+  const method = enumField(CostMethod, v.method, base.method);
+  const fixedR = numberField(v.fixedR, base.fixedR);
+  const riskPercent = numberField(v.riskPercent, base.riskPercent);
+  const amount = numberField(v.amount, base.amount);
+  if (method === null || fixedR === null || riskPercent === null || amount === null) return null;
+  return { method, fixedR: Math.max(0, fixedR), riskPercent: Math.max(0, riskPercent), amount: Math.max(0, amount) };
+};
+
+export const readSqnConfig = (v: unknown): SqnConfig | null => {
+  if (!isObject(v)) return null;
+  const cap = numberField(v.cap, DEFAULT_SQN_CONFIG.cap);
+  if (cap === null) return null;
+  const config: SqnConfig = { cap: Math.max(10, Math.round(cap)) };
+  if (v.tradesPerYear !== undefined) {
+    if (!(isFiniteNumber(v.tradesPerYear) && v.tradesPerYear > 0)) return null;
+    config.tradesPerYear = v.tradesPerYear;
+  }
+  return config;
+};
+
+const SIZING_NUMBER_KEYS = ['equityPerUnit', 'riskPerMargin', 'stopInAtr', 'profitRisk', 'fixedRatioDelta'] as const;
+
+export const readSizingParams = (v: unknown): SizingModelParams | null => {
+  if (!isObject(v)) return null;
+  const settings = Object.values(SIZING_MODELS).flatMap(model => model.settings);
+  const params: SizingModelParams = { ...DEFAULT_SIZING_PARAMS };
+  for (const key of SIZING_NUMBER_KEYS) {
+    const value = numberField(v[key], params[key]);
+    if (value === null) return null;
+    const setting = settings.find(candidate => candidate.key === key);
+    params[key] = setting ? clampSizingSetting(setting, value) : value;
+  }
+  const ratchet = booleanField(v.ratchet, params.ratchet);
+  if (ratchet === null) return null;
+  params.ratchet = ratchet;
+  return params;
+};
+
+export const readEquityConfig = (v: unknown): EquitySimulationConfig | null => {
+  if (!isObject(v)) return null;
+  const base = DEFAULT_EQUITY_SIMULATION_CONFIG;
+  const riskMode = enumField(RiskMode, v.riskMode, base.riskMode);
+  const startingEquity = numberField(v.startingEquity, base.startingEquity);
+  const riskPercent = numberField(v.riskPercent, base.riskPercent);
+  const floorPercent = numberField(v.floorPercent, base.floorPercent);
+  const sizingParams = v.sizingParams === undefined ? base.sizingParams : readSizingParams(v.sizingParams);
+  if (riskMode === null || startingEquity === null || riskPercent === null || floorPercent === null || !sizingParams) return null;
+  const config: EquitySimulationConfig = { startingEquity, riskPercent, riskMode, sizingParams, floorPercent };
+  return validateEquitySimulationConfig(config) === null ? config : null;
+};
+
+export const readSimulationConfig = (v: unknown): SimulationConfig | null => {
+  if (!isObject(v)) return null;
+  const base = DEFAULT_SIMULATION_CONFIG;
+  const resampleMode = enumField(ResampleMode, v.resampleMode, base.resampleMode);
+  const totalSimulations = numberField(v.totalSimulations, base.totalSimulations);
+  const tradesPerSimulation = numberField(v.tradesPerSimulation, base.tradesPerSimulation);
+  const blockLength = numberField(v.blockLength, base.blockLength);
+  const drawdownThreshold = numberField(v.drawdownThreshold, base.drawdownThreshold);
+  if (resampleMode === null || totalSimulations === null || tradesPerSimulation === null || blockLength === null || drawdownThreshold === null) return null;
+  const config: SimulationConfig = {
+    totalSimulations: clamp(Math.round(totalSimulations), ...SIMS_RANGE),
+    tradesPerSimulation: clamp(Math.round(tradesPerSimulation), ...TRADES_RANGE),
+    resampleMode,
+    blockLength: Math.max(1, Math.round(blockLength)),
+    drawdownThreshold: Math.max(0.1, drawdownThreshold)
+  };
+  if (v.seed !== undefined && v.seed !== null) {
+    if (!isFiniteNumber(v.seed)) return null;
+    config.seed = normalizeSeed(v.seed);
+  }
+  if (v.retainSimulations !== undefined) {
+    if (typeof v.retainSimulations !== 'boolean') return null;
+    config.retainSimulations = v.retainSimulations;
+  }
+  if (v.equity !== undefined) {
+    const equity = readEquityConfig(v.equity);
+    if (!equity) return null;
+    config.equity = equity;
+  }
+  return config;
+};
+
+// Structure and range only; whether the sweep has too many levels is checked when it runs
+export const readRiskSweep = (v: unknown): RiskSweepConfig | null => {
+  if (!isObject(v)) return null;
+  const base = DEFAULT_RISK_SWEEP;
+  const mode = enumField(SweepMode, v.mode, base.mode);
+  const start = numberField(v.start, base.start);
+  const end = numberField(v.end, base.end);
+  const step = numberField(v.step, base.step);
+  if (mode === null || start === null || end === null || step === null || !(start > 0) || !(step > 0)) return null;
+  const [low, high] = start <= end ? [start, end] : [end, start];
+  return { start: Math.min(low, MAX_SWEEP_RISK), end: Math.min(high, MAX_SWEEP_RISK), step, mode };
+};
+
+export const readOptimalFConfig = (v: unknown): OptimalFConfig | null => {
+  if (!isObject(v)) return null;
+  const base = DEFAULT_OPTIMAL_F_CONFIG;
+  const riskMode = enumField(RiskMode, v.riskMode, base.riskMode);
+  const successThreshold = numberField(v.successThreshold, base.successThreshold);
+  const failureThreshold = numberField(v.failureThreshold, base.failureThreshold);
+  const tradesPerSim = numberField(v.tradesPerSim, base.tradesPerSim);
+  const totalSims = numberField(v.totalSims, base.totalSims);
+  const commonRandomNumbers = booleanField(v.commonRandomNumbers, false);
+  const sizingParams = v.sizingParams === undefined ? DEFAULT_SIZING_PARAMS : readSizingParams(v.sizingParams);
+  const sweep = v.sweep === undefined ? DEFAULT_RISK_SWEEP : readRiskSweep(v.sweep);
+  if (riskMode === null || successThreshold === null || failureThreshold === null || tradesPerSim === null || totalSims === null
+    || commonRandomNumbers === null || !sizingParams || !sweep) return null;
+  const config: OptimalFConfig = {
+    successThreshold: Math.max(0, successThreshold),
+    failureThreshold: clamp(failureThreshold, -100, 0),
+    tradesPerSim: clamp(Math.round(tradesPerSim), ...TRADES_RANGE),
+    totalSims: clamp(Math.round(totalSims), ...SIMS_RANGE),
+    riskMode,
+    sizingParams,
+    sweep,
+    commonRandomNumbers
+  };
+  if (v.seed !== undefined && v.seed !== null) {
+    if (!isFiniteNumber(v.seed)) return null;
+    config.seed = normalizeSeed(v.seed);
+  }
+  return config;
+};
+
+export const readRiskAllocation = (v: unknown): RiskAllocationState | null => {
+  if (!isObject(v)) return null;
+  const base = DEFAULT_RISK_ALLOCATION;
+  const step = numberField(v.step, base.step);
+  const assetCount = numberField(v.assetCount, base.assetCount);
+  const maxSingleRisk = numberField(v.maxSingleRisk, base.maxSingleRisk);
+  const allowOverAllocation = booleanField(v.allowOverAllocation, base.allowOverAllocation);
+  if (step === null || assetCount === null || maxSingleRisk === null || allowOverAllocation === null) return null;
+  if (step !== 1 && step !== 2 && step !== 3) return null;
+
+  const assetNames = v.assetNames ?? base.assetNames;
+  const correlationMatrix = v.correlationMatrix ?? base.correlationMatrix;
+  if (!Array.isArray(assetNames) || !assetNames.every(name => typeof name === 'string')) return null;
+  if (!Array.isArray(correlationMatrix) || !correlationMatrix.every(row => Array.isArray(row) && row.every(c => isOneOf(CorrelationType, c)))) return null;
+
+  return {
+    step,
+    assetCount: clamp(Math.round(assetCount), ...ASSET_COUNT_RANGE),
+    assetNames,
+    correlationMatrix,
+    maxSingleRisk: Math.max(0, maxSingleRisk),
+    allowOverAllocation
+  };
+};
@@ -0,0 +1,113 @@
+import { EquitySimulationConfig, PercentileCurves, RiskMode, SimulationConfig } from '../types';
+import { createPathPercentileTracker } from './pathPercentiles';
+import { DEFAULT_SIZING_PARAMS, SIZING_MODELS, createPositionSizer } from './sizingModels';
+
+// --- Account Equity Simulation ---
+// The Monte Carlo works in cumulative R, which says nothing about the account. This replays every
+// simulated trade sequence on an account in currency, each trade risking what the chosen sizing model
+// allows at the current equity, so drawdowns become percentages and compounding shows up.
+
+export const DEFAULT_EQUITY_SIMULATION_CONFIG: EquitySimulationConfig = {
+  startingEquity: 100000,
+  riskPercent: 1,
+  riskMode: RiskMode.FIXED_FRACTIONAL,
+  sizingParams: DEFAULT_SIZING_PARAMS,
+  floorPercent: 50
+};
+
+// The account settings of a simulation config, with defaults for configs saved before they existed
+export const resolveEquitySimulationConfig = (config: Pick<SimulationConfig, 'equity'>): EquitySimulationConfig => ({
+  ...DEFAULT_EQUITY_SIMULATION_CONFIG,
+  ...config.equity,
+  sizingParams: { ...DEFAULT_SIZING_PARAMS, ...config.equity?.sizingParams }
+});
+
+export const validateEquitySimulationConfig = (config: EquitySimulationConfig): string | null => {
+  if (!(config.startingEquity > 0)) return "初始资金必须大于 0。";
+  if (!(config.riskPercent > 0)) return "每笔风险必须大于 0%。";
+  if (!(config.floorPercent >= 0 && config.floorPercent < 100)) return "账户底线必须在 0% 到 100% 之间 (不含 100%)。";
+  return null;
+};
+
+// Short description of a config, e.g. "100,000 · 实时权益百分比 · 复利 (Percent Risk) 1% · 底线 50%"
+export const describeEquitySimulationConfig = (config: EquitySimulationConfig): string => (
+  `${config.startingEquity.toLocaleString()} · ${SIZING_MODELS[config.riskMode].label} ${config.riskPercent}% · 底线 ${config.floorPercent}%`
+);
+
+// Per-sim values in the units of EquitySimulationResults.stats
+export interface EquityPathValues {
+  finalEquity: number[];
+  returnPct: number[];
+  maxDrawdownPct: number[];
+  growthPerTrade: number[];
+}
+
+export interface EquityPathTracker {
+  add: (rMultiples: ArrayLike<number>) => void; // One simulated trade sequence
+  result: () => {
+    values: EquityPathValues;
+    probBelowFloor: number;
+    probLoss: number;
+    equityPercentiles: PercentileCurves;
+    underwaterPercentiles: PercentileCurves;
+  };
+}
+
+// `trades` is the length of every sequence. Equity is capped at maxEquityCap times the start, like the optimizer.
+export const createEquityPathTracker = (config: EquitySimulationConfig, trades: number, maxEquityCap: number): EquityPathTracker => {
+  const { startingEquity } = config;
+  const floor = config.floorPercent / 100;
+  const sizer = createPositionSizer(config.riskMode, config.riskPercent, config.sizingParams);
+
+  const values: EquityPathValues = { finalEquity: [], returnPct: [], maxDrawdownPct: [], growthPerTrade: [] };
+  let floorCount = 0;
+  let lossCount = 0;
+
+  const equityBands = createPathPercentileTracker(trades + 1);
+  const underwaterBands = createPathPercentileTracker(trades + 1);
+  const equityPath: number[] = new Array(trades + 1).fill(startingEquity);
+  const underwaterPath: number[] = new Array(trades + 1).fill(0);
+
+  const add = (rMultiples: ArrayLike<number>) => {
+    sizer.reset();
+    // In multiples of the starting equity, as the sizers expect
+    let equity = 1;
+    let peak = 1;
+    let maxDrawdown = 0;
+    let touchedFloor = equity <= floor;
+
+    for (let t = 0; t < trades; t++) {
+      equity = Math.min(maxEquityCap, Math.max(0, equity + sizer.riskAmount(equity) * rMultiples[t]));
+      if (equity > peak) peak = equity;
+      const drawdown = (peak - equity) / peak;
+      if (drawdown > maxDrawdown) maxDrawdown = drawdown;
+      if (equity <= floor) touchedFloor = true;
+
+      equityPath[t + 1] = equity * startingEquity;
+      underwaterPath[t + 1] = -drawdown * 100;
+    }
+
+    values.finalEquity.push(equity * startingEquity);
+    values.returnPct.push((equity - 1) * 100);
+    values.maxDrawdownPct.push(maxDrawdown * 100);
+    values.growthPerTrade.push(equity > 0 ? (Math.pow(equity, 1 / Math.max(1, trades)) - 1) * 100 : -100);
+    if (touchedFloor) floorCount++;
+    if (equity < 1) lossCount++;
+
+    equityBands.add(equityPath);
+    underwaterBands.add(underwaterPath);
+  };
+
+  const result = () => {
+    const sims = values.finalEquity.length;
+    return {
+      values,
+      probBelowFloor: sims > 0 ? (floorCount / sims) * 100 : 0,
+      probLoss: sims > 0 ? (lossCount / sims) * 100 : 0,
+      equityPercentiles: equityBands.result(),
+      underwaterPercentiles: underwaterBands.result()
+    };
+  };
+
+  return { add, result };
+};
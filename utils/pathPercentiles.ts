@@ -0,0 +1,112 @@
+import { PercentileCurves } from '../types';
+
+// --- Streaming Per-Step Percentiles ---
+// Estimates percentiles of a value at every step of many simulated paths without keeping the paths.
+//
+// The first PILOT_PATHS paths are buffered to learn a per-step value range. After that each step
+// gets a fixed histogram over the (slightly widened) pilot range and every value costs one bin
+// increment. Values outside the range land in the edge bins; with a few hundred pilot paths the
+// 5th / 95th percentiles are virtually always inside it. Percentiles are read back by linear
+// interpolation inside the bin that contains the target rank.
+
+const PILOT_PATHS = 500;
+const BINS_PER_STEP = 512;
+const RANGE_PADDING = 0.1; // Widen pilot range by 10% on each side
+
+export const FAN_PERCENTILES = [0.05, 0.25, 0.5, 0.75, 0.95] as const;
+
+export interface PathPercentileTracker {
+  add: (path: ArrayLike<number>) => void;
+  result: () => PercentileCurves;
+}
+
+export const createPathPercentileTracker = (steps: number): PathPercentileTracker => {
+  let pilot: Float64Array[] = [];
+  let lower: Float64Array | null = null;
+  let binWidth: Float64Array | null = null;
+  let counts: Uint32Array | null = null;
+  let total = 0;
+
+  const binValue = (step: number, value: number) => {
+    const width = binWidth![step];
+    let index = width > 0 ? Math.floor((value - lower![step]) / width) : 0;
+    if (index < 0) index = 0;
+    if (index >= BINS_PER_STEP) index = BINS_PER_STEP - 1;
+    counts![step * BINS_PER_STEP + index]++;
+  };
+
+  // Fix the histogram ranges from the pilot paths, then replay them into the histograms
+  const buildHistograms = () => {
+    lower = new Float64Array(steps);
+    binWidth = new Float64Array(steps);
+    counts = new Uint32Array(steps * BINS_PER_STEP);
+
+    for (let s = 0; s < steps; s++) {
+      let min = Infinity;
+      let max = -Infinity;
+      for (const path of pilot) {
+        if (path[s] < min) min = path[s];
+        if (path[s] > max) max = path[s];
+      }
+      const pad = Math.max((max - min) * RANGE_PADDING, 1e-9);
+      lower[s] = min - pad;
+      binWidth[s] = (max - min + 2 * pad) / BINS_PER_STEP;
+    }
+
+    for (const path of pilot) {
+      for (let s = 0; s < steps; s++) binValue(s, path[s]);
+    }
+    pilot = [];
+  };
+
+  const add = (path: ArrayLike<number>) => {
+    total++;
+    if (!counts) {
+      pilot.push(Float64Array.from(path as ArrayLike<number>));
+      if (pilot.length >= PILOT_PATHS) buildHistograms();
+      return;
+    }
+    for (let s = 0; s < steps; s++) binValue(s, path[s]);
+  };
+
+  // Same rank convention as calculateStats: value at sorted index floor(n * p)
+  const exactPercentile = (sorted: number[], p: number) => (
+    sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))]
+  );
+
+  const histogramPercentile = (step: number, p: number) => {
+    const rank = Math.min(total - 1, Math.floor(total * p));
+    const offset = step * BINS_PER_STEP;
+    let cumulative = 0;
+    for (let b = 0; b < BINS_PER_STEP; b++) {
+      const c = counts![offset + b];
+      if (cumulative + c > rank) {
+        const within = (rank - cumulative + 0.5) / c;
+        return lower![step] + (b + within) * binWidth![step];
+      }
+      cumulative += c;
+    }
+    return lower![step] + BINS_PER_STEP * binWidth![step];
+  };
+
+  const result = (): PercentileCurves => {
+    const curves: number[][] = FAN_PERCENTILES.map(() => new Array(steps).fill(0));
+
+    if (total > 0) {
+      for (let s = 0; s < steps; s++) {
+        if (!counts) {
+          // Fewer paths than the pilot size: percentiles are exact
+          const sorted = pilot.map(path => path[s]).sort((a, b) => a - b);
+          FAN_PERCENTILES.forEach((p, i) => { curves[i][s] = exactPercentile(sorted, p); });
+        } else {
+          FAN_PERCENTILES.forEach((p, i) => { curves[i][s] = histogramPercentile(s, p); });
+        }
+      }
+    }
+
+    const [p5, p25, p50, p75, p95] = curves;
+    return { p5, p25, p50, p75, p95 };
+  };
+
+  return { add, result };
+};
@@ -0,0 +1,190 @@
+import { CorrelationType, RiskAllocationState, AllocationResult, SystemMetrics } from '../types';
+
+// --- Position Sizing ---
+// Portfolio heat recommendation and the risk contribution allocation, shared by the
+// Position Management view and the exported reports.
+
+export interface HeatRecommendation {
+  sqnHeat: number;         // Heat suggested by the SQN alone (% of equity)
+  constraintHeat: number;  // Heat at which the worst single trade would wipe out the account
+  finalHeat: number;       // The smaller of the two
+  isConstrained: boolean;  // True when the worst-trade constraint wins
+  worstR: number;
+}
+
+// Numeric mapping for heuristic algorithm
+export const CORRELATION_VALUES: Record<CorrelationType, number> = {
+  [CorrelationType.STRONG]: 0.9,
+  [CorrelationType.MEDIUM]: 0.5,
+  [CorrelationType.WEAK]: 0.1,
+  [CorrelationType.PARTIAL_HEDGE]: -0.5, // Updated from -0.4
+  [CorrelationType.STRONG_HEDGE]: -0.8,
+};
+
+// 1. SQN Heat (Ideal World)
+export const calculateSqnHeat = (sqn: number): number => {
+  if (sqn < 1.3) return 1.0;
+  if (sqn < 1.7) return 1.0 + ((sqn - 1.3) / (1.7 - 1.3)) * (4 - 1);
+  if (sqn < 2.5) return 4.0 + ((sqn - 1.7) / (2.5 - 1.7)) * (8 - 4);
+  if (sqn < 3.0) return 8.0 + ((sqn - 2.5) / (3.0 - 2.5)) * (12 - 8);
+  if (sqn < 4.0) return 12.0 + ((sqn - 3.0) / (4.0 - 3.0)) * (15 - 12);
+  if (sqn < 5.0) return 15.0 + ((sqn - 4.0) / (5.0 - 4.0)) * (20 - 15);
+  return Math.min(25.0, 20.0 + ((sqn - 5.0) / 1.0) * 5);
+};
+
+export const calculateHeatRecommendation = (systemMetrics: SystemMetrics): HeatRecommendation => {
+  const sqnHeat = calculateSqnHeat(systemMetrics.sqn);
+
+  // 2. Worst-Case Constraint
+  const worstR = systemMetrics.worstR;
+  const worstLoss = worstR < 0 ? Math.abs(worstR) : 0;
+  const constraintHeat = worstLoss > 0 ? (100 / worstLoss) : 100;
+
+  // 3. Final Recommendation (Min of both)
+  const finalHeat = Math.min(sqnHeat, constraintHeat);
+  return { sqnHeat, constraintHeat, finalHeat, isConstrained: constraintHeat < sqnHeat, worstR };
+};
+
+// --- Core Algorithm: Risk Contribution Pruning (Hedge Optimized) ---
+export const calculateRiskAllocations = (totalHeat: number, state: RiskAllocationState): AllocationResult[] => {
+  const { assetCount, assetNames, correlationMatrix, maxSingleRisk, allowOverAllocation } = state;
+  const n = assetCount;
+  // const K1 = totalHeat; // 目标风险限额 (也是名义总和限额)
+  // 检查是否存在对冲项
+  const hasHedge = correlationMatrix.some(row =>
+    row.some(val => val === CorrelationType.PARTIAL_HEDGE || val === CorrelationType.STRONG_HEDGE)
+  );
+
+  // 如果允许对冲溢出且存在对冲项，则 K1 为 1.25 倍
+  const K1 = (allowOverAllocation && hasHedge) ? totalHeat * 1.25 : totalHeat;
+  const K2 = maxSingleRisk; // 单笔上限
+
+  // 0. 预处理相关性矩阵
+  const floatMatrix: number[][] = [];
+  for (let i = 0; i < n; i++) {
+    const row: number[] = [];
+    for (let j = 0; j < n; j++) {
+      if (i === j) {
+        row.push(1.0);
+      } else {
+        row.push(CORRELATION_VALUES[correlationMatrix[i][j]]);
+      }
+    }
+    floatMatrix.push(row);
+  }
+
+  // 1. 初始化权重 (满仓开局)
+  let weights = new Array(n).fill(K2);
+
+  // 2. 迭代剪枝 (关键优化点)
+  const MAX_ITER = 200;
+  const LR = 0.1; // 学习率
+
+  for (let iter = 0; iter < MAX_ITER; iter++) {
+    // A. 计算当前状态：组合方差 & 名义总和
+    let variance = 0;
+    let currentSum = 0;
+    const MRC = new Array(n).fill(0); // 边际风险贡献
+
+    for (let i = 0; i < n; i++) {
+      currentSum += weights[i]; // 累加名义总和
+
+      let rowCovSum = 0;
+      for (let j = 0; j < n; j++) {
+        rowCovSum += weights[j] * floatMatrix[i][j];
+      }
+      MRC[i] = rowCovSum; // 暂存中间值 (Sigma * w)
+      variance += weights[i] * rowCovSum;
+    }
+
+    const currentRisk = Math.sqrt(Math.max(0, variance));
+
+    // B. 双重检查 (核心修改)
+    // 只有当 [组合风险] 和 [名义总和] 同时都不超标时，才算结束。
+    // 之前的问题是 Risk 达标了就停了，导致 Sum 只能线性压缩。
+    const riskOverload = currentRisk / K1;
+    const sumOverload = currentSum / K1;
+    const maxOverload = Math.max(riskOverload, sumOverload);
+
+    if (maxOverload <= 1.0001) {
+      break; // 完美达标
+    }
+
+    // C. 确定剪枝力度
+    // 我们需要确定每个资产的“罪恶度”。即使是 Sum 超标，我们也要优先剪 Risk 大的。
+    // 这样才能在 Sum 降下来的同时，把宝贵的额度留给对冲资产。
+
+    let totalPositiveMRC = 0;
+    // 计算由于方差引起的总正向贡献
+    const positiveRiskContribs = weights.map((w, i) => {
+      const contribution = w * MRC[i];
+      if (contribution > 0) totalPositiveMRC += contribution;
+      return Math.max(0, contribution);
+    });
+
+    // D. 执行剪枝
+    let maxChange = 0;
+    for (let i = 0; i < n; i++) {
+      // 如果是完美的对冲资产（MRC < 0），它实际上在降低组合风险。
+      // 我们应该极力保护它，除非它的单笔太大了，或者单纯为了压 Sum。
+      // 这里的逻辑是：主要基于风险贡献比来剪。
+
+      let pruneRatio = 0;
+
+      // 情况1：组合风险太高 -> 按风险贡献比例剪
+      if (riskOverload > 1.0 && totalPositiveMRC > 0) {
+        const contributionRatio = positiveRiskContribs[i] / totalPositiveMRC;
+        // 动态力度：超标越多，剪得越狠
+        pruneRatio = Math.max(pruneRatio, contributionRatio * (riskOverload - 1.0));
+      }
+
+      // 情况2：名义总和太高 (即便风险不高) -> 依然按风险贡献偏好剪，但也加一点均匀压力
+      // 这样 B 会因为风险贡献大被剪更多，A/C 虽也受压但保留更多。
+      if (sumOverload > 1.0) {
+        // 基础均匀压力 (保证能压下来)
+        let basePressure = (sumOverload - 1.0) * 0.1;
+
+        // 风险加权压力 (谁波动大谁多担待)
+        let riskPressure = 0;
+        if (totalPositiveMRC > 0) {
+          riskPressure = (positiveRiskContribs[i] / totalPositiveMRC) * (sumOverload - 1.0);
+        }
+
+        // 混合策略：既看总和，也看风险
+        pruneRatio = Math.max(pruneRatio, basePressure + riskPressure);
+      }
+
+      // 应用惩罚
+      // 限制单次最大跌幅，防止震荡
+      const safePrune = Math.min(0.2, pruneRatio * LR * 5.0);
+
+      const oldW = weights[i];
+      weights[i] = weights[i] * (1.0 - safePrune);
+      maxChange = Math.max(maxChange, Math.abs(oldW - weights[i]));
+    }
+
+    if (maxChange < 0.00001) break;
+  }
+
+  // 3. 最后的保险栓 (Final Safety Net)
+  // 这一步只处理数学误差，如果前面逻辑正确，这里几乎不会触发大的调整
+  let finalSum = weights.reduce((a, b) => a + b, 0);
+  if (finalSum > K1) {
+    const scale = (K1 / finalSum) * 0.999;
+    weights = weights.map(w => w * scale);
+  }
+
+  return assetNames.map((name, i): AllocationResult => {
+    let constraint = 'None';
+    if (weights[i] < 0.01) constraint = 'Risk Pruning';
+    else if (Math.abs(weights[i] - K2) < 0.05) constraint = 'Single Cap';
+    else if (weights[i] < K2) constraint = 'Risk Alloc.';
+
+    return {
+      name,
+      initialRisk: K2,
+      finalRisk: Math.max(0, weights[i]),
+      constraint
+    };
+  });
+};
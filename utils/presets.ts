@@ -0,0 +1,169 @@
+// --- Frequency Distribution Presets ---
+// Example R-multiple distributions offered in Frequency mode and in system comparison.
+
+export interface FrequencyPreset {
+  id: string;
+  name: string;
+  data: { count: number; rValue: number }[];
+}
+
+export const PRESETS: FrequencyPreset[] = [
+  {
+    id: 'custom',
+    name: '默认 / 自定义 (Default / Custom)',
+    data: [
+      { count: 5, rValue: -1 },
+      { count: 3, rValue: 2 },
+      { count: 2, rValue: 5 },
+    ]
+  },
+  {
+    id: 'lottery',
+    name: '福利彩票 (Welfare Lottery)',
+    data: [
+      { count: 965, rValue: -1 },
+      { count: 35, rValue: 50 }
+    ]
+  },
+  {
+    id: 'super-lottery',
+    name: '赌狗彩票 (Gambling Dog Lottery)',
+    data: [
+      { count: 9985, rValue: -1 },
+      { count: 15, rValue: 1000 }
+    ]
+  },
+  {
+    id: 'high-win-system',
+    name: '高胜系统 (High-Win System)',
+    data: [
+      { count: 10, rValue: -3.5 },
+      { count: 10, rValue: -2 },
+      { count: 70, rValue: 1 },
+      { count: 10, rValue: 2 }
+    ]
+  },
+  {
+    id: 'careful-system',
+    name: '小心翼翼 (I\'m Afraid)',
+    data: [
+      { count: 10, rValue: -1 },
+      { count: 10, rValue: 1.3 }
+    ]
+  },
+  {
+    id: 'leeks-system',
+    name: '截断盈利-奔跑亏损 (I\'m a Bagholder)',
+    data: [
+      { count: 1, rValue: -10 },
+      { count: 9, rValue: 1 }
+    ]
+  },
+  {
+    id: 'daoing-system',
+    name: '频繁止损-悟道中 (Path to Wisdom)',
+    data: [
+      { count: 55, rValue: -1 },
+      { count: 12, rValue: -2 },
+      { count: 3, rValue: -5 },
+      { count: 5, rValue: 1 },
+      { count: 4, rValue: 5 },
+      { count: 3, rValue: 10 },
+      { count: 3, rValue: 25 }
+    ]
+  },
+  {
+    id: 'half-dao-system',
+    name: '半步悟道 (Half in Wisdom)',
+    data: [
+      { count: 2, rValue: -10 },
+      { count: 4, rValue: -5 },
+      { count: 10, rValue: -1 },
+      { count: 5, rValue: 3 },
+      { count: 2, rValue: 15 },
+      { count: 1, rValue: 30 }
+    ]
+  },
+  {
+    id: 'go-big-system',
+    name: '只玩大的 (Go Big or Go Home)',
+    data: [
+      { count: 18, rValue: -1 },
+      { count: 2, rValue: 50 }
+    ]
+  },
+  {
+    id: 'classic-sqn1-system',
+    name: '经典SQN=1.0 (SQN 1.0 System)',
+    data: [
+      { count: 23, rValue: -5 },
+      { count: 55, rValue: -1 },
+      { count: 12, rValue: 3 },
+      { count: 6, rValue: 15 },
+      { count: 4, rValue: 30 }
+    ]
+  },
+  {
+    id: 'classic-sqn2-system',
+    name: '经典SQN=2.0 (SQN 2.0 System)',
+    data: [
+      { count: 1, rValue: -5 },
+      { count: 6, rValue: -3 },
+      { count: 11, rValue: -2 },
+      { count: 10, rValue: -1 },
+      { count: 57, rValue: 1 },
+      { count: 15, rValue: 2 }
+    ]
+  },
+  {
+    id: 'classic-sqn3-system',
+    name: '经典SQN=3.0 (SQN 3.0 System)',
+    data: [
+      { count: 2, rValue: -5 },
+      { count: 2, rValue: -1.5 },
+      { count: 32, rValue: -1 },
+      { count: 28, rValue: 1 },
+      { count: 21, rValue: 1.5 },
+      { count: 15, rValue: 2 }
+    ]
+  },
+  {
+    id: 'classic-sqn4-system',
+    name: '经典SQN=4.0 (SQN 4.0 System)',
+    data: [
+      { count: 4, rValue: -5 },
+      { count: 8, rValue: -2 },
+      { count: 10, rValue: -1 },
+      { count: 40, rValue: 1 },
+      { count: 31, rValue: 2 },
+      { count: 4, rValue: 5 },
+      { count: 3, rValue: 10 }
+    ]
+  },
+  {
+    id: 'classic-sqn5-system',
+    name: '经典SQN=5.0 (SQN 5.0 System)',
+    data: [
+      { count: 3, rValue: -5 },
+      { count: 4, rValue: -2 },
+      { count: 9, rValue: -1 },
+      { count: 42, rValue: 1 },
+      { count: 33, rValue: 2 },
+      { count: 5, rValue: 5 },
+      { count: 4, rValue: 10 }
+    ]
+  },
+  {
+    id: 'classic-sqn7-system',
+    name: '经典SQN=7.0 (SQN 7.0 System)',
+    data: [
+      { count: 1, rValue: -5 },
+      { count: 6, rValue: -2 },
+      { count: 11, rValue: -1 },
+      { count: 31, rValue: 1 },
+      { count: 23, rValue: 2 },
+      { count: 22, rValue: 5 },
+      { count: 6, rValue: 10 }
+    ]
+  }
+];
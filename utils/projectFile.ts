@@ -0,0 +1,203 @@
+import { AppMode, FrequencyRow, SimulationResults, WorkspaceSnapshot } from '../types';
+import { completeWorkspace } from './workspace';
+import { normalizeSeed } from './random';
+import { withoutWorkspaceSimulationRecords } from './simulationRecords';
+import {
+  JsonObject, isFiniteNumber, isObject, isOneOf, readCostConfig, readOptimalFConfig, readRUnitConfig, readRiskAllocation, readSimulationConfig, readSqnConfig
+} from './configReaders';
+
+// --- Project File (.vtproj.json) ---
+// A portable, versioned JSON file holding a complete analysis, so a teammate can open exactly the
+// same inputs, settings and (optionally) results.
+//
+// Versioning: PROJECT_FILE_VERSION is bumped whenever the stored shape changes incompatibly, and a
+// migration from the previous version is added to MIGRATIONS. Loading runs every migration from the
+// file's version up to the current one. Purely additive fields need no bump: completeWorkspace fills
+// anything missing with the current defaults.
+//
+//   v0  Bare WorkspaceSnapshot without an envelope (e.g. copied out of browser storage)
+//   v1  { format, version, name, savedAt, seed, workspace }
+
+export const PROJECT_FILE_FORMAT = 'vt-analyzer-project';
+export const PROJECT_FILE_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = '.vtproj.json';
+
+export interface ProjectFile {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  name: string;
+  savedAt: string;   // ISO timestamp
+  seed?: number;     // Seed of the saved results (or the pinned seed), so a re-run reproduces them
+  workspace: WorkspaceSnapshot;
+}
+
+export interface ProjectFileParseResult {
+  name: string;
+  workspace: WorkspaceSnapshot | null;
+  error?: string;
+}
+
+const isFrequencyRow = (row: unknown): row is JsonObject & Pick<FrequencyRow, 'rValue' | 'count'> => (
+  isObject(row) && isFiniteNumber(row.count) && isFiniteNumber(row.rValue)
+);
+
+const hasFiniteNumbers = (v: unknown, keys: readonly string[]): v is JsonObject => isObject(v) && keys.every(key => isFiniteNumber(v[key]));
+
+const isNumberArray = (v: unknown): v is number[] => Array.isArray(v) && v.every(isFiniteNumber);
+
+const STAT_KEYS = ['avg', 'median', 'min', 'max', 'p5', 'p95'] as const;
+const PERCENTILE_KEYS = ['p5', 'p25', 'p50', 'p75', 'p95'] as const;
+
+// Percentile bands are drawn only when present
+const isPercentileCurves = (v: unknown) => v === undefined || (isObject(v) && PERCENTILE_KEYS.every(key => isNumberArray(v[key])));
+
+// Everything the dashboard reads from stored results. Results from an incompatible build or a
+// hand-edited file fail this and are dropped; the inputs still load and can be re-run.
+// Profit factor and reward/risk can be Infinity, which JSON stores as null, so they are not checked.
+const isStoredResults = (v: unknown): v is SimulationResults => {
+  if (!isObject(v)) return false;
+  const { systemMetrics, riskMetrics, simulationConfig, charts, stats, rDistribution, equityCurves, equity } = v;
+  return hasFiniteNumbers(systemMetrics, ['winRate', 'expectancy', 'standardDeviation', 'sqn', 'sqnRaw', 'sqnCap', 'n', 'sampleSize'])
+    && hasFiniteNumbers(riskMetrics, ['probabilityOfProfit', 'p95DrawdownDuration', 'unrecoveredRate'])
+    && hasFiniteNumbers(simulationConfig, ['totalSimulations', 'tradesPerSimulation'])
+    && isObject(charts) && Object.values(charts).every(Array.isArray)
+    && isObject(stats) && Object.values(stats).every(stat => hasFiniteNumbers(stat, STAT_KEYS))
+    && isNumberArray(rDistribution)
+    && Array.isArray(equityCurves) && equityCurves.every(curve => isObject(curve) && isNumberArray(curve.data))
+    && isPercentileCurves(v.equityPercentiles) && isPercentileCurves(v.underwaterPercentiles)
+    && (equity === undefined || (hasFiniteNumbers(equity, ['startingEquity', 'floorEquity', 'probBelowFloor', 'probLoss']) && isObject(equity.charts) && isObject(equity.stats)));
+};
+
+// config.seed, when config is an object
+const seedOf = (config: unknown): unknown => (isObject(config) ? config.seed : undefined);
+
+type Migration = (file: JsonObject) => JsonObject;
+
+// MIGRATIONS[v] upgrades a version-v file to version v + 1
+const MIGRATIONS: Record<number, Migration> = {
+  0: (snapshot) => ({
+    format: PROJECT_FILE_FORMAT,
+    version: 1,
+    name: '',
+    savedAt: new Date(0).toISOString(),
+    seed: seedOf(isObject(snapshot.results) ? snapshot.results.simulationConfig : undefined) ?? seedOf(snapshot.simulationConfig),
+    workspace: snapshot
+  }),
+};
+
+export const serializeProject = (name: string, workspace: WorkspaceSnapshot, includeResults: boolean): string => {
+  const file: ProjectFile = {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    name,
+    savedAt: new Date().toISOString(),
+    seed: workspace.results?.simulationConfig.seed ?? workspace.simulationConfig.seed,
+    workspace: includeResults ? withoutWorkspaceSimulationRecords(workspace) : { ...workspace, results: null }
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const fail = (error: string): ProjectFileParseResult => ({ name: '', workspace: null, error });
+
+export const parseProjectFile = (text: string): ProjectFileParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return fail('无法解析项目文件：不是有效的 JSON。');
+  }
+  if (!isObject(data)) {
+    return fail('无法解析项目文件：内容格式不正确。');
+  }
+
+  // Files without an envelope are treated as version 0
+  let version: number;
+  if (data.format === undefined && data.version === undefined) {
+    version = 0;
+  } else if (data.format !== PROJECT_FILE_FORMAT) {
+    return fail(`不是本应用的项目文件 (format = "${String(data.format)}")。`);
+  } else if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 0) {
+    return fail(`项目文件版本号无效 (version = ${String(data.version)})。`);
+  } else {
+    version = data.version;
+  }
+
+  if (version > PROJECT_FILE_VERSION) {
+    return fail(`该项目文件由更新版本创建 (v${version})，当前仅支持至 v${PROJECT_FILE_VERSION}。请更新应用后再打开。`);
+  }
+
+  let file = data;
+  for (let v = version; v < PROJECT_FILE_VERSION; v++) {
+    file = MIGRATIONS[v](file);
+  }
+
+  // --- Validate the parts the app cannot silently default ---
+  const workspace = file.workspace;
+  if (!isObject(workspace)) {
+    return fail('项目文件缺少工作区数据 (workspace)。');
+  }
+  if (workspace.mode !== undefined && !isOneOf(AppMode, workspace.mode)) {
+    return fail(`未知的输入模式 "${String(workspace.mode)}"。`);
+  }
+  let frequencyData: FrequencyRow[] | undefined;
+  if (workspace.frequencyData !== undefined) {
+    const rows = workspace.frequencyData;
+    if (!Array.isArray(rows) || !rows.every(isFrequencyRow)) {
+      return fail('频率分布数据 (frequencyData) 格式不正确：每行需要数字 count 和 rValue。');
+    }
+    // Row ids are only React keys; regenerate any that are missing
+    frequencyData = rows.map(row => ({ id: row.id ? String(row.id) : crypto.randomUUID(), rValue: row.rValue, count: row.count }));
+  }
+  for (const key of ['rawPnlText', 'tradeLogText'] as const) {
+    if (workspace[key] !== undefined && typeof workspace[key] !== 'string') {
+      return fail(`字段 ${key} 必须是文本。`);
+    }
+  }
+
+  // Settings are clamped to the ranges the inputs allow; a section that is present but malformed
+  // rejects the file instead of crashing the dashboard later
+  const settings: Partial<WorkspaceSnapshot> = {};
+  const readers = {
+    rUnitConfig: readRUnitConfig,
+    costConfig: readCostConfig,
+    sqnConfig: readSqnConfig,
+    simulationConfig: readSimulationConfig,
+    optimalFConfig: readOptimalFConfig,
+    riskAllocation: readRiskAllocation
+  };
+  for (const [key, read] of Object.entries(readers) as [keyof typeof readers, (v: unknown) => unknown][]) {
+    if (workspace[key] === undefined) continue;
+    const value = read(workspace[key]);
+    if (value === null) {
+      return fail(`字段 ${key} 格式不正确或取值无效。`);
+    }
+    Object.assign(settings, { [key]: value });
+  }
+
+  // completeWorkspace fills whatever is missing with the defaults
+  const completed = completeWorkspace({
+    ...settings,
+    mode: isOneOf(AppMode, workspace.mode) ? workspace.mode : undefined,
+    frequencyData,
+    rawPnlText: workspace.rawPnlText as string | undefined,
+    tradeLogText: workspace.tradeLogText as string | undefined,
+    results: isStoredResults(workspace.results) ? workspace.results : null
+  });
+
+  // Pin the recorded seed so re-running reproduces the saved analysis
+  if (isFiniteNumber(file.seed) && completed.simulationConfig.seed === undefined) {
+    completed.simulationConfig = { ...completed.simulationConfig, seed: normalizeSeed(file.seed) };
+  }
+
+  return { name: typeof file.name === 'string' ? file.name : '', workspace: completed };
+};
+
+// Trigger a browser download of a text file
+export const downloadTextFile = (text: string, fileName: string, mimeType = 'application/json') => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = url;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,42 @@
+// --- Random Number Generation ---
+// All Monte Carlo engines draw from a RandomSource instead of calling Math.random() directly,
+// so a run can be reproduced exactly from its seed.
+
+// A function returning a uniformly distributed float in [0, 1), same contract as Math.random.
+export type RandomSource = () => number;
+
+const MAX_SEED = 0xFFFFFFFF;
+
+// Mulberry32: tiny, fast 32-bit PRNG. Good enough statistical quality for resampling trades.
+export const createSeededRandom = (seed: number): RandomSource => {
+  let state = normalizeSeed(seed);
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Force any finite number into the unsigned 32-bit range the generator works with.
+export const normalizeSeed = (seed: number): number => {
+  if (!Number.isFinite(seed)) return 0;
+  return (Math.floor(Math.abs(seed)) % (MAX_SEED + 1)) >>> 0;
+};
+
+// Fresh seed for runs where the user did not pin one.
+export const generateSeed = (): number => {
+  if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+    return crypto.getRandomValues(new Uint32Array(1))[0];
+  }
+  return Math.floor(Math.random() * MAX_SEED) >>> 0;
+};
+
+// Use the pinned seed if present, otherwise draw a new one. Returns the seed so it can be reported.
+export const resolveSeed = (seed?: number | null): number => (
+  seed === undefined || seed === null ? generateSeed() : normalizeSeed(seed)
+);
+
+// Uniform integer in [0, n)
+export const randomIndex = (rng: RandomSource, n: number): number => Math.floor(rng() * n);
@@ -0,0 +1,87 @@
+import { ResampleMode } from '../types';
+import { RandomSource, randomIndex } from './random';
+
+// --- Trade Sequence Resampling ---
+// A TradeSampler fills `target[0..length)` with one simulated trade sequence drawn from the pool.
+// The block modes assume the pool is in the chronological order the trades happened.
+
+export type TradeSampler = (target: number[], length: number) => void;
+
+export const RESAMPLE_MODE_LABELS: Record<ResampleMode, string> = {
+  [ResampleMode.IID]: '独立重采样 (i.i.d.)',
+  [ResampleMode.MOVING_BLOCK]: '移动块自助法 (Moving Block)',
+  [ResampleMode.STATIONARY]: '平稳自助法 (Stationary)',
+  [ResampleMode.SHUFFLE]: '无放回洗牌 (Shuffle)',
+};
+
+// Modes that only make sense when the pool order is meaningful (Raw P&L, trade logs)
+export const isSequenceMode = (mode: ResampleMode): boolean => (
+  mode === ResampleMode.MOVING_BLOCK || mode === ResampleMode.STATIONARY
+);
+
+export const createTradeSampler = (
+  pool: number[],
+  mode: ResampleMode,
+  blockLength: number,
+  rng: RandomSource
+): TradeSampler => {
+  const n = pool.length;
+  // Blocks longer than the pool would just repeat the whole history
+  const block = Math.max(1, Math.min(n, Math.floor(blockLength) || 1));
+
+  switch (mode) {
+    case ResampleMode.MOVING_BLOCK: {
+      // Non-overlapping concatenation of random blocks; the last block is truncated to fit
+      const maxStart = n - block;
+      return (target, length) => {
+        let t = 0;
+        while (t < length) {
+          const start = randomIndex(rng, maxStart + 1);
+          for (let k = 0; k < block && t < length; k++) {
+            target[t++] = pool[start + k];
+          }
+        }
+      };
+    }
+
+    case ResampleMode.STATIONARY: {
+      // Each step continues the current block (wrapping around) or, with prob 1/L, jumps to a new start
+      const restartProb = 1 / block;
+      return (target, length) => {
+        let idx = randomIndex(rng, n);
+        for (let t = 0; t < length; t++) {
+          target[t] = pool[idx];
+          idx = rng() < restartProb ? randomIndex(rng, n) : (idx + 1) % n;
+        }
+      };
+    }
+
+    case ResampleMode.SHUFFLE: {
+      // Fisher-Yates permutation of the real trades. If a sim is longer than the pool,
+      // the pool is reshuffled each time it is exhausted.
+      const deck = [...pool];
+      return (target, length) => {
+        let t = 0;
+        while (t < length) {
+          for (let i = n - 1; i > 0; i--) {
+            const j = randomIndex(rng, i + 1);
+            const tmp = deck[i];
+            deck[i] = deck[j];
+            deck[j] = tmp;
+          }
+          for (let k = 0; k < n && t < length; k++) {
+            target[t++] = deck[k];
+          }
+        }
+      };
+    }
+
+    case ResampleMode.IID:
+    default:
+      return (target, length) => {
+        for (let t = 0; t < length; t++) {
+          target[t] = pool[randomIndex(rng, n)];
+        }
+      };
+  }
+};
@@ -0,0 +1,135 @@
+import * as XLSX from 'xlsx';
+import { SimulationResults, OptimalFAnalysisResult, PercentileCurves } from '../types';
+import { SIMULATION_RECORD_FIELDS } from './simulationRecords';
+
+// --- Results Workbook ---
+// Exports the full numbers behind the dashboard as an Excel workbook so they can be charted and
+// audited elsewhere. Column headers are the field names used in SimulationResults, one sheet per block.
+
+type Cell = string | number | boolean | null;
+
+const PERCENTILE_KEYS: (keyof PercentileCurves)[] = ['p5', 'p25', 'p50', 'p75', 'p95'];
+
+// Excel limits sheet names to 31 characters
+const sheetName = (name: string) => name.slice(0, 31);
+
+const keyValueRows = (values: object): Cell[][] => [
+  ['metric', 'value'],
+  ...Object.entries(values)
+    .filter(([, value]) => value === null || typeof value !== 'object')
+    .map(([key, value]) => [key, value ?? null] as Cell[])
+];
+
+const percentileRows = (curves: PercentileCurves): Cell[][] => [
+  ['trade', ...PERCENTILE_KEYS],
+  ...curves.p50.map((_, i) => [i, ...PERCENTILE_KEYS.map(key => curves[key][i])])
+];
+
+export const buildResultsWorkbook = (results: SimulationResults, optimalF: OptimalFAnalysisResult | null): XLSX.WorkBook => {
+  const wb = XLSX.utils.book_new();
+  const addSheet = (name: string, rows: Cell[][]) => XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(rows), sheetName(name));
+
+  const { systemMetrics, riskMetrics, simulationConfig, charts, stats, equityCurves } = results;
+
+  // Scalar fields only, nested settings with dotted keys; the bootstrap intervals get their own sheet
+  const nestedRows = (prefix: string, values: object | undefined) => (
+    values ? keyValueRows(values).slice(1).map(([key, value]) => [`${prefix}.${key}`, value]) : []
+  );
+  const { costs } = systemMetrics;
+  addSheet('SystemMetrics', [
+    ...keyValueRows(systemMetrics),
+    ...nestedRows('rUnitConfig', systemMetrics.rUnitConfig),
+    ...(costs ? [['costs.avgCostR', costs.avgCostR], ...nestedRows('costs.costConfig', costs.costConfig), ...nestedRows('costs.gross', costs.gross)] : [])
+  ]);
+  if (systemMetrics.bootstrap) {
+    const { bootstrap } = systemMetrics;
+    const intervals = { expectancy: bootstrap.expectancy, winRate: bootstrap.winRate, profitFactor: bootstrap.profitFactor, sqn: bootstrap.sqn };
+    addSheet('Bootstrap', [
+      ['metric', 'level', 'lower', 'upper'],
+      ...Object.entries(intervals).flatMap(([metric, byLevel]) =>
+        Object.entries(byLevel).map(([level, interval]) => [metric, Number(level), interval.lower, interval.upper])
+      ),
+      ['probPositiveExpectancy', null, bootstrap.probPositiveExpectancy, null],
+      ['resamples', null, bootstrap.resamples, null]
+    ]);
+  }
+  addSheet('RiskMetrics', keyValueRows(riskMetrics));
+  addSheet('SimulationConfig', [
+    ...keyValueRows(simulationConfig),
+    ...nestedRows('equity', simulationConfig.equity),
+    ...nestedRows('equity.sizingParams', simulationConfig.equity?.sizingParams)
+  ]);
+
+  addSheet('Stats', [
+    ['metric', 'avg', 'median', 'min', 'max', 'p5', 'p95'],
+    ...Object.entries(stats).map(([key, s]) => [key, s.avg, s.median, s.min, s.max, s.p5, s.p95])
+  ]);
+
+  Object.entries(charts).forEach(([key, points]) => {
+    addSheet(`Hist ${key}`, [
+      ['binLabel', 'binStart', 'frequency'],
+      ...points.map(p => [p.binLabel, p.binStart, p.frequency])
+    ]);
+  });
+
+  // One column per representative curve
+  const curveLength = Math.max(0, ...equityCurves.map(c => c.data.length));
+  addSheet('EquityCurves', [
+    ['trade', ...equityCurves.map(c => c.name)],
+    ...Array.from({ length: curveLength }, (_, i) => [i, ...equityCurves.map(c => c.data[i] ?? null)])
+  ]);
+  if (results.equityPercentiles) addSheet('EquityPercentiles', percentileRows(results.equityPercentiles));
+  if (results.underwaterPercentiles) addSheet('UnderwaterPercentiles', percentileRows(results.underwaterPercentiles));
+
+  // Account simulation in currency (results saved before it have none)
+  const { equity } = results;
+  if (equity) {
+    addSheet('Account', [
+      ...keyValueRows(equity),
+      [],
+      ['metric', 'avg', 'median', 'min', 'max', 'p5', 'p95'],
+      ...Object.entries(equity.stats).map(([key, s]) => [key, s.avg, s.median, s.min, s.max, s.p5, s.p95])
+    ]);
+    Object.entries(equity.charts).forEach(([key, points]) => {
+      addSheet(`Account Hist ${key}`, [
+        ['binLabel', 'binStart', 'frequency'],
+        ...points.map(p => [p.binLabel, p.binStart, p.frequency])
+      ]);
+    });
+    addSheet('AccountEquityPercentiles', percentileRows(equity.equityPercentiles));
+    addSheet('AccountUnderwaterPercentiles', percentileRows(equity.underwaterPercentiles));
+  }
+
+  // Per-simulation records, when they were retained for this run
+  const { simulations } = results;
+  if (simulations) {
+    addSheet('Simulations', [
+      ['sim', ...SIMULATION_RECORD_FIELDS],
+      ...Array.from({ length: simulations.retained }, (_, i) => [i + 1, ...SIMULATION_RECORD_FIELDS.map(field => simulations.columns[field][i])])
+    ]);
+  }
+
+  if (optimalF) {
+    addSheet('OptimalF Curve', [
+      ['risk', 'probSuccess', 'probRuin', 'avgGain', 'medianGain'],
+      ...optimalF.chartData.map(p => [p.risk, p.probSuccess, p.probRuin, p.avgGain, p.medianGain])
+    ]);
+    addSheet('OptimalF Best', [
+      ['approach', 'optimalRisk', 'probSuccess', 'probRuin', 'avgGain', 'medianGain'],
+      ...optimalF.bestRows.map(r => [r.approach, r.optimalRisk, r.probSuccess, r.probRuin, r.avgGain, r.medianGain]),
+      ...(optimalF.analyticRows ?? []).map(r => [r.approach, r.optimalRisk, r.probSuccess, r.probRuin, r.avgGain, r.medianGain]),
+      [],
+      ['riskMode', optimalF.riskMode],
+      ...nestedRows('sweep', optimalF.sweep),
+      ['commonRandomNumbers', optimalF.commonRandomNumbers ?? false],
+      ...nestedRows('closedForm', optimalF.closedForm),
+      ['seed', optimalF.seed]
+    ]);
+  }
+
+  return wb;
+};
+
+export const downloadResultsWorkbook = (results: SimulationResults, optimalF: OptimalFAnalysisResult | null) => {
+  XLSX.writeFile(buildResultsWorkbook(results, optimalF), `van-tharp-results-${new Date().toISOString().slice(0, 10)}.xlsx`);
+};
@@ -0,0 +1,99 @@
+import { OptimalFConfig, RiskSweepConfig, SweepMode } from '../types';
+
+// --- Optimal F Risk Sweep ---
+// The risk levels (size %) the optimal f search evaluates. Every level is a full Monte Carlo batch,
+// so range and resolution trade accuracy for time. A grid evaluates every step; the adaptive mode
+// scans the range coarsely and then evaluates every step within one coarse step of each optimum.
+
+export const DEFAULT_RISK_SWEEP: RiskSweepConfig = {
+  start: 0.1,
+  end: 30,
+  step: 0.1,
+  mode: SweepMode.GRID
+};
+
+export const MAX_SWEEP_RISK = 100;        // Highest size % that can be swept
+export const MAX_SWEEP_POINTS = 2000;     // Risk levels a single search may evaluate
+export const ADAPTIVE_COARSE_POINTS = 25; // Levels in the adaptive coarse scan
+const ADAPTIVE_OBJECTIVES = 6;            // Approaches refined around (the rows of OptimalFAnalysisResult.bestRows)
+
+export const SWEEP_MODE_LABELS: Record<SweepMode, string> = {
+  [SweepMode.GRID]: '固定步长 (Grid)',
+  [SweepMode.ADAPTIVE]: '自适应 (Adaptive)',
+};
+
+export const resolveRiskSweep = (config: Pick<OptimalFConfig, 'sweep'>): RiskSweepConfig => (
+  { ...DEFAULT_RISK_SWEEP, ...config.sweep }
+);
+
+// Decimal places of a percentage, up to 6 (0.25 -> 2)
+const decimalsOf = (value: number): number => {
+  for (let d = 0; d < 6; d++) {
+    const scaled = value * 10 ** d;
+    if (Math.abs(scaled - Math.round(scaled)) < 1e-9) return d;
+  }
+  return 6;
+};
+
+// Decimals risk levels are reported with: enough for the start and the step, at least one
+export const sweepDecimals = (sweep: RiskSweepConfig): number => Math.max(1, decimalsOf(sweep.start), decimalsOf(sweep.step));
+
+// Level `index` steps above the start, rounded so float drift never shows up in the results
+const levelAt = (sweep: RiskSweepConfig, index: number): number => Number((sweep.start + index * sweep.step).toFixed(sweepDecimals(sweep)));
+
+const gridCount = (sweep: RiskSweepConfig): number => Math.max(0, Math.floor((sweep.end - sweep.start) / sweep.step + 1e-9) + 1);
+
+// Adaptive coarse step: a whole number of fine steps giving about ADAPTIVE_COARSE_POINTS levels
+export const adaptiveCoarseStep = (sweep: RiskSweepConfig): number => (
+  sweep.step * Math.max(1, Math.round((sweep.end - sweep.start) / (ADAPTIVE_COARSE_POINTS - 1) / sweep.step))
+);
+
+// Upper bound of the levels a search evaluates (exact for a grid)
+export const estimateSweepPoints = (sweep: RiskSweepConfig): number => {
+  const grid = gridCount(sweep);
+  if (sweep.mode === SweepMode.GRID) return grid;
+  const coarseStep = adaptiveCoarseStep(sweep);
+  const coarse = gridCount({ ...sweep, step: coarseStep }) + 1; // + the end of the range
+  const perWindow = 2 * Math.round(coarseStep / sweep.step) + 1;
+  return Math.min(grid, coarse + ADAPTIVE_OBJECTIVES * perWindow);
+};
+
+export const validateRiskSweep = (sweep: RiskSweepConfig): string | null => {
+  if (!(sweep.start > 0)) return "扫描起点必须大于 0%。";
+  if (!(sweep.end >= sweep.start)) return "扫描终点不能小于起点。";
+  if (sweep.end > MAX_SWEEP_RISK) return `扫描终点不能超过 ${MAX_SWEEP_RISK}%。`;
+  if (!(sweep.step > 0)) return "扫描步长必须大于 0%。";
+  const points = estimateSweepPoints(sweep);
+  if (points > MAX_SWEEP_POINTS) {
+    return `扫描点过多 (约 ${points.toLocaleString()} 个，上限 ${MAX_SWEEP_POINTS})。请增大步长、缩小范围或使用自适应模式。`;
+  }
+  return null;
+};
+
+// Every level from start to end
+export const sweepGrid = (sweep: RiskSweepConfig): number[] => (
+  Array.from({ length: gridCount(sweep) }, (_, i) => levelAt(sweep, i))
+);
+
+// Adaptive coarse scan: the grid at the coarse step, always including the end of the range
+export const coarseSweepLevels = (sweep: RiskSweepConfig): number[] => {
+  const stride = Math.round(adaptiveCoarseStep(sweep) / sweep.step);
+  const last = gridCount(sweep) - 1;
+  const indices = Array.from({ length: Math.floor(last / stride) + 1 }, (_, i) => i * stride);
+  if (indices[indices.length - 1] !== last) indices.push(last);
+  return indices.map(i => levelAt(sweep, i));
+};
+
+// Fine levels within one coarse step of `center`
+export const refinementLevels = (sweep: RiskSweepConfig, center: number): number[] => {
+  const stride = Math.round(adaptiveCoarseStep(sweep) / sweep.step);
+  const centerIndex = Math.round((center - sweep.start) / sweep.step);
+  const first = Math.max(0, centerIndex - stride);
+  const last = Math.min(gridCount(sweep) - 1, centerIndex + stride);
+  return Array.from({ length: Math.max(0, last - first + 1) }, (_, i) => levelAt(sweep, first + i));
+};
+
+// e.g. "0.1% ~ 30% · 步长 0.1% · 固定步长 (Grid)"
+export const describeRiskSweep = (sweep: RiskSweepConfig): string => (
+  `${sweep.start}% ~ ${sweep.end}% · 步长 ${sweep.step}% · ${SWEEP_MODE_LABELS[sweep.mode]}`
+);
@@ -0,0 +1,61 @@
+import { RunHistoryEntry, RunInputs, SimulationResults } from '../types';
+import { STORAGE_PREFIX, readJson, writeJson, removeStoredItem } from './storage';
+import { COMPARISON_METRICS } from './comparison';
+import { describeSystemInputs } from './systemInputs';
+import { withoutSimulationRecords } from './simulationRecords';
+
+// --- Run History ---
+// Every completed run of a workspace is recorded with its inputs, a few key metrics and (for recent
+// or pinned runs) the full results. History is stored per workspace, separately from the workspace
+// itself, so the frequent workspace autosave does not rewrite it.
+
+export const MAX_HISTORY_ENTRIES = 50;   // Oldest unpinned runs beyond this are dropped
+export const MAX_STORED_RESULTS = 10;    // Unpinned runs beyond the most recent N keep metrics only
+
+const historyKey = (workspaceId: string) => `${STORAGE_PREFIX}:history:${workspaceId}`;
+
+export const loadRunHistory = (workspaceId: string): RunHistoryEntry[] => {
+  const stored = readJson<RunHistoryEntry[]>(historyKey(workspaceId));
+  return Array.isArray(stored) ? stored : [];
+};
+
+export const clearRunHistory = (workspaceId: string) => removeStoredItem(historyKey(workspaceId));
+
+// Newest first. Keeps every pinned run; unpinned runs are trimmed to the limits above.
+const trimHistory = (entries: RunHistoryEntry[], storedResults: number): RunHistoryEntry[] => {
+  let unpinned = 0;
+  return entries.flatMap(entry => {
+    if (entry.pinned) return [entry];
+    unpinned++;
+    if (unpinned > MAX_HISTORY_ENTRIES) return [];
+    return [unpinned > storedResults && entry.results ? { ...entry, results: null } : entry];
+  });
+};
+
+// Saves the history, dropping stored results of older unpinned runs until it fits in the quota.
+// Returns the list as actually kept, so the UI shows which runs still have results.
+export const saveRunHistory = (workspaceId: string, entries: RunHistoryEntry[]): RunHistoryEntry[] => {
+  for (let storedResults = MAX_STORED_RESULTS; storedResults >= 0; storedResults--) {
+    const trimmed = trimHistory(entries, storedResults);
+    if (writeJson(historyKey(workspaceId), trimmed)) return trimmed;
+  }
+  // Storage unavailable or full even without results: keep the history in memory only
+  return trimHistory(entries, MAX_STORED_RESULTS);
+};
+
+export const createRunHistoryEntry = (inputs: RunInputs, results: SimulationResults, name: string): RunHistoryEntry => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  createdAt: Date.now(),
+  pinned: false,
+  summary: describeSystemInputs(inputs),
+  inputs,
+  metrics: Object.fromEntries(COMPARISON_METRICS.map(m => [m.key, m.get(results)])),
+  results: withoutSimulationRecords(results)
+});
+
+// Default name for the next run: "Run #N", numbered past the highest existing default name
+export const nextRunName = (entries: RunHistoryEntry[]): string => {
+  const numbers = entries.map(e => Number(e.name.match(/#(\d+)/)?.[1] ?? 0));
+  return `运行 #${Math.max(0, ...numbers) + 1} (Run)`;
+};
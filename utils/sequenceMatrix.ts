@@ -0,0 +1,51 @@
+import { RandomSource, createSeededRandom, randomIndex } from './random';
+
+// --- Common Random Numbers ---
+// One fixed set of simulated trade sequences shared by every risk level of the optimal f search,
+// so the levels are compared on identical paths and the curves are not jagged with sampling noise.
+//
+// The sequences are stored as R values, sims × trades. When that exceeds the memory budget the sims
+// are split into chunks, each with its own seed drawn up front: a chunk that is not in memory is
+// regenerated from its seed and comes out identical every time. Only one chunk is held at a time.
+
+export interface SequenceChunk {
+  sims: number;         // Rows in this chunk
+  values: Float64Array; // Row-major: sim s, trade t at s * trades + t
+}
+
+export interface SequenceMatrix {
+  trades: number;
+  chunkCount: number;
+  chunk: (index: number) => SequenceChunk;
+}
+
+export const createSequenceMatrix = (
+  pool: number[],
+  sims: number,
+  trades: number,
+  random: RandomSource,
+  maxBytes: number
+): SequenceMatrix => {
+  const simsPerChunk = Math.max(1, Math.min(sims, Math.floor(maxBytes / (trades * Float64Array.BYTES_PER_ELEMENT))));
+  const chunkCount = Math.ceil(sims / simsPerChunk);
+  const chunkSeeds = Array.from({ length: chunkCount }, () => Math.floor(random() * 0x100000000) >>> 0);
+
+  let cachedIndex = -1;
+  let cached: SequenceChunk | null = null;
+
+  const chunk = (index: number): SequenceChunk => {
+    if (index === cachedIndex && cached) return cached;
+    const chunkSims = Math.min(simsPerChunk, sims - index * simsPerChunk);
+    // Reuse the buffer unless this is the shorter last chunk
+    const values = cached && cached.values.length === chunkSims * trades ? cached.values : new Float64Array(chunkSims * trades);
+    const chunkRandom = createSeededRandom(chunkSeeds[index]);
+    for (let i = 0; i < values.length; i++) {
+      values[i] = pool[randomIndex(chunkRandom, pool.length)];
+    }
+    cachedIndex = index;
+    cached = { sims: chunkSims, values };
+    return cached;
+  };
+
+  return { trades, chunkCount, chunk };
+};
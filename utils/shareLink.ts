@@ -0,0 +1,181 @@
+import { AppMode, CostConfig, CostMethod, FrequencyRow, RUnitConfig, SimulationConfig, SqnConfig } from '../types';
+import { parseStrictNumber } from './calculations';
+import { isFiniteNumber, isObject, isOneOf, readCostConfig, readRUnitConfig, readSimulationConfig, readSqnConfig } from './configReaders';
+
+// --- Shareable Links ---
+// Encodes the inputs and simulation settings into the URL hash, so a link pasted into chat opens
+// the same analysis with no backend. Layout: #share=<version>.<encoding>.<base64url payload>
+//   encoding "z": deflate-raw compressed JSON (CompressionStream), "j": plain JSON (fallback)
+// Results are never included; the receiver re-runs (optionally automatically) with the same seed.
+
+const SHARE_PARAM = 'share';
+const SHARE_VERSION = 'v1';
+
+// Longest link we hand out. Most chat apps, browsers and proxies handle this comfortably.
+export const MAX_SHARE_URL_LENGTH = 8000;
+
+export interface SharedState {
+  mode: AppMode;
+  frequencyData?: FrequencyRow[];
+  rawPnlText?: string;
+  tradeLogText?: string;
+  rUnitConfig?: RUnitConfig;
+  costConfig?: CostConfig;
+  sqnConfig?: SqnConfig;
+  simulationConfig: SimulationConfig;
+  autoRun: boolean;
+}
+
+// Compact wire format: short keys, numbers instead of objects where possible
+interface SharePayload {
+  m: AppMode;
+  f?: [number, number][];  // [count, rValue]
+  p?: string;              // Raw PnL values, comma separated
+  t?: string;              // Trade log CSV text
+  u?: RUnitConfig;
+  k?: CostConfig;          // Trading costs, only when enabled
+  q?: SqnConfig;
+  c: SimulationConfig;
+  r?: 1;                   // Auto-run on open
+}
+
+export type ShareLinkResult = { url: string; error?: undefined } | { url?: undefined; error: string };
+
+// --- Encoding helpers ---
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const canCompress = () => typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+const pipeThrough = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const buffer = await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer();
+  return new Uint8Array(buffer);
+};
+
+// --- Payload validation ---
+// Links are untrusted input (hand-edited, truncated, from another build). Every field is checked and
+// clamped by the shared settings readers; a malformed field rejects the whole link.
+
+const readFrequencyRows = (v: unknown): FrequencyRow[] | null => {
+  if (!Array.isArray(v)) return null;
+  const rows: FrequencyRow[] = [];
+  for (const row of v) {
+    if (!Array.isArray(row) || row.length !== 2 || !isFiniteNumber(row[0]) || !isFiniteNumber(row[1]) || row[0] < 0) return null;
+    rows.push({ id: crypto.randomUUID(), count: row[0], rValue: row[1] });
+  }
+  return rows;
+};
+
+// The shared state in a decoded payload, or null when any field is malformed
+const readPayload = (payload: unknown): SharedState | null => {
+  if (!isObject(payload) || !isOneOf(AppMode, payload.m)) return null;
+  const { f, p, t, u, k, q, r } = payload;
+  if (p !== undefined && typeof p !== 'string') return null;
+  if (t !== undefined && typeof t !== 'string') return null;
+  if (r !== undefined && r !== 1) return null;
+
+  const frequencyData = f === undefined ? undefined : readFrequencyRows(f);
+  const rUnitConfig = u === undefined ? undefined : readRUnitConfig(u);
+  const costConfig = k === undefined ? undefined : readCostConfig(k);
+  const sqnConfig = q === undefined ? undefined : readSqnConfig(q);
+  const simulationConfig = readSimulationConfig(payload.c);
+  if (frequencyData === null || rUnitConfig === null || costConfig === null || sqnConfig === null || !simulationConfig) return null;
+
+  return {
+    mode: payload.m,
+    frequencyData,
+    rawPnlText: typeof p === 'string' ? p.split(',').join('\n') : undefined,
+    tradeLogText: typeof t === 'string' ? t : undefined,
+    rUnitConfig,
+    costConfig,
+    sqnConfig,
+    simulationConfig,
+    autoRun: r === 1
+  };
+};
+
+// --- Public API ---
+
+export const createShareLink = async (state: SharedState, baseUrl: string): Promise<ShareLinkResult> => {
+  const payload: SharePayload = { m: state.mode, c: state.simulationConfig };
+  if (state.sqnConfig) payload.q = state.sqnConfig;
+  if (state.costConfig && state.costConfig.method !== CostMethod.NONE) payload.k = state.costConfig;
+  if (state.autoRun) payload.r = 1;
+
+  if (state.mode === AppMode.FREQUENCY) {
+    payload.f = (state.frequencyData ?? []).map(row => [row.count, row.rValue]);
+  } else if (state.mode === AppMode.RAW_PNL) {
+    // Only the numbers matter; drop whitespace, labels and blank lines
+    payload.p = (state.rawPnlText ?? '')
+      .split(/[\n,;]+/)
+      .map(s => parseStrictNumber(s))
+      .filter((n): n is number => n !== null)
+      .join(',');
+    payload.u = state.rUnitConfig;
+  } else {
+    payload.t = state.tradeLogText ?? '';
+  }
+
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  const body = canCompress()
+    ? `z.${toBase64Url(await pipeThrough(json, new CompressionStream('deflate-raw')))}`
+    : `j.${toBase64Url(json)}`;
+  const url = `${baseUrl.split('#')[0]}#${SHARE_PARAM}=${SHARE_VERSION}.${body}`;
+
+  if (url.length > MAX_SHARE_URL_LENGTH) {
+    const what = state.mode === AppMode.FREQUENCY ? '频率分布表' : state.mode === AppMode.RAW_PNL ? '原始盈亏列表' : '交易日志';
+    return {
+      error: `${what}过大，无法放入分享链接 (${url.length} 字符，上限 ${MAX_SHARE_URL_LENGTH})。请改用“保存为项目文件”分享。\n`
+        + `The data is too large for a share link (${url.length} > ${MAX_SHARE_URL_LENGTH} characters). Please share a project file instead.`
+    };
+  }
+  return { url };
+};
+
+// Returns null when the hash does not contain a share link at all
+export const readShareHash = (hash: string): string | null => {
+  const match = hash.replace(/^#/, '').match(new RegExp(`(?:^|&)${SHARE_PARAM}=([^&]*)`));
+  return match ? match[1] : null;
+};
+
+export const decodeShareLink = async (encoded: string): Promise<{ state: SharedState | null; error?: string }> => {
+  const [version, encoding, data] = encoded.split('.');
+  if (version !== SHARE_VERSION || !data || (encoding !== 'z' && encoding !== 'j')) {
+    return { state: null, error: '分享链接格式无法识别，可能来自更新版本或已被截断。' };
+  }
+
+  let payload: unknown;
+  try {
+    let bytes = fromBase64Url(data);
+    if (encoding === 'z') {
+      if (!canCompress()) return { state: null, error: '当前浏览器不支持解压分享链接，请更新浏览器。' };
+      bytes = await pipeThrough(bytes, new DecompressionStream('deflate-raw'));
+    }
+    payload = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    return { state: null, error: '分享链接已损坏 (可能被截断)，无法读取。' };
+  }
+
+  const state = readPayload(payload);
+  if (!state) {
+    return { state: null, error: '分享链接内容无效或不完整，无法打开。' };
+  }
+  return { state };
+};
+
+// Remove the share link from the address bar once it has been applied
+export const clearShareHash = () => {
+  if (readShareHash(window.location.hash) !== null) {
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  }
+};
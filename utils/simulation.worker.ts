@@ -0,0 +1,27 @@
+// --- Simulation Worker ---
+// Runs the Monte Carlo engines off the main thread. Spawned (and terminated) by simulationClient.ts.
+
+import { runMonteCarloSimulation, runOptimalFAnalysis } from './calculations';
+import type { WorkerRequest, WorkerResponse } from './simulationClient';
+
+const post = (message: WorkerResponse) => self.postMessage(message);
+
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const request = e.data;
+
+  try {
+    if (request.type === 'monteCarlo') {
+      const result = runMonteCarloSimulation(request.pool, request.systemMetrics, request.config, {
+        onProgress: progress => post({ type: 'progress', progress })
+      });
+      post({ type: 'result', task: 'monteCarlo', result });
+    } else {
+      const result = await runOptimalFAnalysis(request.pool, request.config, {
+        onProgress: progress => post({ type: 'progress', progress })
+      });
+      post({ type: 'result', task: 'optimalF', result });
+    }
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
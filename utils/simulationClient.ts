@@ -0,0 +1,104 @@
+import { SimulationConfig, SimulationResults, SystemMetrics, OptimalFConfig, OptimalFAnalysisResult } from '../types';
+
+// --- Worker Protocol ---
+
+export type WorkerRequest =
+  | { type: 'monteCarlo'; pool: number[]; systemMetrics: SystemMetrics; config: SimulationConfig }
+  | { type: 'optimalF'; pool: number[]; config: OptimalFConfig };
+
+// The result of each request, tagged with the request type it answers
+export type WorkerResult =
+  | { type: 'result'; task: 'monteCarlo'; result: SimulationResults }
+  | { type: 'result'; task: 'optimalF'; result: OptimalFAnalysisResult };
+
+export type WorkerResponse =
+  | { type: 'progress'; progress: number }
+  | WorkerResult
+  | { type: 'error'; message: string };
+
+// --- Client ---
+
+// Rejection reason when a task is cancelled, so callers can tell it apart from real failures
+export class SimulationCancelledError extends Error {
+  constructor() {
+    super('Simulation cancelled');
+    this.name = 'SimulationCancelledError';
+  }
+}
+
+export interface SimulationTask<T> {
+  promise: Promise<T>;
+  cancel: () => void; // Terminates the worker; partial work is discarded and the promise rejects
+}
+
+// Each task gets its own dedicated worker, which is terminated as soon as the task settles.
+// Terminating is the only way to interrupt a synchronous simulation loop mid-run.
+// `pick` takes the result out of the response, or returns undefined when it answers another request type.
+const runInWorker = <T>(
+  request: WorkerRequest,
+  pick: (message: WorkerResult) => T | undefined,
+  onProgress?: (percent: number) => void
+): SimulationTask<T> => {
+  const worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+  let settled = false;
+  let rejectTask: (reason: Error) => void = () => {};
+
+  const promise = new Promise<T>((resolve, reject) => {
+    rejectTask = reject;
+
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const message = e.data;
+      if (settled) return;
+
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+        return;
+      }
+
+      settled = true;
+      worker.terminate();
+      if (message.type === 'result') {
+        const result = pick(message);
+        if (result === undefined) reject(new Error(`Unexpected ${message.task} result for a ${request.type} task`));
+        else resolve(result);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (e: ErrorEvent) => {
+      if (settled) return;
+      settled = true;
+      worker.terminate();
+      reject(new Error(e.message || 'Simulation worker failed'));
+    };
+
+    worker.postMessage(request);
+  });
+
+  const cancel = () => {
+    if (settled) return;
+    settled = true;
+    worker.terminate();
+    rejectTask(new SimulationCancelledError());
+  };
+
+  return { promise, cancel };
+};
+
+export const runMonteCarloInWorker = (
+  pool: number[],
+  systemMetrics: SystemMetrics,
+  config: SimulationConfig,
+  onProgress?: (percent: number) => void
+): SimulationTask<SimulationResults> => (
+  runInWorker({ type: 'monteCarlo', pool, systemMetrics, config }, message => message.task === 'monteCarlo' ? message.result : undefined, onProgress)
+);
+
+export const runOptimalFInWorker = (
+  pool: number[],
+  config: OptimalFConfig,
+  onProgress?: (percent: number) => void
+): SimulationTask<OptimalFAnalysisResult> => (
+  runInWorker({ type: 'optimalF', pool, config }, message => message.task === 'optimalF' ? message.result : undefined, onProgress)
+);
@@ -0,0 +1,49 @@
+import { SimulationMetrics, SimulationRecords, SimulationResults, WorkspaceSnapshot } from '../types';
+
+// --- Per-Simulation Records ---
+// Opt-in (SimulationConfig.retainSimulations): the per-sim metrics behind every histogram, kept
+// column-wise up to a memory limit so they can be downloaded and modelled elsewhere. They are
+// never persisted; re-running with the recorded seed reproduces them.
+
+export const SIMULATION_RECORD_FIELDS: (keyof SimulationMetrics)[] = [
+  'finalResultR', 'maxDrawdownR', 'maxProfitR', 'maxConsecutiveLosses', 'maxConsecutiveWins',
+  'drawdownDuration', 'recoveryTrades', 'drawdownCount', 'avgDrawdownDepth'
+];
+
+// Keeps the first `limit` simulations
+export const createSimulationRecords = (metrics: SimulationMetrics[], limit: number): SimulationRecords => {
+  const kept = metrics.slice(0, Math.max(0, limit));
+  const columns = Object.fromEntries(
+    SIMULATION_RECORD_FIELDS.map(field => [field, kept.map(m => m[field])])
+  ) as SimulationRecords['columns'];
+  return { total: metrics.length, retained: kept.length, columns };
+};
+
+// One row per simulation; a never-recovered drawdown (recoveryTrades = null) is an empty cell
+export const simulationRecordsToCsv = (records: SimulationRecords): string => {
+  const rows = ['sim,' + SIMULATION_RECORD_FIELDS.join(',')];
+  for (let i = 0; i < records.retained; i++) {
+    rows.push(`${i + 1},` + SIMULATION_RECORD_FIELDS.map(field => records.columns[field][i] ?? '').join(','));
+  }
+  return rows.join('\n') + '\n';
+};
+
+// Columnar JSON (one array per field, like a Parquet column chunk) with the config needed to reproduce it
+export const simulationRecordsToJson = (records: SimulationRecords, results: SimulationResults): string => JSON.stringify({
+  format: 'van-tharp-simulations',
+  version: 1,
+  simulationConfig: results.simulationConfig,
+  total: records.total,
+  retained: records.retained,
+  columns: records.columns
+});
+
+export const withoutSimulationRecords = (results: SimulationResults): SimulationResults => {
+  if (!results.simulations) return results;
+  const { simulations, ...rest } = results;
+  return rest;
+};
+
+export const withoutWorkspaceSimulationRecords = (workspace: WorkspaceSnapshot): WorkspaceSnapshot => (
+  workspace.results?.simulations ? { ...workspace, results: withoutSimulationRecords(workspace.results) } : workspace
+);
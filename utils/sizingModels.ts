@@ -0,0 +1,162 @@
+import { RiskMode, SizingModelParams, OptimalFConfig } from '../types';
+
+// --- Position Sizing Models ---
+// Van Tharp's position sizing models as interchangeable sizers. Every model is driven by one
+// "size %" (the value the optimal f sweep varies) plus its own settings, and answers one question
+// per trade: how much money is at risk (1R in currency) at the current equity.
+//
+// Equity is expressed in multiples of the starting equity (1 = 100%), so the same sizer works for the
+// optimizer's normalised paths and for curves in currency (multiply by the starting capital).
+//
+// In R terms several of Tharp's models only differ by a constant: percent margin and percent
+// volatility size a position from its margin or volatility, and the risk is that position times the
+// stop, so their size % is converted with riskPerMargin / stopInAtr. Equal units keeps the same
+// position, i.e. the same money at risk, on every trade, which is FIXED_INITIAL.
+
+export interface PositionSizer {
+  reset: () => void;                      // Called at the start of every path (stateful models)
+  riskAmount: (equity: number) => number; // Money at risk on the next trade, in multiples of the starting equity
+}
+
+// One model setting as shown in the UI; boolean params render as a checkbox and ignore unit / min / max
+export interface SizingModelSetting {
+  key: keyof SizingModelParams;
+  label: string;
+  hint: string;
+  unit?: string;
+  min?: number;
+  max?: number;
+}
+
+export interface SizingModelDefinition {
+  label: string;
+  sizeLabel: string;   // What the swept percentage means for this model
+  description: string;
+  settings: SizingModelSetting[]; // The params this model reads
+  createSizer: (size: number, params: SizingModelParams) => PositionSizer; // size as a fraction (1% = 0.01)
+}
+
+export const DEFAULT_SIZING_PARAMS: SizingModelParams = {
+  equityPerUnit: 10,
+  riskPerMargin: 0.5,
+  stopInAtr: 2,
+  profitRisk: 10,
+  fixedRatioDelta: 5,
+  ratchet: false
+};
+
+const stateless = (riskAmount: (equity: number) => number): PositionSizer => ({ reset: () => {}, riskAmount });
+
+// Ryan Jones: N units need delta × (1 + 2 + ... + (N - 1)) of profit, so N = ⌊(1 + √(1 + 8·profit/delta)) / 2⌋
+export const fixedRatioUnits = (profit: number, delta: number): number => (
+  profit <= 0 || !(delta > 0) ? 1 : Math.floor((1 + Math.sqrt(1 + 8 * profit / delta)) / 2)
+);
+
+export const SIZING_MODELS: Record<RiskMode, SizingModelDefinition> = {
+  [RiskMode.FIXED_FRACTIONAL]: {
+    label: '实时权益百分比 · 复利 (Percent Risk)',
+    sizeLabel: '风险 % (Risk %)',
+    description: '百分比风险模型：每笔交易承担当前权益的固定百分比。(Percent risk of current equity.)',
+    settings: [],
+    createSizer: size => stateless(equity => equity * size)
+  },
+  [RiskMode.FIXED_INITIAL]: {
+    label: '初始权益百分比 · 等单位 (Equal Units)',
+    sizeLabel: '风险 % (Risk %)',
+    description: '等单位模型：每笔交易承担初始权益的固定百分比，仓位不随盈亏变化。(Equal units: constant money at risk.)',
+    settings: [],
+    createSizer: size => stateless(() => size)
+  },
+  [RiskMode.UNITS_PER_MONEY]: {
+    label: '每固定金额一单位 (Units per Fixed Money)',
+    sizeLabel: '每单位风险 % (Risk per Step)',
+    description: '每拥有一份固定金额的权益交易一个单位，权益不足一份时暂停交易；仓位呈阶梯式增长。(One unit per fixed amount of equity.)',
+    settings: [
+      { key: 'equityPerUnit', label: '每单位权益 (Equity per Unit)', hint: '每个交易单位需要的权益，占初始权益的百分比。10% = 起始时 10 个单位。', unit: '%', min: 0.1 }
+    ],
+    createSizer: (size, { equityPerUnit }) => {
+      const unitEquity = equityPerUnit / 100;
+      // Each unit risks `size` of the equity that funds it; the small epsilon absorbs float noise at exact multiples
+      return stateless(equity => (unitEquity > 0 ? Math.floor(equity / unitEquity + 1e-9) : 0) * size * unitEquity);
+    }
+  },
+  [RiskMode.PERCENT_MARGIN]: {
+    label: '保证金百分比 (Percent Margin)',
+    sizeLabel: '保证金 % (Margin %)',
+    description: '按当前权益的百分比投入保证金；风险 = 保证金 × (每单位风险 ÷ 每单位保证金)。(Percent margin.)',
+    settings: [
+      { key: 'riskPerMargin', label: '风险 / 保证金 (Risk ÷ Margin)', hint: '每单位止损风险 ÷ 每单位保证金。例如保证金 $2,000、止损风险 $1,000 时为 0.5。', min: 0.01 }
+    ],
+    createSizer: (size, { riskPerMargin }) => stateless(equity => equity * size * riskPerMargin)
+  },
+  [RiskMode.PERCENT_VOLATILITY]: {
+    label: '波动率百分比 (Percent Volatility)',
+    sizeLabel: '波动率 % (Volatility %)',
+    description: '使仓位的日波动 (如 ATR) 等于当前权益的百分比；风险 = 波动率敞口 × 止损的 ATR 倍数。(Percent volatility.)',
+    settings: [
+      { key: 'stopInAtr', label: '止损 / 波动率 (Stop in ATR)', hint: '止损距离是波动率 (如 ATR) 的多少倍。例如 2 ATR 止损填 2。', unit: '×', min: 0.1 }
+    ],
+    createSizer: (size, { stopInAtr }) => stateless(equity => equity * size * stopInAtr)
+  },
+  [RiskMode.MARKET_MONEY]: {
+    label: '市场资金 (Market Money)',
+    sizeLabel: '本金风险 % (Core Risk %)',
+    description: '本金部分按固定百分比承担风险，超出初始权益的盈利 (市场资金) 按单独的更高百分比承担风险。(Market money.)',
+    settings: [
+      { key: 'profitRisk', label: '盈利部分风险 (Profit Risk)', hint: '超出初始权益的盈利部分 (市场资金) 每笔承担的风险百分比。', unit: '%', min: 0, max: 100 }
+    ],
+    createSizer: (size, { profitRisk }) => stateless(equity => (
+      size * Math.min(equity, 1) + (profitRisk / 100) * Math.max(0, equity - 1)
+    ))
+  },
+  [RiskMode.FIXED_RATIO]: {
+    label: '固定比率 (Fixed Ratio, Ryan Jones)',
+    sizeLabel: '每单位风险 % (Risk per Unit)',
+    description: '从 1 个单位开始，每累计 delta × 当前单位数的盈利增加一个单位，亏损时按相同阶梯减少；棘轮模式只增不减。(Fixed ratio.)',
+    settings: [
+      { key: 'fixedRatioDelta', label: 'Delta', hint: '每增加一个单位所需的每单位盈利 (delta)，占初始权益的百分比。Ryan Jones 建议约为最大回撤的一半。', unit: '%', min: 0.1 },
+      { key: 'ratchet', label: '棘轮 (Ratchet)', hint: '单位数只增不减，直到本轮结束' }
+    ],
+    createSizer: (size, { fixedRatioDelta, ratchet }) => {
+      const delta = fixedRatioDelta / 100;
+      let highestUnits = 1;
+      return {
+        reset: () => { highestUnits = 1; },
+        riskAmount: equity => {
+          let units = fixedRatioUnits(equity - 1, delta);
+          if (ratchet) {
+            highestUnits = Math.max(highestUnits, units);
+            units = highestUnits;
+          }
+          return units * size;
+        }
+      };
+    }
+  }
+};
+
+export const clampSizingSetting = (setting: SizingModelSetting, value: number): number => (
+  Math.min(setting.max ?? Infinity, Math.max(setting.min ?? -Infinity, value))
+);
+
+export const resolveSizingParams = (config: Pick<OptimalFConfig, 'sizingParams'>): SizingModelParams => (
+  { ...DEFAULT_SIZING_PARAMS, ...config.sizingParams }
+);
+
+// Size in percent, as entered and swept
+export const createPositionSizer = (mode: RiskMode, sizePercent: number, params: SizingModelParams = DEFAULT_SIZING_PARAMS): PositionSizer => (
+  (SIZING_MODELS[mode] ?? SIZING_MODELS[RiskMode.FIXED_FRACTIONAL]).createSizer(sizePercent / 100, params)
+);
+
+// Equity path (starting at 1) of a sequence of R-multiples under a sizer. Equity cannot go below 0.
+export const sizeEquityPath = (rMultiples: number[], sizer: PositionSizer, maxEquityCap: number = Infinity): number[] => {
+  sizer.reset();
+  const path = new Array<number>(rMultiples.length + 1);
+  let equity = 1;
+  path[0] = equity;
+  for (let i = 0; i < rMultiples.length; i++) {
+    equity = Math.min(maxEquityCap, Math.max(0, equity + sizer.riskAmount(equity) * rMultiples[i]));
+    path[i + 1] = equity;
+  }
+  return path;
+};
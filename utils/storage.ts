@@ -0,0 +1,47 @@
+// --- Browser Storage ---
+// Thin wrappers around localStorage. Storage can be unavailable (private mode, disabled cookies) or
+// full; every helper degrades to in-memory behaviour instead of throwing, so the app keeps working
+// without persistence.
+
+export const STORAGE_PREFIX = 'vt-analyzer';
+
+const getStorage = (): Storage | null => {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch {
+    return null;
+  }
+};
+
+export const readJson = <T>(key: string): T | null => {
+  const storage = getStorage();
+  if (!storage) return null;
+  try {
+    const text = storage.getItem(key);
+    return text ? JSON.parse(text) as T : null;
+  } catch (err) {
+    console.warn(`Ignoring unreadable stored value "${key}"`, err);
+    return null;
+  }
+};
+
+export const writeJson = (key: string, value: unknown): boolean => {
+  const storage = getStorage();
+  if (!storage) return false;
+  try {
+    storage.setItem(key, JSON.stringify(value));
+    return true;
+  } catch (err) {
+    // Usually QuotaExceededError
+    console.warn(`Could not persist "${key}"`, err);
+    return false;
+  }
+};
+
+export const removeStoredItem = (key: string) => {
+  try {
+    getStorage()?.removeItem(key);
+  } catch {
+    // Nothing to clean up if storage is unavailable
+  }
+};
@@ -0,0 +1,101 @@
+import { AppMode, RUnitConfig, ResampleMode, SqnConfig, SystemMetrics, SystemInputs } from '../types';
+import { parseRawData, calculateBasicMetrics } from './calculations';
+import { parseTradeLog } from './tradeLog';
+import { isSequenceMode } from './resampling';
+import { applyTradeCosts, describeCostConfig, hasTradeCosts } from './tradeCosts';
+
+// --- System Inputs ---
+// Turns the inputs of any mode into the R-multiple pool and static metrics the simulation needs.
+// Shared by the single run, system comparison and anything else that runs a stored system.
+
+export interface PreparedSystem {
+  pool: number[];
+  systemMetrics: SystemMetrics;
+}
+
+// One-line summary of the inputs, e.g. for pickers and history lists
+export const describeSystemInputs = (inputs: SystemInputs): string => {
+  const costs = hasTradeCosts(inputs.costConfig) ? ` · 成本 ${describeCostConfig(inputs.costConfig)}` : '';
+  if (inputs.mode === AppMode.FREQUENCY) {
+    const trades = inputs.frequencyData.reduce((sum, row) => sum + Math.max(0, Math.floor(row.count)), 0);
+    return `频率分布 (Frequency) · ${inputs.frequencyData.length} 行 / ${trades} 笔${costs}`;
+  }
+  const text = inputs.mode === AppMode.RAW_PNL ? inputs.rawPnlText : inputs.tradeLogText;
+  const rows = text.split(/\r?\n/).filter(line => line.trim() !== '').length;
+  return inputs.mode === AppMode.RAW_PNL
+    ? `原始盈亏 (Raw P&L) · ${rows} 行${costs}`
+    : `交易日志 (Trade Log) · ${Math.max(0, rows - 1)} 笔${costs}`;
+};
+
+export const prepareSystem = (
+  inputs: SystemInputs,
+  sqnConfig: SqnConfig,
+  resampleMode: ResampleMode
+): { system: PreparedSystem | null; error?: string } => {
+  let rDistribution: number[] = [];
+  let rUnitSize: number | undefined = undefined;
+  let avgInitialRisk: number | undefined = undefined;
+  let usedRUnitConfig: RUnitConfig | undefined = undefined;
+  let riskUnits: number | number[] | undefined = undefined; // Currency size of 1R, for currency costs
+  let n = sqnConfig.cap; // Frequency mode: the table is a distribution, graded at the cap
+
+  if (inputs.mode === AppMode.FREQUENCY) {
+    // Flatten distribution
+    inputs.frequencyData.forEach(row => {
+      const count = Math.max(0, Math.floor(row.count));
+      for (let i = 0; i < count; i++) {
+        rDistribution.push(row.rValue);
+      }
+    });
+
+    if (rDistribution.length === 0) {
+      return { system: null, error: "请至少添加一行数据，且次数大于 0。" };
+    }
+
+    // The flattened table is grouped by R value, so block resampling would fabricate streaks
+    if (isSequenceMode(resampleMode)) {
+      return { system: null, error: "频率分布模式没有真实的交易顺序，块自助法仅适用于原始盈亏数据。请改用 i.i.d. 或洗牌模式。" };
+    }
+
+  } else if (inputs.mode === AppMode.RAW_PNL) {
+    // Mode B: Raw PnL
+    const parsed = parseRawData(inputs.rawPnlText, inputs.rUnitConfig, sqnConfig.cap);
+    if (parsed.error) {
+      return { system: null, error: parsed.error };
+    }
+    rDistribution = parsed.rMultiples;
+    rUnitSize = parsed.rUnit;
+    riskUnits = parsed.rUnit;
+    usedRUnitConfig = inputs.rUnitConfig;
+    n = parsed.validCount;
+  } else {
+    // Mode C: Trade Log, R = PnL / each trade's initial risk
+    const parsed = parseTradeLog(inputs.tradeLogText, sqnConfig.cap);
+    if (parsed.error) {
+      return { system: null, error: parsed.error };
+    }
+    rDistribution = parsed.rMultiples;
+    avgInitialRisk = parsed.avgRisk;
+    riskUnits = parsed.risks;
+    n = parsed.validCount;
+  }
+
+  // Costs are deducted before any statistic, so everything downstream (simulation, sizing) is net.
+  // 1R itself is unchanged: it measures the risk taken, not the outcome.
+  if (hasTradeCosts(inputs.costConfig)) {
+    const costConfig = inputs.costConfig;
+    const net = applyTradeCosts(rDistribution, costConfig, riskUnits);
+    if (net.error) {
+      return { system: null, error: net.error };
+    }
+    const { winRate, profitFactor, expectancy, standardDeviation, sqn, sqnRaw } = calculateBasicMetrics(rDistribution, n, rUnitSize, sqnConfig);
+    const systemMetrics = {
+      ...calculateBasicMetrics(net.rMultiples, n, rUnitSize, sqnConfig), avgInitialRisk, rUnitConfig: usedRUnitConfig,
+      costs: { costConfig, avgCostR: net.avgCostR, gross: { winRate, profitFactor, expectancy, standardDeviation, sqn, sqnRaw } }
+    };
+    return { system: { pool: net.rMultiples, systemMetrics } };
+  }
+
+  const systemMetrics = { ...calculateBasicMetrics(rDistribution, n, rUnitSize, sqnConfig), avgInitialRisk, rUnitConfig: usedRUnitConfig };
+  return { system: { pool: rDistribution, systemMetrics } };
+};
@@ -0,0 +1,72 @@
+import { CostConfig, CostMethod } from '../types';
+
+// --- Trading Costs ---
+// Commissions, slippage and fees per round trip. R-multiples should be net of costs, and systems
+// whose average win is only a fraction of 1R are very sensitive to them, so the cost is converted
+// to R and deducted from every trade before any statistic is computed.
+
+export const DEFAULT_COST_CONFIG: CostConfig = {
+  method: CostMethod.NONE,
+  fixedR: 0.05,
+  riskPercent: 5,
+  amount: 5
+};
+
+export const COST_METHOD_LABELS: Record<CostMethod, string> = {
+  [CostMethod.NONE]: '不计成本 (None)',
+  [CostMethod.FIXED_R]: '固定 R / 笔 (Fixed R)',
+  [CostMethod.RISK_PERCENT]: '风险百分比 (% of Risk)',
+  [CostMethod.CURRENCY]: '固定金额 / 笔 (Currency)',
+};
+
+// Short description of a config, e.g. "固定 R / 笔 (Fixed R) 0.05R"
+export const describeCostConfig = (config: CostConfig): string => {
+  const label = COST_METHOD_LABELS[config.method];
+  if (config.method === CostMethod.FIXED_R) return `${label} ${config.fixedR}R`;
+  if (config.method === CostMethod.RISK_PERCENT) return `${label} ${config.riskPercent}%`;
+  if (config.method === CostMethod.CURRENCY) return `${label} ${config.amount}`;
+  return label;
+};
+
+export const hasTradeCosts = (config: CostConfig | undefined): config is CostConfig => (
+  config !== undefined && config.method !== CostMethod.NONE
+);
+
+// Costs stated in R apply to any distribution; a currency amount needs the currency size of 1R
+export const isCostInR = (config: CostConfig): boolean => (
+  config.method === CostMethod.FIXED_R || config.method === CostMethod.RISK_PERCENT
+);
+
+// Deducts the cost from each trade. `riskUnits` is the currency size of 1R, either one value
+// (Raw PnL) or one per trade (Trade Log); it is only needed for currency costs.
+export const applyTradeCosts = (
+  rMultiples: number[],
+  config: CostConfig,
+  riskUnits?: number | number[]
+): { rMultiples: number[]; avgCostR: number; error?: string } => {
+  let costOf: (i: number) => number;
+
+  if (config.method === CostMethod.NONE) {
+    return { rMultiples, avgCostR: 0 };
+  } else if (config.method === CostMethod.FIXED_R) {
+    if (!(config.fixedR >= 0)) return { rMultiples: [], avgCostR: 0, error: "每笔交易成本 (R) 不能为负数。" };
+    costOf = () => config.fixedR;
+  } else if (config.method === CostMethod.RISK_PERCENT) {
+    if (!(config.riskPercent >= 0)) return { rMultiples: [], avgCostR: 0, error: "交易成本百分比不能为负数。" };
+    costOf = () => config.riskPercent / 100;
+  } else {
+    if (!(config.amount >= 0)) return { rMultiples: [], avgCostR: 0, error: "每笔交易成本金额不能为负数。" };
+    if (riskUnits === undefined) {
+      return { rMultiples: [], avgCostR: 0, error: "频率分布模式以 R 为单位，没有金额信息。请改用固定 R 或风险百分比计算成本。" };
+    }
+    costOf = Array.isArray(riskUnits) ? (i => config.amount / riskUnits[i]) : (() => config.amount / riskUnits);
+  }
+
+  let costSum = 0;
+  const net = rMultiples.map((r, i) => {
+    const cost = costOf(i);
+    costSum += cost;
+    return r - cost;
+  });
+  return { rMultiples: net, avgCostR: net.length > 0 ? costSum / net.length : 0 };
+};
@@ -0,0 +1,142 @@
+import { parseStrictNumber, DEFAULT_SQN_CONFIG } from './calculations';
+
+// --- Trade Log Parsing ---
+// Structured journals where every trade carries its own initial risk, so R = PnL / initial risk
+// (Van Tharp's definition) instead of a single 1R derived from the average loss.
+//
+// Two layouts are accepted (header row required, comma / tab / semicolon separated):
+//   1. PnL + Risk:                     pnl, risk
+//   2. Entry / Stop / Exit [/ Size / Direction]
+//      Size defaults to 1. Direction (long/short) is inferred from the stop when omitted.
+
+export const MIN_TRADE_LOG_ROWS = 30;
+
+export interface TradeLogParseResult {
+  rMultiples: number[];
+  validCount: number;   // n used for SQN (clamped to the SQN cap, same as Raw P&L mode)
+  tradeCount: number;   // Actual number of trades parsed
+  avgRisk: number;      // Mean initial risk in currency
+  risks: number[];      // Initial risk of each trade in currency (1R per trade)
+  error?: string;
+}
+
+type Column = 'pnl' | 'risk' | 'entry' | 'stop' | 'exit' | 'size' | 'direction';
+
+const COLUMN_ALIASES: Record<Column, string[]> = {
+  pnl: ['pnl', 'p&l', 'profit', 'netpnl', '盈亏', '损益'],
+  risk: ['risk', 'initialrisk', '1r', '风险', '初始风险'],
+  entry: ['entry', 'entryprice', 'open', '开仓', '开仓价', '入场', '入场价'],
+  stop: ['stop', 'stoploss', 'sl', '止损', '止损价'],
+  exit: ['exit', 'exitprice', 'close', '平仓', '平仓价', '出场', '出场价'],
+  size: ['size', 'qty', 'quantity', 'shares', 'contracts', '数量', '手数'],
+  direction: ['direction', 'side', 'dir', '方向', '多空'],
+};
+
+const LONG_TOKENS = ['long', 'buy', 'l', 'b', '1', '+1', '多', '做多', '买'];
+const SHORT_TOKENS = ['short', 'sell', 's', '-1', '空', '做空', '卖'];
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s_\-()]/g, '');
+
+const splitRow = (line: string): string[] => {
+  const delimiter = line.includes('\t') ? '\t' : line.includes(';') ? ';' : ',';
+  return line.split(delimiter).map(cell => cell.trim().replace(/^"(.*)"$/, '$1'));
+};
+
+const fail = (error: string): TradeLogParseResult => ({ rMultiples: [], validCount: 0, tradeCount: 0, avgRisk: 0, risks: [], error });
+
+export const parseTradeLog = (inputText: string, sqnCap: number = DEFAULT_SQN_CONFIG.cap): TradeLogParseResult => {
+  // Keep original line numbers so errors point at the row the user sees
+  const lines = inputText
+    .split(/\r?\n/)
+    .map((text, i) => ({ text, lineNo: i + 1 }))
+    .filter(l => l.text.trim() !== '');
+
+  if (lines.length === 0) {
+    return fail('交易日志为空。请粘贴带表头的 CSV，例如 "pnl,risk" 或 "entry,stop,exit,size,direction"。');
+  }
+
+  // --- Header ---
+  const headers = splitRow(lines[0].text).map(normalizeHeader);
+  const columnIndex: Partial<Record<Column, number>> = {};
+  (Object.keys(COLUMN_ALIASES) as Column[]).forEach(col => {
+    const idx = headers.findIndex(h => COLUMN_ALIASES[col].includes(h));
+    if (idx >= 0) columnIndex[col] = idx;
+  });
+
+  const hasPnlLayout = columnIndex.pnl !== undefined && columnIndex.risk !== undefined;
+  const hasPriceLayout = columnIndex.entry !== undefined && columnIndex.stop !== undefined && columnIndex.exit !== undefined;
+
+  if (!hasPnlLayout && !hasPriceLayout) {
+    return fail(`第 ${lines[0].lineNo} 行 (表头): 无法识别列。需要 "pnl, risk" 两列，或 "entry, stop, exit" (可选 size, direction) 列。`);
+  }
+
+  // --- Rows ---
+  const rMultiples: number[] = [];
+  const risks: number[] = [];
+  let riskSum = 0;
+
+  for (const { text, lineNo } of lines.slice(1)) {
+    const cells = splitRow(text);
+    const readNumber = (col: Column): number | null | undefined => {
+      const idx = columnIndex[col];
+      if (idx === undefined) return undefined;
+      return parseStrictNumber(cells[idx] ?? '');
+    };
+
+    let pnl: number;
+    let risk: number;
+
+    if (hasPnlLayout) {
+      const p = readNumber('pnl');
+      const r = readNumber('risk');
+      if (p === null) return fail(`第 ${lineNo} 行: 盈亏 (pnl) 不是有效数字 "${cells[columnIndex.pnl] ?? ''}"。`);
+      if (r === null) return fail(`第 ${lineNo} 行: 风险 (risk) 不是有效数字 "${cells[columnIndex.risk] ?? ''}"。`);
+      if (r <= 0) return fail(`第 ${lineNo} 行: 初始风险必须大于 0 (当前为 ${r})。`);
+      pnl = p;
+      risk = r;
+    } else {
+      const entry = readNumber('entry');
+      const stop = readNumber('stop');
+      const exit = readNumber('exit');
+      const sizeRaw = readNumber('size');
+      if (entry === null) return fail(`第 ${lineNo} 行: 开仓价 (entry) 不是有效数字。`);
+      if (stop === null) return fail(`第 ${lineNo} 行: 止损价 (stop) 不是有效数字。`);
+      if (exit === null) return fail(`第 ${lineNo} 行: 平仓价 (exit) 不是有效数字。`);
+      if (sizeRaw === null) return fail(`第 ${lineNo} 行: 数量 (size) 不是有效数字。`);
+      const size = sizeRaw === undefined ? 1 : Math.abs(sizeRaw);
+      if (size === 0) return fail(`第 ${lineNo} 行: 数量 (size) 不能为 0。`);
+      if (entry === stop) return fail(`第 ${lineNo} 行: 止损价等于开仓价，初始风险为 0。`);
+
+      // Direction: explicit column wins, otherwise the side of the stop tells us
+      let direction = stop < entry ? 1 : -1;
+      if (columnIndex.direction !== undefined) {
+        const token = (cells[columnIndex.direction] ?? '').trim().toLowerCase();
+        if (LONG_TOKENS.includes(token)) direction = 1;
+        else if (SHORT_TOKENS.includes(token)) direction = -1;
+        else if (token !== '') return fail(`第 ${lineNo} 行: 无法识别方向 "${token}" (应为 long/short)。`);
+      }
+      if ((direction === 1 && stop > entry) || (direction === -1 && stop < entry)) {
+        return fail(`第 ${lineNo} 行: 止损价位于开仓价的错误一侧 (${direction === 1 ? '多单止损应低于开仓价' : '空单止损应高于开仓价'})。`);
+      }
+
+      risk = Math.abs(entry - stop) * size;
+      pnl = (exit - entry) * size * direction;
+    }
+
+    rMultiples.push(pnl / risk);
+    risks.push(risk);
+    riskSum += risk;
+  }
+
+  if (rMultiples.length < MIN_TRADE_LOG_ROWS) {
+    return fail(`数据不足。当前仅找到 ${rMultiples.length} 笔交易，最少需要 ${MIN_TRADE_LOG_ROWS} 笔。`);
+  }
+
+  return {
+    rMultiples,
+    validCount: Math.min(sqnCap, rMultiples.length), // Clamp to the SQN cap, same as Raw P&L mode
+    tradeCount: rMultiples.length,
+    avgRisk: riskSum / rMultiples.length,
+    risks,
+  };
+};
@@ -0,0 +1,175 @@
+import { AppMode, CorrelationType, OptimalFConfig, ResampleMode, RiskAllocationState, RiskMode, SimulationConfig, WorkspaceInfo, WorkspaceSnapshot } from '../types';
+import { DEFAULT_R_UNIT_CONFIG, DEFAULT_SQN_CONFIG } from './calculations';
+import { STORAGE_PREFIX, readJson, writeJson, removeStoredItem } from './storage';
+import { clearRunHistory } from './runHistory';
+import { withoutWorkspaceSimulationRecords } from './simulationRecords';
+import { DEFAULT_COST_CONFIG } from './tradeCosts';
+import { DEFAULT_SIZING_PARAMS } from './sizingModels';
+import { DEFAULT_EQUITY_SIMULATION_CONFIG, resolveEquitySimulationConfig } from './equitySimulation';
+import { DEFAULT_RISK_SWEEP } from './riskSweep';
+
+// --- Workspace Defaults ---
+
+export const DEFAULT_SIMULATION_CONFIG: SimulationConfig = {
+  totalSimulations: 10000,
+  tradesPerSimulation: 100,
+  resampleMode: ResampleMode.IID,
+  blockLength: 5,
+  drawdownThreshold: 5,
+  equity: DEFAULT_EQUITY_SIMULATION_CONFIG
+};
+
+export const DEFAULT_OPTIMAL_F_CONFIG: OptimalFConfig = {
+  successThreshold: 100,
+  failureThreshold: -25,
+  tradesPerSim: 100,
+  totalSims: 10000,
+  riskMode: RiskMode.FIXED_FRACTIONAL,
+  sizingParams: DEFAULT_SIZING_PARAMS,
+  sweep: DEFAULT_RISK_SWEEP,
+  commonRandomNumbers: false
+};
+
+export const DEFAULT_RISK_ALLOCATION: RiskAllocationState = {
+  step: 1,
+  assetCount: 3,
+  assetNames: [],
+  correlationMatrix: [],
+  maxSingleRisk: 2.0,
+  allowOverAllocation: false
+};
+
+export const createDefaultWorkspace = (): WorkspaceSnapshot => ({
+  mode: AppMode.FREQUENCY,
+  frequencyData: [
+    { id: '1', count: 5, rValue: -1 },
+    { id: '2', count: 3, rValue: 2 },
+    { id: '3', count: 2, rValue: 5 },
+  ],
+  rawPnlText: '',
+  rUnitConfig: DEFAULT_R_UNIT_CONFIG,
+  tradeLogText: '',
+  costConfig: DEFAULT_COST_CONFIG,
+  sqnConfig: DEFAULT_SQN_CONFIG,
+  simulationConfig: DEFAULT_SIMULATION_CONFIG,
+  optimalFConfig: DEFAULT_OPTIMAL_F_CONFIG,
+  riskAllocation: DEFAULT_RISK_ALLOCATION,
+  results: null
+});
+
+// Fill fields missing from an older or partial snapshot with the current defaults
+export const completeWorkspace = (input: Partial<WorkspaceSnapshot>): WorkspaceSnapshot => {
+  const defaults = createDefaultWorkspace();
+  // Explicitly undefined fields must not override the defaults
+  const partial = Object.fromEntries(Object.entries(input).filter(([, v]) => v !== undefined)) as Partial<WorkspaceSnapshot>;
+  const correlationValues = Object.values(CorrelationType) as string[];
+  const riskAllocation = { ...defaults.riskAllocation, ...partial.riskAllocation };
+  // A matrix that does not match the asset list cannot be shown; fall back to the setup step
+  const matrixValid = riskAllocation.correlationMatrix.length === riskAllocation.assetNames.length
+    && riskAllocation.correlationMatrix.every(row => row.length === riskAllocation.assetNames.length && row.every(c => correlationValues.includes(c)));
+
+  return {
+    ...defaults,
+    ...partial,
+    rUnitConfig: { ...defaults.rUnitConfig, ...partial.rUnitConfig },
+    costConfig: { ...defaults.costConfig, ...partial.costConfig },
+    sqnConfig: { ...defaults.sqnConfig, ...partial.sqnConfig },
+    simulationConfig: {
+      ...defaults.simulationConfig,
+      ...partial.simulationConfig,
+      equity: resolveEquitySimulationConfig(partial.simulationConfig ?? {})
+    },
+    optimalFConfig: {
+      ...defaults.optimalFConfig,
+      ...partial.optimalFConfig,
+      sizingParams: { ...DEFAULT_SIZING_PARAMS, ...partial.optimalFConfig?.sizingParams },
+      sweep: { ...DEFAULT_RISK_SWEEP, ...partial.optimalFConfig?.sweep }
+    },
+    riskAllocation: matrixValid ? riskAllocation : { ...riskAllocation, step: 1, assetNames: [], correlationMatrix: [] },
+    frequencyData: Array.isArray(partial.frequencyData) ? partial.frequencyData : defaults.frequencyData,
+    results: partial.results ?? null
+  };
+};
+
+// --- Local Persistence ---
+// Workspaces live in localStorage: one index entry listing them, plus one entry per workspace.
+
+const INDEX_KEY = `${STORAGE_PREFIX}:workspaces`;
+const workspaceKey = (id: string) => `${STORAGE_PREFIX}:workspace:${id}`;
+
+export const DEFAULT_WORKSPACE_NAME = '默认工作区 (Default)';
+
+export interface WorkspaceIndex {
+  activeId: string;
+  workspaces: WorkspaceInfo[];
+}
+
+const generateWorkspaceId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const saveIndex = (index: WorkspaceIndex) => writeJson(INDEX_KEY, index);
+
+// Returns the stored index, creating a single default workspace on first use
+export const loadWorkspaceIndex = (): WorkspaceIndex => {
+  const stored = readJson<WorkspaceIndex>(INDEX_KEY);
+  if (stored && Array.isArray(stored.workspaces) && stored.workspaces.length > 0) {
+    const activeId = stored.workspaces.some(w => w.id === stored.activeId) ? stored.activeId : stored.workspaces[0].id;
+    return { activeId, workspaces: stored.workspaces };
+  }
+
+  const info: WorkspaceInfo = { id: generateWorkspaceId(), name: DEFAULT_WORKSPACE_NAME, updatedAt: Date.now() };
+  const index = { activeId: info.id, workspaces: [info] };
+  saveIndex(index);
+  return index;
+};
+
+export const loadWorkspace = (id: string): WorkspaceSnapshot => (
+  completeWorkspace(readJson<Partial<WorkspaceSnapshot>>(workspaceKey(id)) ?? {})
+);
+
+// Results are by far the largest part; if the quota is hit they are dropped and the inputs kept.
+// Per-simulation records are never stored.
+export const saveWorkspace = (index: WorkspaceIndex, id: string, snapshot: WorkspaceSnapshot): WorkspaceIndex => {
+  const stored = withoutWorkspaceSimulationRecords(snapshot);
+  const saved = writeJson(workspaceKey(id), stored) || writeJson(workspaceKey(id), { ...stored, results: null });
+  if (!saved) return index;
+
+  const next = {
+    ...index,
+    workspaces: index.workspaces.map(w => w.id === id ? { ...w, updatedAt: Date.now() } : w)
+  };
+  saveIndex(next);
+  return next;
+};
+
+export const createWorkspace = (index: WorkspaceIndex, name: string, snapshot: WorkspaceSnapshot = createDefaultWorkspace()): WorkspaceIndex => {
+  const info: WorkspaceInfo = { id: generateWorkspaceId(), name, updatedAt: Date.now() };
+  // Stored like saveWorkspace: no per-simulation records, and without results if the quota is hit
+  const stored = withoutWorkspaceSimulationRecords(snapshot);
+  writeJson(workspaceKey(info.id), stored) || writeJson(workspaceKey(info.id), { ...stored, results: null });
+  const next = { activeId: info.id, workspaces: [...index.workspaces, info] };
+  saveIndex(next);
+  return next;
+};
+
+export const renameWorkspace = (index: WorkspaceIndex, id: string, name: string): WorkspaceIndex => {
+  const next = { ...index, workspaces: index.workspaces.map(w => w.id === id ? { ...w, name } : w) };
+  saveIndex(next);
+  return next;
+};
+
+// The last remaining workspace cannot be deleted
+export const deleteWorkspace = (index: WorkspaceIndex, id: string): WorkspaceIndex => {
+  if (index.workspaces.length <= 1) return index;
+  const workspaces = index.workspaces.filter(w => w.id !== id);
+  removeStoredItem(workspaceKey(id));
+  clearRunHistory(id);
+  const next = { activeId: index.activeId === id ? workspaces[0].id : index.activeId, workspaces };
+  saveIndex(next);
+  return next;
+};
+
+export const setActiveWorkspace = (index: WorkspaceIndex, id: string): WorkspaceIndex => {
+  const next = { ...index, activeId: id };
+  saveIndex(next);
+  return next;
+};
@@ -0,0 +1,18 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+
+// Library build of the calculation engine (lib/index.ts): ESM only, no React.
+// Type declarations are emitted separately by `tsc -p tsconfig.lib.json`.
+export default defineConfig({
+  publicDir: false,
+  build: {
+    outDir: 'dist-lib',
+    emptyOutDir: true,
+    sourcemap: true,
+    lib: {
+      entry: path.resolve(__dirname, 'lib/index.ts'),
+      formats: ['es'],
+      fileName: 'engine',
+    },
+  },
+});